@@ -2,32 +2,58 @@ import React, { useState, useEffect } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { Scan, Globe, Image as ImageIcon } from 'lucide-react';
 import Logo from './components/Logo';
-import { GradientButton } from './components/UIComponents';
+import { GradientButton, GlassCard } from './components/UIComponents';
 import BottomNav from './components/BottomNav';
 import Home from './pages/Home';
 import Results from './pages/Results';
+import History from './pages/History';
 import Gallery from './pages/Gallery';
 import Profile from './pages/Profile';
 import SignIn from './pages/SignIn';
 import SignUp from './pages/SignUp';
 import AdminDashboard from './pages/admin/Dashboard.tsx';
 import AllImages from './pages/admin/AllImages.tsx';
-import { AppState, Tab, PhotoResult, UserRole } from './types';
+import UploadJobs from './pages/admin/UploadJobs.tsx';
+import People from './pages/admin/People.tsx';
+import SharedView from './pages/SharedView';
+import PermissionDenied from './components/PermissionDenied';
+import FacePicker from './components/FacePicker';
+import { AppState, Tab, PhotoResult, UserRole, FaceBox, SearchGroup, QueryReference } from './types';
 import { MOCK_GALLERY_DATA, MOCK_ADMIN_ALL_IMAGES } from './constants';
 import { ToastContainer, useToast, showToast } from './components/Toast';
-import { getProfile } from './services/apiService';
+import { getProfile, ApiError } from './services/apiService';
+import { getStoredToken, saveSession, clearSession, onSessionEvent, getTokenExpiry, refreshSession } from './services/authSession';
+import { getSearchEntry, recordSearch, SearchHistoryEntry } from './services/searchHistory';
+import { dataUrlToFile } from './utils';
+import { useRoute, navigate, goBack, getCurrentPath, isPublicRoute, isAuthRoute, isAdminRoute } from './services/router';
 import { APP_TEXT_GRADIENT } from './constants'
 
+// Most reference photos searched together; each costs one search request
+const MAX_REFERENCES = 5;
+
+interface ActiveSearch {
+  id: string;
+  sourceImage: string;
+  sourceFile: File | null;
+  faces?: FaceBox[];
+  references?: QueryReference[];
+  // Stored matches when the search was reopened from history
+  groups?: SearchGroup[];
+}
+
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>('splash');
-  const [activeTab, setActiveTab] = useState<Tab>('home');
+  const route = useRoute();
   const [userRole, setUserRole] = useState<UserRole>('user');
   
   // Authentication States
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [authToken, setAuthToken] = useState<string | null>(localStorage.getItem('authToken'));
-  const [showSignUp, setShowSignUp] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(() => !!getStoredToken());
+  const [authToken, setAuthToken] = useState<string | null>(getStoredToken());
+  const [sessionExpired, setSessionExpired] = useState(false);
+  // Path to restore after signing in; when userId is set, only that user is sent back there
+  const [returnTo, setReturnTo] = useState<{ path: string; userId?: number } | null>(null);
   const [userIsAdmin, setUserIsAdmin] = useState(false);
+  const [permissionDenied, setPermissionDenied] = useState(false);
   const [hasShownWelcomeToast, setHasShownWelcomeToast] = useState(false);
   
   // Theme State
@@ -37,18 +63,29 @@ const App: React.FC = () => {
   });
   
   // Specific Page States
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [sourceImage, setSourceImage] = useState<string | null>(null);
-  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [activeSearch, setActiveSearch] = useState<ActiveSearch | null>(null);
+  // Photo waiting for the user to pick which faces to search
+  const [pendingQuery, setPendingQuery] = useState<{ sourceImage: string; file: File } | null>(null);
   const [savedImageIds, setSavedImageIds] = useState<string[]>([]);
   const [userProfileImage, setUserProfileImage] = useState<string | null>(null);
   const [userData, setUserData] = useState<any>(null);
+  // Why the profile failed to load; bumping profileAttempt retries
+  const [profileError, setProfileError] = useState<string | null>(null);
+  const [profileAttempt, setProfileAttempt] = useState(0);
   
   // Admin Data States
   const [allImages, setAllImages] = useState<PhotoResult[]>(MOCK_ADMIN_ALL_IMAGES);
   
   // Toast system
   const { toasts, removeToast } = useToast();
+
+  // Bottom nav tab for the current route; results, auth screens and share links sit under home
+  const activeTab: Tab =
+    route.name === 'results' || route.name === 'signin' || route.name === 'signup' || route.name === 'shared' ? 'home' : route.name;
+
+  const setActiveTab = (tab: Tab) => {
+    navigate({ name: tab });
+  };
   
   // Theme management
   useEffect(() => {
@@ -96,22 +133,18 @@ const App: React.FC = () => {
     }
   };
 
-  // Check authentication on mount and load user profile
+  // Load the user profile on mount and on each sign-in. Keyed on the session rather than the token,
+  // so background token refreshes don't reload it.
   useEffect(() => {
-    if (authToken) {
-      setIsAuthenticated(true);
+    if (isAuthenticated && authToken) {
       // Load user profile to get admin status and profile image
       getProfile(authToken)
         .then(response => {
+          setProfileError(null);
           setUserData(response.user);
           setUserIsAdmin(response.user.is_admin || false);
-          if (response.user.is_admin) {
-            setUserRole('admin');
-            setActiveTab('dashboard'); // Admin starts at dashboard
-          } else {
-            setUserRole('user');
-            setActiveTab('home'); // User starts at home
-          }
+          // Keep the deep-linked route; admins landing on home are redirected to the dashboard
+          setUserRole(response.user.is_admin ? 'admin' : 'user');
           // Set profile image URL if available
           if (response.user.profile_image) {
             import('./services/apiService').then(({ getProfileImageUrl }) => {
@@ -133,39 +166,66 @@ const App: React.FC = () => {
             setHasShownWelcomeToast(true);
           }
         })
-        .catch(() => {
-          // Token might be invalid, clear it
-          localStorage.removeItem('authToken');
-          setAuthToken(null);
-          setIsAuthenticated(false);
+        .catch((error) => {
+          // A 401 here means refresh already failed; the session event shows the expiry screen
+          if (error instanceof ApiError && error.status === 401) return;
+          console.error('Failed to load profile:', error);
+          setProfileError(error.message || 'Failed to load your profile');
+          showToast(error.message || 'Failed to load your profile', 'error');
         });
     }
-  }, [authToken]);
+  }, [isAuthenticated, profileAttempt]);
+
+  const retryProfile = () => {
+    setProfileError(null);
+    setProfileAttempt(attempt => attempt + 1);
+  };
 
-  // Simulating route check on mount
+  // React to background token refreshes and expired sessions
   useEffect(() => {
-    // In a real app, check router. Here we check if pathname contains 'admin' for simulation
-    if (window.location.pathname.includes('admin')) {
-        setUserRole('admin');
-        setActiveTab('dashboard');
-    }
-  }, []);
+    return onSessionEvent((event) => {
+      if (event.type === 'refreshed') {
+        setAuthToken(event.token);
+        return;
+      }
+      if (!isAuthenticated) return;
+      setReturnTo({ path: getCurrentPath(), userId: userData?.id });
+      setSessionExpired(true);
+      setAuthToken(null);
+      setIsAuthenticated(false);
+      navigate({ name: 'signin' }, { replace: true });
+      showToast('Your session has expired. Please sign in again.', 'error');
+    });
+  }, [isAuthenticated, userData]);
+
+  // Refresh shortly before the access token's JWT expiry
+  useEffect(() => {
+    if (!authToken) return;
+    const expiry = getTokenExpiry(authToken);
+    if (expiry === null) return;
+    const timer = setTimeout(() => {
+      refreshSession();
+    }, Math.max(expiry - Date.now() - 60000, 0));
+    return () => clearTimeout(timer);
+  }, [authToken]);
 
   // Authentication handlers
-  const handleSignInSuccess = async (token: string, user: any) => {
-    localStorage.setItem('authToken', token);
+  const handleSignInSuccess = async (token: string, user: any, refreshToken?: string) => {
+    saveSession(token, refreshToken);
     setAuthToken(token);
     setUserIsAdmin(user.is_admin || false);
     setIsAuthenticated(true);
-    setShowSignUp(false);
-    // Set role and default tab based on admin status
-    if (user.is_admin) {
-      setUserRole('admin');
-      setActiveTab('dashboard'); // Admin starts at dashboard
+    setSessionExpired(false);
+    setUserData(user);
+    // Set role and default route based on admin status
+    setUserRole(user.is_admin ? 'admin' : 'user');
+    // Return to the deep link or the screen the session expired on
+    if (returnTo && (returnTo.userId === undefined || returnTo.userId === user.id)) {
+      navigate(returnTo.path, { replace: true });
     } else {
-      setUserRole('user');
-      setActiveTab('home'); // User starts at home
+      navigate({ name: user.is_admin ? 'dashboard' : 'home' }, { replace: true });
     }
+    setReturnTo(null);
     // Set profile image if available
     if (user.profile_image) {
       const { getProfileImageUrl } = await import('./services/apiService');
@@ -185,20 +245,22 @@ const App: React.FC = () => {
     setHasShownWelcomeToast(true);
   };
 
-  const handleSignUpSuccess = async (token: string, user: any) => {
-    localStorage.setItem('authToken', token);
+  const handleSignUpSuccess = async (token: string, user: any, refreshToken?: string) => {
+    saveSession(token, refreshToken);
     setAuthToken(token);
     setUserIsAdmin(user.is_admin || false);
     setIsAuthenticated(true);
-    setShowSignUp(false);
-    // Set role and default tab based on admin status
-    if (user.is_admin) {
-      setUserRole('admin');
-      setActiveTab('dashboard'); // Admin starts at dashboard
+    setSessionExpired(false);
+    setUserData(user);
+    // Set role and default route based on admin status
+    setUserRole(user.is_admin ? 'admin' : 'user');
+    // Return to the deep link or the screen the session expired on
+    if (returnTo && (returnTo.userId === undefined || returnTo.userId === user.id)) {
+      navigate(returnTo.path, { replace: true });
     } else {
-      setUserRole('user');
-      setActiveTab('home'); // User starts at home
+      navigate({ name: user.is_admin ? 'dashboard' : 'home' }, { replace: true });
     }
+    setReturnTo(null);
     // Set profile image if available
     if (user.profile_image) {
       const { getProfileImageUrl } = await import('./services/apiService');
@@ -225,10 +287,15 @@ const App: React.FC = () => {
     setHasShownWelcomeToast(false);
     // Clear auth state after a small delay to ensure toast is shown
     setTimeout(() => {
-      localStorage.removeItem('authToken');
+      clearSession();
       setAuthToken(null);
       setIsAuthenticated(false);
-      setActiveTab('home');
+      setUserIsAdmin(false);
+      setUserRole('user');
+      setPermissionDenied(false);
+      setProfileError(null);
+      setReturnTo(null);
+      navigate({ name: 'signin' }, { replace: true });
     }, 100);
   };
 
@@ -237,14 +304,58 @@ const App: React.FC = () => {
       setActiveTab(newTab);
   };
 
-  // Toggle Admin Role (Prototype Feature)
+  // Toggle between admin and user interfaces (server-confirmed admins only)
   const toggleRole = () => {
+    if (!userIsAdmin) return;
     const newRole = userRole === 'user' ? 'admin' : 'user';
     setUserRole(newRole);
     // Reset to default tab for that role
     setActiveTab(newRole === 'admin' ? 'dashboard' : 'home');
   };
 
+  // Route guards: signed-out users go to sign in (remembering the deep link), signed-in users skip it
+  useEffect(() => {
+    if (appState !== 'app') return;
+    if (!isAuthenticated && !isPublicRoute(route)) {
+      setReturnTo(prev => prev ?? { path: getCurrentPath() });
+      navigate({ name: 'signin' }, { replace: true });
+    } else if (isAuthenticated && isAuthRoute(route)) {
+      navigate({ name: userIsAdmin ? 'dashboard' : 'home' }, { replace: true });
+    }
+  }, [appState, isAuthenticated, route]);
+
+  // Admin routes switch admins into the admin interface; admins have no home screen
+  useEffect(() => {
+    if (!userIsAdmin) return;
+    if (isAdminRoute(route) && userRole !== 'admin') {
+      setUserRole('admin');
+    } else if (route.name === 'home' && userRole === 'admin') {
+      navigate({ name: 'dashboard' }, { replace: true });
+    }
+  }, [route, userIsAdmin, userRole]);
+
+  // Release the source image once its results are left; result links restore from history or bounce home
+  useEffect(() => {
+    if (appState !== 'app' || !isAuthenticated) return;
+    const onSearch = route.name === 'results' && route.searchId === activeSearch?.id;
+    if (activeSearch && !onSearch) {
+      [activeSearch.sourceImage, ...(activeSearch.references || []).map(reference => reference.image)]
+        .filter(url => url.startsWith('blob:'))
+        .forEach(url => URL.revokeObjectURL(url));
+      setActiveSearch(null);
+    }
+    if (route.name === 'results' && !onSearch) {
+      if (!userData) return; // History is per user; wait for the profile
+      const entry = getSearchEntry(userData.id, route.searchId);
+      if (entry) {
+        setActiveSearch(searchFromHistory(entry));
+        return;
+      }
+      showToast('That search is no longer available. Start a new scan.', 'error');
+      navigate({ name: 'home' }, { replace: true });
+    }
+  }, [appState, isAuthenticated, route, activeSearch, userData]);
+
   // Splash Screen Logic - Show every time
   useEffect(() => {
     if (appState === 'splash') {
@@ -295,10 +406,76 @@ const App: React.FC = () => {
   };
 
   // App Action Handlers
+  // New query photo: pick faces first, then search
   const handleStartProcess = (imageSource: string, file: File | null = null) => {
-    setSourceImage(imageSource);
-    setSourceFile(file);
-    setIsProcessing(true);
+    if (file) {
+      setPendingQuery({ sourceImage: imageSource, file });
+    } else {
+      startSearch({ sourceImage: imageSource, sourceFile: null });
+    }
+  };
+
+  const startSearch = (search: Omit<ActiveSearch, 'id'>) => {
+    const id = Date.now().toString(36);
+    setActiveSearch({ id, ...search });
+    navigate({ name: 'results', searchId: id });
+  };
+
+  // Several photos of one person are searched together; the face picker is skipped
+  const startReferenceSearch = (references: QueryReference[]) => {
+    startSearch({ sourceImage: references[0].image, sourceFile: references[0].file, references });
+  };
+
+  const handleFacesPicked = (faces: FaceBox[]) => {
+    if (!pendingQuery) return;
+    setPendingQuery(null);
+    startSearch({ sourceImage: pendingQuery.sourceImage, sourceFile: pendingQuery.file, faces });
+  };
+
+  const handleFacePickerCancel = () => {
+    if (pendingQuery?.sourceImage.startsWith('blob:')) {
+      URL.revokeObjectURL(pendingQuery.sourceImage);
+    }
+    setPendingQuery(null);
+  };
+
+  const searchFromHistory = (entry: SearchHistoryEntry): ActiveSearch => ({
+    id: entry.id,
+    sourceImage: entry.queryImage,
+    sourceFile: null,
+    references: entry.referenceImages?.map(image => ({ image, file: null })),
+    groups: entry.groups,
+  });
+
+  const groupFaces = (groups: SearchGroup[]): FaceBox[] =>
+    groups.flatMap(group => group.face ? [group.face] : []);
+
+  const handleOpenSearch = (entry: SearchHistoryEntry) => {
+    setActiveSearch(searchFromHistory(entry));
+    navigate({ name: 'results', searchId: entry.id });
+  };
+
+  // Search again with the stored photos and faces; the new scan gets its own history entry
+  const handleRerunSearch = async (queryImage: string, faces: FaceBox[], referenceImages?: string[]) => {
+    try {
+      if (referenceImages && referenceImages.length > 1) {
+        const files = await Promise.all(referenceImages.map((image, index) => dataUrlToFile(image, `reference-${index + 1}.jpg`)));
+        startReferenceSearch(referenceImages.map((image, index) => ({ image, file: files[index] })));
+        return;
+      }
+      const file = await dataUrlToFile(queryImage, 'history-scan.jpg');
+      startSearch({ sourceImage: queryImage, sourceFile: file, faces });
+    } catch (error) {
+      console.error('Failed to re-run search:', error);
+      showToast('Failed to load the photo for this search', 'error');
+    }
+  };
+
+  const handleSearchComplete = (groups: SearchGroup[], grouped: PhotoResult[]) => {
+    if (!activeSearch?.sourceFile || !userData) return;
+    const referenceFiles = (activeSearch.references || []).flatMap(reference => reference.file ? [reference.file] : []);
+    recordSearch(userData.id, activeSearch.id, activeSearch.sourceFile, groups, grouped, referenceFiles)
+      .catch((error) => console.error('Failed to save search to history:', error));
   };
 
   const handleProfileImageScan = async (imageUrl: string) => {
@@ -439,6 +616,26 @@ const App: React.FC = () => {
     input.click();
   };
 
+  const handleUploadReferences = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'image/*';
+    input.multiple = true;
+    input.onchange = (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files || []);
+      if (files.length === 0) return;
+      if (files.length === 1) {
+        handleStartProcess(URL.createObjectURL(files[0]), files[0]);
+        return;
+      }
+      if (files.length > MAX_REFERENCES) {
+        showToast(`Using the first ${MAX_REFERENCES} of ${files.length} photos`, 'info');
+      }
+      startReferenceSearch(files.slice(0, MAX_REFERENCES).map(file => ({ image: URL.createObjectURL(file), file })));
+    };
+    input.click();
+  };
+
   const handleSavePhoto = async (photo: PhotoResult) => {
     if (authToken) {
       try {
@@ -464,6 +661,44 @@ const App: React.FC = () => {
     setAllImages(prev => prev.filter(img => img.id !== id));
   };
 
+  // Backend refused an admin call: drop the admin UI and explain why
+  const handlePermissionDenied = () => {
+    setPermissionDenied(true);
+    setUserIsAdmin(false);
+    setUserRole('user');
+  };
+
+  // Viewer changes replace the entry once a viewer is open, so back closes it in one step
+  const handleGalleryItemChange = (itemId: string | null) => {
+    if (route.name !== 'gallery' || (route.itemId ?? null) === itemId) return;
+    navigate({ name: 'gallery', albumId: route.albumId, itemId: itemId ?? undefined }, { replace: !!route.itemId });
+  };
+
+  const handleGalleryAlbumChange = (albumId: string | null) => {
+    if (route.name !== 'gallery' || (route.albumId ?? null) === albumId) return;
+    navigate({ name: 'gallery', albumId: albumId ?? undefined });
+  };
+
+  const handleAdminImageChange = (imageId: string | null) => {
+    if (route.name !== 'all-images' || (route.imageId ?? null) === imageId) return;
+    navigate({ name: 'all-images', imageId: imageId ?? undefined }, { replace: !!route.imageId });
+  };
+
+  const isAdminTab = isAdminRoute(route);
+  // Admin status is unknown until the profile loads after a reload
+  const adminCheckPending = isAdminTab && !userData;
+
+  /* --- RENDER SHARE LINK --- */
+  // Visitors from a share link skip the splash, walkthrough and sign in
+  if (route.name === 'shared') {
+    return (
+      <>
+        <SharedView shareToken={route.shareToken} isAuthenticated={isAuthenticated} />
+        <ToastContainer toasts={toasts} onRemove={removeToast} />
+      </>
+    );
+  }
+
   /* --- RENDER SPLASH --- */
   if (appState === 'splash') {
     return (
@@ -565,38 +800,43 @@ const App: React.FC = () => {
 
   /* --- RENDER AUTHENTICATION --- */
   if (!isAuthenticated) {
-    if (showSignUp) {
+    if (route.name === 'signup') {
       return (
         <SignUp
           onSignUpSuccess={handleSignUpSuccess}
-          onSwitchToSignIn={() => setShowSignUp(false)}
+          onSwitchToSignIn={() => navigate({ name: 'signin' }, { replace: true })}
         />
       );
     }
     return (
       <SignIn
         onSignInSuccess={handleSignInSuccess}
-        onSwitchToSignUp={() => setShowSignUp(true)}
+        onSwitchToSignUp={() => navigate({ name: 'signup' }, { replace: true })}
+        notice={sessionExpired ? 'Your session has expired. Sign in again to pick up where you left off.' : undefined}
       />
     );
   }
 
   /* --- RENDER MAIN APP --- */
   // Processing "sub-flow"
-  if (isProcessing) {
+  if (route.name === 'results') {
+    if (!activeSearch || activeSearch.id !== route.searchId) return null;
     return (
       <>
         <Results 
-          sourceImage={sourceImage}
-          sourceFile={sourceFile}
-          onBack={() => {
-            setIsProcessing(false);
-            setSourceFile(null);
-            if (sourceImage && sourceImage.startsWith('blob:')) {
-              URL.revokeObjectURL(sourceImage);
-            }
-            setSourceImage(null);
-          }}
+          key={activeSearch.id}
+          sourceImage={activeSearch.sourceImage}
+          sourceFile={activeSearch.sourceFile}
+          onBack={() => goBack({ name: 'home' })}
+          faces={activeSearch.faces}
+          initialGroups={activeSearch.groups}
+          onSearchComplete={handleSearchComplete}
+          references={activeSearch.references}
+          onRerun={activeSearch.groups ? () => handleRerunSearch(
+            activeSearch.sourceImage,
+            groupFaces(activeSearch.groups!),
+            activeSearch.references?.map(reference => reference.image)
+          ) : undefined}
           onSave={handleSavePhoto}
           token={authToken}
           savedImageIds={savedImageIds}
@@ -609,13 +849,47 @@ const App: React.FC = () => {
   return (
     <div className={`min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-white text-white dark:text-white light:text-gray-900 pb-20 transition-colors duration-500`}>     
       <AnimatePresence mode='wait'>
+
+        {/* PERMISSION DENIED */}
+        {(permissionDenied || (isAdminTab && !adminCheckPending && !userIsAdmin)) && (
+          <motion.div key="forbidden" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
+            <PermissionDenied
+              onBack={() => {
+                setPermissionDenied(false);
+                navigate({ name: 'home' }, { replace: true });
+              }}
+            />
+          </motion.div>
+        )}
         
+        {/* PROFILE LOAD FAILED: admin access can't be confirmed yet */}
+        {!permissionDenied && adminCheckPending && profileError && (
+          <motion.div key="profile-error" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
+            <div className="pt-20 pb-32 px-4 min-h-screen flex items-center justify-center">
+              <GlassCard className="w-full max-w-md p-8 text-center">
+                <h2 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900 mb-2 transition-colors duration-300">Couldn't load your profile</h2>
+                <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 text-sm mb-6 transition-colors duration-300">{profileError}</p>
+                <GradientButton fullWidth onClick={retryProfile}>
+                  Try Again
+                </GradientButton>
+                <button
+                  onClick={() => navigate({ name: 'home' }, { replace: true })}
+                  className="mt-3 text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
+                >
+                  Back to Home
+                </button>
+              </GlassCard>
+            </div>
+          </motion.div>
+        )}
+
         {/* USER ROUTES */}
-        {userRole === 'user' && activeTab === 'home' && (
+        {!permissionDenied && userRole === 'user' && activeTab === 'home' && (
           <motion.div key="home" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
             <Home 
               onCameraOpen={handleCameraOpen} 
               onUpload={handleUpload} 
+              onUploadReferences={handleUploadReferences}
               onProfile={() => setActiveTab('profile')}
               onUseProfileImage={handleProfileImageScan}
               hasProfileImage={!!userProfileImage}
@@ -629,31 +903,69 @@ const App: React.FC = () => {
           </motion.div>
         )}
 
+        {!permissionDenied && activeTab === 'history' && (
+          <motion.div key="history" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
+            <History
+              userId={userData?.id}
+              onOpen={handleOpenSearch}
+              onRerun={(entry) => handleRerunSearch(entry.queryImage, groupFaces(entry.groups), entry.referenceImages)}
+            />
+          </motion.div>
+        )}
+
         {/* ADMIN ROUTES */}
-        {userRole === 'admin' && activeTab === 'dashboard' && (
+        {!permissionDenied && userIsAdmin && userRole === 'admin' && activeTab === 'dashboard' && (
             <motion.div key="admin-dash" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
                 <AdminDashboard 
+                  token={authToken}
+                  onPermissionDenied={handlePermissionDenied}
                   onUpload={handleUpload} 
                   onUploadComplete={() => {
                     // Refresh all images when upload completes
                     setActiveTab('all-images');
                   }}
+                  onViewUploadJobs={() => setActiveTab('upload-jobs')}
                 />
             </motion.div>
         )}
-        {userRole === 'admin' && activeTab === 'all-images' && (
+        {!permissionDenied && userIsAdmin && userRole === 'admin' && activeTab === 'upload-jobs' && (
+            <motion.div key="admin-uploads" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
+                <UploadJobs />
+            </motion.div>
+        )}
+        {!permissionDenied && userIsAdmin && userRole === 'admin' && activeTab === 'people' && (
+            <motion.div key="admin-people" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
+                <People token={authToken} onPermissionDenied={handlePermissionDenied} />
+            </motion.div>
+        )}
+        {!permissionDenied && userIsAdmin && userRole === 'admin' && activeTab === 'all-images' && (
             <motion.div key="admin-all" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
-                <AllImages images={allImages} onUpdate={handleAdminUpdate} onDelete={handleAdminDelete} />
+                <AllImages
+                  token={authToken}
+                  images={allImages}
+                  onUpdate={handleAdminUpdate}
+                  onDelete={handleAdminDelete}
+                  onPermissionDenied={handlePermissionDenied}
+                  imageId={route.name === 'all-images' ? route.imageId : null}
+                  onImageChange={handleAdminImageChange}
+                />
             </motion.div>
         )}
 
         {/* SHARED ROUTES */}
-        {activeTab === 'gallery' && (
+        {!permissionDenied && activeTab === 'gallery' && (
           <motion.div key="gallery" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
-            <Gallery token={authToken} onDelete={handleDeletePhoto} />
+            <Gallery
+              token={authToken}
+              onDelete={handleDeletePhoto}
+              itemId={route.name === 'gallery' ? route.itemId : null}
+              onItemChange={handleGalleryItemChange}
+              albumId={route.name === 'gallery' ? route.albumId : null}
+              onAlbumChange={handleGalleryAlbumChange}
+            />
           </motion.div>
         )}
-        {activeTab === 'profile' && (
+        {!permissionDenied && activeTab === 'profile' && (
           <motion.div key="profile" initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}}>
             <Profile 
               role={userRole} 
@@ -668,7 +980,20 @@ const App: React.FC = () => {
         )}
       </AnimatePresence>
 
-      <BottomNav activeTab={activeTab} onTabChange={handleTabChange} role={userRole} />
+      <BottomNav activeTab={activeTab} onTabChange={handleTabChange} role={userIsAdmin ? userRole : 'user'} />
+
+      {/* Face picker for new query photos */}
+      <AnimatePresence>
+        {pendingQuery && (
+          <FacePicker
+            imageSrc={pendingQuery.sourceImage}
+            file={pendingQuery.file}
+            token={authToken}
+            onConfirm={handleFacesPicked}
+            onCancel={handleFacePickerCancel}
+          />
+        )}
+      </AnimatePresence>
       <ToastContainer toasts={toasts} onRemove={removeToast} />
     </div>
   );
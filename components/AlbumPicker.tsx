@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, FolderPlus, Plus, Loader2 } from 'lucide-react';
+import { Album, PhotoResult } from '../types';
+import { GradientButton } from './UIComponents';
+import { showToast } from './Toast';
+import { getAlbums, createAlbum, addToAlbum, removeFromAlbum } from '../services/apiService';
+
+interface AlbumPickerProps {
+  token: string;
+  items: PhotoResult[];
+  // Runs before anything is added, e.g. to save search results to the gallery first
+  onBeforeAdd?: () => Promise<void>;
+  onChange?: (albums: Album[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Choose which albums some gallery items belong to. Items can be in any number of albums.
+ */
+const AlbumPicker: React.FC<AlbumPickerProps> = ({ token, items, onBeforeAdd, onChange, onClose }) => {
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Albums already holding every item, and the ones ticked now
+  const [initial, setInitial] = useState<Set<string>>(new Set());
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const itemIds = items.map(item => item.id);
+  const containsAll = (album: Album) => itemIds.every(id => album.item_ids.includes(id));
+
+  useEffect(() => {
+    getAlbums(token)
+      .then(list => {
+        const members = new Set(list.filter(containsAll).map(album => album.id));
+        setAlbums(list);
+        setInitial(members);
+        setChecked(new Set(members));
+      })
+      .catch((error: any) => showToast(error.message || 'Failed to load albums', 'error'))
+      .finally(() => setLoading(false));
+    // Once per opening: reloading on a refreshed token would reset the ticks
+  }, []);
+
+  const toggle = (albumId: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(albumId)) {
+        next.delete(albumId);
+      } else {
+        next.add(albumId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setSaving(true);
+    try {
+      await onBeforeAdd?.();
+      const album = await createAlbum(token, name, itemIds);
+      const next = [...albums, album];
+      setAlbums(next);
+      // Already holds the items, so it needs no further change on save
+      setInitial(prev => new Set([...prev, album.id]));
+      setChecked(prev => new Set([...prev, album.id]));
+      setNewName('');
+      onChange?.(next);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create album', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const added = albums.filter(album => checked.has(album.id) && !initial.has(album.id));
+    const removed = albums.filter(album => !checked.has(album.id) && initial.has(album.id));
+    if (added.length === 0 && removed.length === 0) {
+      onClose();
+      return;
+    }
+    setSaving(true);
+    try {
+      if (added.length > 0) await onBeforeAdd?.();
+      const updated = new Map<string, Album>();
+      for (const album of added) {
+        updated.set(album.id, await addToAlbum(token, album.id, itemIds));
+      }
+      for (const album of removed) {
+        updated.set(album.id, await removeFromAlbum(token, album.id, itemIds));
+      }
+      onChange?.(albums.map(album => updated.get(album.id) || album));
+      showToast(added.length > 0 && removed.length === 0
+        ? `Added to ${added.length === 1 ? added[0].name : `${added.length} albums`}`
+        : 'Albums updated', 'success');
+      onClose();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update albums', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const changed = albums.some(album => checked.has(album.id) !== initial.has(album.id));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-panel border border-white/20 p-6 rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Add to Album</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {items.length === 1 ? 'Pick every album this item belongs in' : `Pick albums for these ${items.length} items`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 dark:text-white/60 hover:text-gray-900 dark:hover:text-white transition-colors duration-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 size={24} className="animate-spin text-brand-primary" />
+            </div>
+          ) : albums.length === 0 ? (
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-6">No albums yet. Create one below.</p>
+          ) : (
+            albums.map(album => {
+              const isChecked = checked.has(album.id);
+              return (
+                <button
+                  key={album.id}
+                  onClick={() => !saving && toggle(album.id)}
+                  className={`w-full flex items-center justify-between p-3 rounded-xl border text-left transition-colors duration-300 ${isChecked
+                    ? 'border-brand-primary/60 bg-brand-primary/10'
+                    : 'border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-white/5'
+                    }`}
+                >
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">{album.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {album.item_ids.length} {album.item_ids.length === 1 ? 'item' : 'items'}
+                    </p>
+                  </div>
+                  <div className={`w-5 h-5 rounded-md border flex items-center justify-center ${isChecked ? 'bg-brand-primary border-brand-primary' : 'border-gray-300 dark:border-white/30'}`}>
+                    {isChecked && <Check size={12} className="text-white" />}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="New album name"
+            disabled={saving}
+            className="flex-1 px-4 py-2.5 rounded-xl bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:border-brand-primary/60 transition-colors duration-300"
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!newName.trim() || saving}
+            className="flex items-center gap-1 px-4 rounded-xl bg-brand-primary/10 dark:bg-brand-primary/20 border border-brand-primary/30 text-sm font-semibold text-brand-primary disabled:opacity-40 transition-colors duration-300"
+          >
+            <Plus size={16} /> Create
+          </button>
+        </div>
+
+        <GradientButton
+          fullWidth
+          loading={saving}
+          onClick={handleSave}
+          className={!changed ? 'opacity-50' : ''}
+        >
+          <FolderPlus size={18} />
+          {changed ? 'Save' : 'Done'}
+        </GradientButton>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default AlbumPicker;
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Home, Image as ImageIcon, User, LayoutDashboard, Database } from 'lucide-react';
+import { Home, History, Image as ImageIcon, User, LayoutDashboard, Database, Users } from 'lucide-react';
 import { Tab, UserRole } from '../types';
 import { motion } from 'framer-motion';
 
@@ -13,6 +13,7 @@ const BottomNav: React.FC<BottomNavProps> = ({ activeTab, onTabChange, role }) =
   
   const userItems = [
     { id: 'home', icon: Home, label: 'Home' },
+    { id: 'history', icon: History, label: 'History' },
     { id: 'gallery', icon: ImageIcon, label: 'Gallery' },
     { id: 'profile', icon: User, label: 'Profile' },
   ];
@@ -20,6 +21,7 @@ const BottomNav: React.FC<BottomNavProps> = ({ activeTab, onTabChange, role }) =
   const adminItems = [
     { id: 'dashboard', icon: LayoutDashboard, label: 'Dashboard' },
     { id: 'all-images', icon: Database, label: 'All Data' },
+    { id: 'people', icon: Users, label: 'People' },
     { id: 'gallery', icon: ImageIcon, label: 'My Gallery' },
     { id: 'profile', icon: User, label: 'Profile' },
   ];
@@ -0,0 +1,150 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Check, Scissors } from 'lucide-react';
+import { PhotoResult } from '../types';
+import { GradientButton } from './UIComponents';
+import { showToast } from './Toast';
+import { exportClip } from '../services/videoClips';
+import { mergeTimestamps, formatDuration } from '../utils';
+
+interface ClipExportProps {
+  token: string;
+  video: PhotoResult;
+  onSaved: (clips: PhotoResult[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * Pick appearances of a matched video and save each as its own clip
+ */
+const ClipExport: React.FC<ClipExportProps> = ({ token, video, onSaved, onClose }) => {
+  const segments = useMemo(() => mergeTimestamps(video.timestamps || [video.timestamp || 0]), [video]);
+  const [selected, setSelected] = useState<Set<number>>(new Set([0]));
+  // Index into the selected segments being exported, and that clip's progress
+  const [exporting, setExporting] = useState<{ index: number; total: number; progress: number } | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const chosen = segments.filter((_, index) => selected.has(index));
+    if (chosen.length === 0) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const saved: PhotoResult[] = [];
+    try {
+      for (let i = 0; i < chosen.length; i++) {
+        setExporting({ index: i, total: chosen.length, progress: 0 });
+        saved.push(await exportClip(token, video, chosen[i], (progress) => {
+          setExporting({ index: i, total: chosen.length, progress });
+        }, controller.signal));
+      }
+      showToast(saved.length === 1 ? 'Clip saved to gallery' : `${saved.length} clips saved to gallery`, 'success');
+      onSaved(saved);
+    } catch (error: any) {
+      if (error.name === 'AbortError') return;
+      showToast(error.message || 'Failed to save clip', 'error');
+      // Keep whatever finished before the failure
+      if (saved.length > 0) onSaved(saved);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4"
+      onClick={handleClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-panel border border-white/20 p-6 rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Save Clips</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Each appearance becomes its own gallery item</p>
+          </div>
+          <button onClick={handleClose} className="text-gray-500 dark:text-white/60 hover:text-gray-900 dark:hover:text-white transition-colors duration-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {segments.map((segment, index) => {
+            const isSelected = selected.has(index);
+            return (
+              <button
+                key={segment.start}
+                onClick={() => !exporting && toggle(index)}
+                className={`w-full flex items-center justify-between p-3 rounded-xl border text-left transition-colors duration-300 ${isSelected
+                  ? 'border-brand-primary/60 bg-brand-primary/10'
+                  : 'border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-white/5'
+                  }`}
+              >
+                <div>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white font-mono">
+                    {formatDuration(segment.start)}–{formatDuration(segment.end)}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {Math.round(segment.end - segment.start)}s · {segment.timestamps.length} matched {segment.timestamps.length === 1 ? 'frame' : 'frames'}
+                  </p>
+                </div>
+                <div className={`w-5 h-5 rounded-md border flex items-center justify-center ${isSelected ? 'bg-brand-primary border-brand-primary' : 'border-gray-300 dark:border-white/30'}`}>
+                  {isSelected && <Check size={12} className="text-white" />}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        {exporting && (
+          <div className="mb-4 space-y-1">
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>Saving clip {exporting.index + 1} of {exporting.total}</span>
+              <span>{Math.round(exporting.progress * 100)}%</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+              <div className="h-full bg-brand-primary transition-all duration-300" style={{ width: `${exporting.progress * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <GradientButton
+          fullWidth
+          loading={!!exporting}
+          onClick={handleExport}
+          className={selected.size === 0 ? 'opacity-50 pointer-events-none' : ''}
+        >
+          <Scissors size={18} />
+          {selected.size === 1 ? 'Save 1 clip' : `Save ${selected.size} clips`}
+        </GradientButton>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ClipExport;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { DetectedFace } from '../types';
+
+interface FaceBoxesProps {
+  faces: DetectedFace[];
+  // Face that matched the search, drawn highlighted
+  matchedFaceId?: string;
+  // Face picked in an editor, drawn highlighted
+  selectedFaceId?: string | null;
+  onSelect?: (face: DetectedFace) => void;
+  showLabels?: boolean;
+}
+
+/**
+ * Outlines detected faces over an image. Place it inside a relatively positioned
+ * wrapper that is exactly the size of the rendered image.
+ */
+const FaceBoxes: React.FC<FaceBoxesProps> = ({ faces, matchedFaceId, selectedFaceId, onSelect, showLabels = true }) => (
+  <div className="absolute inset-0 pointer-events-none">
+    {faces.map((face) => {
+      const isMatch = face.id === matchedFaceId;
+      const isSelected = face.id === selectedFaceId;
+      return (
+        <div
+          key={face.id}
+          onClick={onSelect ? (e) => { e.stopPropagation(); onSelect(face); } : undefined}
+          className={`absolute rounded-md border-2 transition-all duration-200 ${onSelect ? 'pointer-events-auto cursor-pointer' : ''} ${isSelected
+            ? 'border-purple-400 bg-purple-500/10 shadow-[0_0_15px_rgba(168,85,247,0.6)]'
+            : isMatch
+              ? 'border-brand-secondary bg-brand-secondary/10 shadow-[0_0_15px_rgba(50,210,240,0.6)]'
+              : 'border-white/50 hover:border-white'
+            }`}
+          style={{
+            left: `${face.box.x * 100}%`,
+            top: `${face.box.y * 100}%`,
+            width: `${face.box.width * 100}%`,
+            height: `${face.box.height * 100}%`,
+          }}
+        >
+          {showLabels && (face.person_name || isMatch) && (
+            <span className={`absolute top-full left-1/2 -translate-x-1/2 mt-1 px-1.5 py-0.5 rounded text-[10px] font-semibold whitespace-nowrap ${isMatch && !isSelected ? 'bg-brand-secondary text-black' : 'bg-black/70 text-white'}`}>
+              {face.person_name || 'Match'}
+            </span>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
+
+export default FaceBoxes;
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Users, Scissors, Merge, X, Tag, RefreshCw } from 'lucide-react';
+import { PhotoResult, Person } from '../types';
+import { GlassCard } from './UIComponents';
+import { Shimmer } from './Shimmer';
+import { showToast } from './Toast';
+import {
+  FaceCluster,
+  getFaceClusters,
+  splitFaceCluster,
+  rejectClusterImage,
+  batchUpdateImages,
+  createPerson,
+  getImageUrl,
+  isPermissionDenied,
+} from '../services/apiService';
+import { findPersonByName } from '../utils';
+
+interface FaceClustersProps {
+  token: string | null;
+  // Known people, offered when naming a cluster
+  people: Person[];
+  onTagged: (imageIds: string[], person: Person) => void;
+  onOpenImage: (image: PhotoResult) => void;
+  onPermissionDenied?: () => void;
+}
+
+const STRICTNESS_OPTIONS = [
+  { label: 'Loose', threshold: 0.7 },
+  { label: 'Normal', threshold: 0.75 },
+  { label: 'Strict', threshold: 0.85 },
+];
+
+const withImageUrls = (cluster: FaceCluster): FaceCluster => ({
+  ...cluster,
+  images: cluster.images.map(img => ({ ...img, imageUrl: getImageUrl(img.imageUrl) })),
+});
+
+/**
+ * Suggested people among untagged images. Naming a cluster tags every image in it;
+ * splits, merges and rejected outliers only reshape the suggestions until then.
+ */
+const FaceClusters: React.FC<FaceClustersProps> = ({ token, people, onTagged, onOpenImage, onPermissionDenied }) => {
+  const [clusters, setClusters] = useState<FaceCluster[] | null>(null);
+  const [unclustered, setUnclustered] = useState(0);
+  const [threshold, setThreshold] = useState(STRICTNESS_OPTIONS[1].threshold);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [busyIds, setBusyIds] = useState<Set<string>>(new Set());
+  // Cluster picked to merge; the next cluster clicked absorbs it
+  const [mergeSource, setMergeSource] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [threshold]);
+
+  const reportError = (error: any, fallback: string) => {
+    if (isPermissionDenied(error) && onPermissionDenied) {
+      onPermissionDenied();
+      return;
+    }
+    showToast(error.message || fallback, 'error');
+  };
+
+  const fetchClusters = async () => {
+    setClusters(null);
+    setMergeSource(null);
+    try {
+      const data = await getFaceClusters(token, threshold);
+      setClusters(data.clusters.map(withImageUrls));
+      setUnclustered(data.unclustered);
+    } catch (error: any) {
+      setClusters([]);
+      reportError(error, 'Failed to load suggested people');
+    }
+  };
+
+  const setBusy = (id: string, busy: boolean) => {
+    setBusyIds(prev => {
+      const next = new Set(prev);
+      if (busy) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const replaceCluster = (id: string, replacements: FaceCluster[]) => {
+    setClusters(prev => (prev || []).flatMap(cluster => (cluster.id === id ? replacements : [cluster])));
+  };
+
+  const handleName = async (cluster: FaceCluster) => {
+    const name = (names[cluster.id] || '').trim();
+    if (!name) {
+      showToast('Enter a name for this person', 'info');
+      return;
+    }
+    setBusy(cluster.id, true);
+    try {
+      // Typing an alias tags the person it belongs to; an unknown name is a new person
+      const person = findPersonByName(people, name) || await createPerson(token, { name });
+      const ids = cluster.images.map(img => img.id);
+      const result = await batchUpdateImages(token, ids, { person_id: person.id });
+      replaceCluster(cluster.id, []);
+      onTagged(result.ids, person);
+      showToast(`Tagged ${result.ids.length} ${result.ids.length === 1 ? 'image' : 'images'} as ${person.name}`, 'success');
+    } catch (error: any) {
+      reportError(error, 'Failed to tag cluster');
+    } finally {
+      setBusy(cluster.id, false);
+    }
+  };
+
+  const handleSplit = async (cluster: FaceCluster) => {
+    setBusy(cluster.id, true);
+    try {
+      const halves = await splitFaceCluster(token, cluster.images.map(img => img.id));
+      replaceCluster(cluster.id, halves.map(withImageUrls));
+    } catch (error: any) {
+      reportError(error, 'Failed to split cluster');
+    } finally {
+      setBusy(cluster.id, false);
+    }
+  };
+
+  const handleMerge = (target: FaceCluster) => {
+    const source = clusters?.find(cluster => cluster.id === mergeSource);
+    setMergeSource(null);
+    if (!source || source.id === target.id) return;
+    const images = [...target.images, ...source.images];
+    // Weighted by member count; close enough until the server re-scores on the next load
+    const similarity = (target.similarity * target.images.length + source.similarity * source.images.length) / images.length;
+    setClusters(prev => (prev || [])
+      .filter(cluster => cluster.id !== source.id)
+      .map(cluster => (cluster.id === target.id ? { ...cluster, images, similarity } : cluster)));
+  };
+
+  const handleReject = async (cluster: FaceCluster, image: PhotoResult) => {
+    const rest = cluster.images.filter(img => img.id !== image.id);
+    try {
+      await rejectClusterImage(token, image.id, rest.map(img => img.id));
+      // A cluster of one is no longer a suggestion
+      replaceCluster(cluster.id, rest.length > 1 ? [{ ...cluster, images: rest }] : []);
+      setUnclustered(prev => prev + (rest.length > 1 ? 1 : 2));
+    } catch (error: any) {
+      reportError(error, 'Failed to remove image from cluster');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 mr-auto transition-colors duration-300">
+          {clusters
+            ? `${clusters.length} suggested ${clusters.length === 1 ? 'person' : 'people'} · ${unclustered} unmatched`
+            : 'Grouping faces...'}
+        </p>
+        {STRICTNESS_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            onClick={() => setThreshold(option.threshold)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-semibold transition-colors duration-300 ${
+              threshold === option.threshold
+                ? 'bg-purple-500 text-white'
+                : 'bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 text-gray-300 dark:text-gray-300 light:text-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <button
+          onClick={fetchClusters}
+          className="p-1.5 rounded-lg text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
+          title="Regroup"
+        >
+          <RefreshCw size={16} />
+        </button>
+      </div>
+
+      {mergeSource && (
+        <div className="flex items-center gap-3 mb-4 p-3 rounded-xl bg-purple-500/10 dark:bg-purple-500/10 light:bg-purple-50 border border-purple-500/30 dark:border-purple-500/30 light:border-purple-300 text-sm text-purple-200 dark:text-purple-200 light:text-purple-800 transition-colors duration-300">
+          <Merge size={16} className="flex-shrink-0" />
+          <span className="flex-1">Pick the cluster to merge into</span>
+          <button onClick={() => setMergeSource(null)} className="text-xs font-semibold hover:underline">Cancel</button>
+        </div>
+      )}
+
+      {!clusters ? (
+        <div className="space-y-4">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Shimmer key={i} height="10rem" rounded="lg" />
+          ))}
+        </div>
+      ) : clusters.length === 0 ? (
+        <div className="text-center py-12">
+          <Users size={32} className="mx-auto mb-3 text-gray-500" />
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">No untagged faces to group</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence initial={false}>
+            {clusters.map((cluster) => {
+              const busy = busyIds.has(cluster.id);
+              const isMergeTarget = !!mergeSource && mergeSource !== cluster.id;
+              return (
+                <motion.div
+                  key={cluster.id}
+                  layout
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                >
+                  <GlassCard
+                    className={`p-4 transition-colors duration-300 ${busy ? 'opacity-60 pointer-events-none' : ''} ${
+                      mergeSource === cluster.id ? 'border-purple-500' : isMergeTarget ? 'border-purple-500/40 cursor-pointer hover:border-purple-500' : ''
+                    }`}
+                    onClick={isMergeTarget ? () => handleMerge(cluster) : undefined}
+                  >
+                    <div className="flex items-center justify-between mb-3">
+                      <span className="text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                        {cluster.images.length} images
+                        <span className="ml-2 text-xs font-normal text-gray-400 dark:text-gray-400 light:text-gray-600">
+                          {Math.round(cluster.similarity * 100)}% alike
+                        </span>
+                      </span>
+                      {!mergeSource && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => handleSplit(cluster)}
+                            className="p-1.5 rounded-lg text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 hover:bg-white/10 transition-colors duration-300"
+                            title="Split in two"
+                          >
+                            <Scissors size={16} />
+                          </button>
+                          {clusters.length > 1 && (
+                            <button
+                              onClick={() => setMergeSource(cluster.id)}
+                              className="p-1.5 rounded-lg text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 hover:bg-white/10 transition-colors duration-300"
+                              title="Merge with another cluster"
+                            >
+                              <Merge size={16} />
+                            </button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+
+                    <div className="grid grid-cols-4 md:grid-cols-6 gap-2 mb-3">
+                      {cluster.images.map((img) => (
+                        <div key={img.id} className="relative aspect-square rounded-lg overflow-hidden group">
+                          <img
+                            src={img.imageUrl}
+                            alt={img.id}
+                            className="w-full h-full object-cover cursor-pointer"
+                            onClick={(e) => {
+                              if (mergeSource) return;
+                              e.stopPropagation();
+                              onOpenImage(img);
+                            }}
+                          />
+                          {!mergeSource && (
+                            <button
+                              onClick={() => handleReject(cluster, img)}
+                              className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                              title="Not this person"
+                            >
+                              <X size={12} />
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+
+                    {!mergeSource && (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          list={`cluster-names-${cluster.id}`}
+                          value={names[cluster.id] || ''}
+                          onChange={(e) => setNames(prev => ({ ...prev, [cluster.id]: e.target.value }))}
+                          onKeyDown={(e) => e.key === 'Enter' && handleName(cluster)}
+                          placeholder="Who is this?"
+                          className="flex-1 min-w-0 bg-white/10 dark:bg-white/10 light:bg-white border border-purple-500/50 rounded-lg px-3 py-2 text-sm text-white dark:text-white light:text-gray-900 outline-none transition-colors duration-300"
+                        />
+                        <datalist id={`cluster-names-${cluster.id}`}>
+                          {people.map(person => <option key={person.id} value={person.name} />)}
+                        </datalist>
+                        <button
+                          onClick={() => handleName(cluster)}
+                          className="flex items-center gap-1 px-3 py-2 rounded-lg text-xs font-semibold bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300"
+                        >
+                          <Tag size={12} /> Tag all
+                        </button>
+                      </div>
+                    )}
+                  </GlassCard>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FaceClusters;
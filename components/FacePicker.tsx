@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, ScanFace, Loader2 } from 'lucide-react';
+import { FaceBox } from '../types';
+import { GradientButton } from './UIComponents';
+import { findFaces } from '../services/faceDetection';
+
+interface FacePickerProps {
+  imageSrc: string;
+  file: File;
+  token?: string | null;
+  // Empty list means "search the whole photo"
+  onConfirm: (faces: FaceBox[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Detects the faces in a query photo and lets the user choose which ones to search for.
+ * Photos with zero or one face skip straight to the search.
+ */
+const FacePicker: React.FC<FacePickerProps> = ({ imageSrc, file, token, onConfirm, onCancel }) => {
+  const [faces, setFaces] = useState<FaceBox[] | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set([0]));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    findFaces(file, token, controller.signal)
+      .then((found) => {
+        if (controller.signal.aborted) return;
+        if (found.length <= 1) {
+          onConfirm([]);
+          return;
+        }
+        setFaces(found);
+      })
+      .catch((error) => {
+        if (error.name === 'AbortError') return;
+        onConfirm([]);
+      });
+    return () => controller.abort();
+  }, [file]);
+
+  const toggleFace = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = faces !== null && selected.size === faces.length;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-black/95 backdrop-blur-xl flex flex-col"
+    >
+      <div className="flex justify-between items-center p-6">
+        <div>
+          <h2 className="text-xl font-display font-bold text-white">Choose faces</h2>
+          <p className="text-sm text-gray-400">
+            {faces ? `${faces.length} faces found. Tap the ones to search for.` : 'Looking for faces...'}
+          </p>
+        </div>
+        <button
+          onClick={onCancel}
+          className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors duration-300"
+        >
+          <X className="text-white" size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex items-center justify-center p-4 overflow-hidden">
+        <div className="relative inline-block max-h-full">
+          <img src={imageSrc} alt="Query" className="max-h-[60vh] max-w-full object-contain rounded-lg" />
+
+          {!faces && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/40 rounded-lg">
+              <Loader2 size={32} className="text-brand-secondary animate-spin" />
+            </div>
+          )}
+
+          {faces?.map((face, index) => {
+            const isSelected = selected.has(index);
+            return (
+              <button
+                key={index}
+                onClick={() => toggleFace(index)}
+                className={`absolute rounded-lg border-2 transition-all duration-200 ${isSelected
+                  ? 'border-brand-secondary bg-brand-secondary/10 shadow-[0_0_15px_rgba(50,210,240,0.6)]'
+                  : 'border-white/60 hover:border-white'
+                  }`}
+                style={{
+                  left: `${face.x * 100}%`,
+                  top: `${face.y * 100}%`,
+                  width: `${face.width * 100}%`,
+                  height: `${face.height * 100}%`,
+                }}
+              >
+                <span className={`absolute -top-3 -left-3 w-6 h-6 rounded-full text-xs font-bold flex items-center justify-center ${isSelected ? 'bg-brand-secondary text-black' : 'bg-black/70 text-white border border-white/40'}`}>
+                  {index + 1}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {faces && (
+        <div className="p-6 pb-10 space-y-3">
+          <div className="flex justify-between text-sm">
+            <button
+              onClick={() => setSelected(allSelected ? new Set() : new Set(faces.map((_, i) => i)))}
+              className="text-brand-secondary font-semibold"
+            >
+              {allSelected ? 'Clear selection' : 'Select all'}
+            </button>
+            <button onClick={() => onConfirm([])} className="text-gray-400 hover:text-white transition-colors duration-300">
+              Search whole photo
+            </button>
+          </div>
+          <GradientButton
+            fullWidth
+            onClick={() => {
+              if (selected.size === 0) return;
+              onConfirm(faces.filter((_, i) => selected.has(i)));
+            }}
+            className={selected.size === 0 ? 'opacity-50 pointer-events-none' : ''}
+          >
+            <ScanFace size={20} />
+            {selected.size === 1 ? 'Search 1 face' : `Search ${selected.size} faces`}
+          </GradientButton>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default FacePicker;
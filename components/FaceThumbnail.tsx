@@ -0,0 +1,30 @@
+import React from 'react';
+import { FaceBox } from '../types';
+
+interface FaceThumbnailProps {
+  src: string;
+  face: FaceBox;
+  className?: string;
+}
+
+/**
+ * Shows just the face region of an image by scaling and positioning it as a background
+ */
+const FaceThumbnail: React.FC<FaceThumbnailProps> = ({ src, face, className = '' }) => {
+  const width = Math.max(face.width, 0.01);
+  const height = Math.max(face.height, 0.01);
+  const position = (offset: number, size: number) => (size >= 1 ? 0 : (offset / (1 - size)) * 100);
+
+  return (
+    <div
+      className={`bg-no-repeat bg-black ${className}`}
+      style={{
+        backgroundImage: `url("${src}")`,
+        backgroundSize: `${100 / width}% ${100 / height}%`,
+        backgroundPosition: `${position(face.x, width)}% ${position(face.y, height)}%`,
+      }}
+    />
+  );
+};
+
+export default FaceThumbnail;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ShieldOff } from 'lucide-react';
+import { GlassCard, GradientButton } from './UIComponents';
+
+interface PermissionDeniedProps {
+  message?: string;
+  onBack: () => void;
+}
+
+const PermissionDenied: React.FC<PermissionDeniedProps> = ({ message, onBack }) => {
+  return (
+    <div className="pt-20 pb-32 px-4 min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-gray-50 flex items-center justify-center transition-colors duration-300">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="w-full max-w-md"
+      >
+        <GlassCard className="p-8 text-center border-red-500/30 dark:border-red-500/30 light:border-red-300/50">
+          <div className="flex justify-center mb-4">
+            <div className="p-4 bg-red-500/20 dark:bg-red-500/20 light:bg-red-100 rounded-full transition-colors duration-300">
+              <ShieldOff size={32} className="text-red-400 dark:text-red-400 light:text-red-600 transition-colors duration-300" />
+            </div>
+          </div>
+          <h2 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900 mb-2 transition-colors duration-300">Permission Denied</h2>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 text-sm mb-6 transition-colors duration-300">
+            {message || 'Your account does not have access to the admin console.'}
+          </p>
+          <GradientButton fullWidth onClick={onBack}>
+            Back to Home
+          </GradientButton>
+        </GlassCard>
+      </motion.div>
+    </div>
+  );
+};
+
+export default PermissionDenied;
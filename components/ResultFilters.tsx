@@ -0,0 +1,319 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, MapPin, Navigation, Loader2 } from 'lucide-react';
+import { PhotoResult } from '../types';
+import { GradientButton } from './UIComponents';
+import { distanceKm, parseDateTime } from '../utils';
+
+export type ResultSort = 'similarity' | 'date' | 'file_size';
+
+export interface ResultFilterState {
+  minSimilarity: number; // Percent, 0-100
+  dateFrom: string; // yyyy-mm-dd, inclusive
+  dateTo: string;
+  location: { latitude: number; longitude: number; radiusKm: number; label: string } | null;
+  tags: string[]; // Empty means any tag
+  sortBy: ResultSort;
+}
+
+export const DEFAULT_RESULT_FILTERS: ResultFilterState = {
+  minSimilarity: 0,
+  dateFrom: '',
+  dateTo: '',
+  location: null,
+  tags: [],
+  sortBy: 'similarity',
+};
+
+const RADIUS_OPTIONS = [1, 10, 50, 200];
+
+/**
+ * Number of filters that differ from the defaults (sort order not counted)
+ */
+export const countActiveFilters = (filters: ResultFilterState): number =>
+  (filters.minSimilarity > 0 ? 1 : 0) +
+  (filters.dateFrom || filters.dateTo ? 1 : 0) +
+  (filters.location ? 1 : 0) +
+  (filters.tags.length > 0 ? 1 : 0);
+
+/**
+ * Apply filters and sort order. Matches without a date or location are dropped while that filter is on.
+ */
+export const applyResultFilters = (items: PhotoResult[], filters: ResultFilterState): PhotoResult[] => {
+  const from = filters.dateFrom ? parseDateTime(`${filters.dateFrom}T00:00:00`) : null;
+  const to = filters.dateTo ? parseDateTime(`${filters.dateTo}T23:59:59`) : null;
+
+  const filtered = items.filter((item) => {
+    const similarity = item.similarity !== undefined ? item.similarity * 100 : item.confidence || 0;
+    if (similarity < filters.minSimilarity) return false;
+
+    if (from !== null || to !== null) {
+      const time = parseDateTime(item.datetime);
+      if (time === null) return false;
+      if (from !== null && time < from) return false;
+      if (to !== null && time > to) return false;
+    }
+
+    if (filters.location) {
+      if (item.latitude == null || item.longitude == null) return false;
+      const distance = distanceKm(filters.location.latitude, filters.location.longitude, item.latitude, item.longitude);
+      if (distance > filters.location.radiusKm) return false;
+    }
+
+    if (filters.tags.length > 0 && (!item.tagged_by || !filters.tags.includes(item.tagged_by))) return false;
+
+    return true;
+  });
+
+  const sorted = [...filtered];
+  if (filters.sortBy === 'date') {
+    // Newest first; undated matches last
+    sorted.sort((a, b) => (parseDateTime(b.datetime) ?? -Infinity) - (parseDateTime(a.datetime) ?? -Infinity));
+  } else if (filters.sortBy === 'file_size') {
+    sorted.sort((a, b) => (b.file_size || 0) - (a.file_size || 0));
+  } else {
+    sorted.sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+  }
+  return sorted;
+};
+
+interface ResultFiltersProps {
+  filters: ResultFilterState;
+  // Tags present in the current results
+  availableTags: string[];
+  onChange: (filters: ResultFilterState) => void;
+  onClose: () => void;
+}
+
+const ResultFilters: React.FC<ResultFiltersProps> = ({ filters, availableTags, onChange, onClose }) => {
+  const [locationSearch, setLocationSearch] = useState('');
+  const [locationResults, setLocationResults] = useState<any[]>([]);
+  const [loadingLocation, setLoadingLocation] = useState(false);
+
+  const update = (changes: Partial<ResultFilterState>) => onChange({ ...filters, ...changes });
+
+  // Place search (same geocoder as the admin location picker)
+  useEffect(() => {
+    if (locationSearch.trim().length < 3) {
+      setLocationResults([]);
+      return;
+    }
+    const timeoutId = setTimeout(() => {
+      setLoadingLocation(true);
+      fetch(`https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(locationSearch)}&limit=5`)
+        .then(res => res.json())
+        .then(data => setLocationResults(data))
+        .catch((error) => {
+          console.error('Location search error:', error);
+          setLocationResults([]);
+        })
+        .finally(() => setLoadingLocation(false));
+    }, 500); // Debounce 500ms
+    return () => clearTimeout(timeoutId);
+  }, [locationSearch]);
+
+  const selectPlace = (place: any) => {
+    update({
+      location: {
+        latitude: parseFloat(place.lat),
+        longitude: parseFloat(place.lon),
+        radiusKm: filters.location?.radiusKm || 10,
+        label: place.display_name.split(',').slice(0, 2).join(','),
+      },
+    });
+    setLocationSearch('');
+    setLocationResults([]);
+  };
+
+  const useMyLocation = () => {
+    if (!navigator.geolocation) return;
+    setLoadingLocation(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLoadingLocation(false);
+        update({
+          location: {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            radiusKm: filters.location?.radiusKm || 10,
+            label: 'My location',
+          },
+        });
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+        setLoadingLocation(false);
+      }
+    );
+  };
+
+  const toggleTag = (tag: string) => {
+    update({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+  };
+
+  const sortOptions: Array<{ value: ResultSort; label: string }> = [
+    { value: 'similarity', label: 'Similarity' },
+    { value: 'date', label: 'Date' },
+    { value: 'file_size', label: 'File size' },
+  ];
+
+  const inputClass = 'w-full bg-white/5 dark:bg-white/5 light:bg-gray-100 border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl px-3 py-2 text-sm text-white dark:text-white light:text-gray-900 focus:outline-none focus:border-brand-secondary/60 transition-colors duration-300';
+  const labelClass = 'block text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-400 light:text-gray-600 mb-2';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-end justify-center"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ y: '100%' }}
+        animate={{ y: 0 }}
+        exit={{ y: '100%' }}
+        transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+        className="glass-panel-strong w-full max-w-lg rounded-t-3xl p-6 pb-10 max-h-[85vh] overflow-y-auto space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Filter & Sort</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => onChange({ ...DEFAULT_RESULT_FILTERS, sortBy: filters.sortBy })}
+              className="text-sm text-gray-400 hover:text-white transition-colors duration-300"
+            >
+              Reset
+            </button>
+            <button onClick={onClose} className="p-1.5 rounded-full bg-white/10 hover:bg-white/20 transition-colors duration-300">
+              <X size={18} className="text-white dark:text-white light:text-gray-900" />
+            </button>
+          </div>
+        </div>
+
+        {/* Sort */}
+        <div>
+          <span className={labelClass}>Sort by</span>
+          <div className="grid grid-cols-3 gap-2">
+            {sortOptions.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update({ sortBy: option.value })}
+                className={`py-2 rounded-xl text-sm font-semibold transition-colors duration-300 ${filters.sortBy === option.value ? 'bg-brand-secondary text-black' : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-400 dark:text-gray-400 light:text-gray-600'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Threshold */}
+        <div>
+          <div className="flex justify-between">
+            <span className={labelClass}>Minimum similarity</span>
+            <span className="text-sm font-bold text-brand-secondary">{filters.minSimilarity}%</span>
+          </div>
+          <input
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={filters.minSimilarity}
+            onChange={(e) => update({ minSimilarity: Number(e.target.value) })}
+            className="w-full accent-brand-secondary"
+          />
+        </div>
+
+        {/* Date range */}
+        <div>
+          <span className={labelClass}>Date taken</span>
+          <div className="grid grid-cols-2 gap-2">
+            <input type="date" value={filters.dateFrom} max={filters.dateTo || undefined} onChange={(e) => update({ dateFrom: e.target.value })} className={inputClass} />
+            <input type="date" value={filters.dateTo} min={filters.dateFrom || undefined} onChange={(e) => update({ dateTo: e.target.value })} className={inputClass} />
+          </div>
+        </div>
+
+        {/* Location */}
+        <div>
+          <span className={labelClass}>Location</span>
+          {filters.location ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-brand-secondary/10 border border-brand-secondary/30">
+                <span className="flex items-center gap-2 text-sm text-white dark:text-white light:text-gray-900 truncate">
+                  <MapPin size={14} className="text-brand-secondary flex-shrink-0" />
+                  {filters.location.label}
+                </span>
+                <button onClick={() => update({ location: null })} className="text-gray-400 hover:text-white">
+                  <X size={14} />
+                </button>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {RADIUS_OPTIONS.map(radius => (
+                  <button
+                    key={radius}
+                    onClick={() => update({ location: { ...filters.location!, radiusKm: radius } })}
+                    className={`py-1.5 rounded-lg text-xs font-semibold transition-colors duration-300 ${filters.location!.radiusKm === radius ? 'bg-brand-secondary text-black' : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-400'}`}
+                  >
+                    {radius} km
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={locationSearch}
+                  onChange={(e) => setLocationSearch(e.target.value)}
+                  placeholder="Search a place"
+                  className={inputClass}
+                />
+                <button
+                  onClick={useMyLocation}
+                  title="Use my location"
+                  className="px-3 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 text-brand-secondary"
+                >
+                  {loadingLocation ? <Loader2 size={16} className="animate-spin" /> : <Navigation size={16} />}
+                </button>
+              </div>
+              {locationResults.map(place => (
+                <button
+                  key={place.place_id}
+                  onClick={() => selectPlace(place)}
+                  className="w-full text-left px-3 py-2 rounded-lg text-sm text-gray-300 dark:text-gray-300 light:text-gray-700 hover:bg-white/5 truncate"
+                >
+                  {place.display_name}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Tags */}
+        {availableTags.length > 0 && (
+          <div>
+            <span className={labelClass}>Tagged as</span>
+            <div className="flex flex-wrap gap-2">
+              {availableTags.map(tag => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-semibold transition-colors duration-300 ${filters.tags.includes(tag) ? 'bg-brand-primary text-white' : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-400 dark:text-gray-400 light:text-gray-600'}`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <GradientButton fullWidth onClick={onClose}>
+          Show results
+        </GradientButton>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ResultFilters;
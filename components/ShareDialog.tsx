@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Link2, Copy, Lock, Eye, Clock, Ban, Loader2, Share2 } from 'lucide-react';
+import { ShareLink } from '../types';
+import { GradientButton } from './UIComponents';
+import { showToast } from './Toast';
+import { createShareLink, getShareLinks, revokeShareLink } from '../services/apiService';
+import { buildPath } from '../services/router';
+
+interface ShareDialogProps {
+  token: string;
+  target: { item_id: string } | { album_id: string };
+  // Shown in the header, e.g. the album name
+  title: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: Array<{ label: string; hours: number | null }> = [
+  { label: 'Never', hours: null },
+  { label: '1 hour', hours: 1 },
+  { label: '1 day', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+];
+
+const shareUrl = (link: ShareLink) =>
+  `${window.location.origin}${buildPath({ name: 'shared', shareToken: link.token })}`;
+
+const isExpired = (link: ShareLink) => !!link.expires_at && Date.parse(link.expires_at) <= Date.now();
+
+const linkStatus = (link: ShareLink): string => {
+  if (link.revoked) return 'Revoked';
+  if (isExpired(link)) return 'Expired';
+  if (!link.expires_at) return 'No expiry';
+  return `Expires ${new Date(link.expires_at).toLocaleString()}`;
+};
+
+/**
+ * Create and manage public links to a gallery item or album: expiry, password, view counts and revocation
+ */
+const ShareDialog: React.FC<ShareDialogProps> = ({ token, target, title, onClose }) => {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expiryHours, setExpiryHours] = useState<number | null>(24 * 7);
+  const [password, setPassword] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getShareLinks(token, target)
+      .then(setLinks)
+      .catch((error: any) => showToast(error.message || 'Failed to load share links', 'error'))
+      .finally(() => setLoading(false));
+    // Once per opening, not again for each refreshed token
+  }, []);
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(link));
+      showToast('Link copied to clipboard', 'success');
+    } catch {
+      showToast('Could not copy the link', 'error');
+    }
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const link = await createShareLink(token, target, { expires_in_hours: expiryHours, password: password.trim() });
+      setLinks(prev => [link, ...prev]);
+      setPassword('');
+      await copyLink(link);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to create share link', 'error');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleNativeShare = async (link: ShareLink) => {
+    try {
+      await navigator.share({ title: `FaceFinder: ${title}`, url: shareUrl(link) });
+    } catch (error: any) {
+      if (error.name !== 'AbortError') showToast('Failed to share link', 'error');
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    setRevokingId(link.id);
+    try {
+      const revoked = await revokeShareLink(token, link.id);
+      setLinks(prev => prev.map(l => (l.id === revoked.id ? revoked : l)));
+      showToast('Link revoked', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to revoke share link', 'error');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-panel border border-white/20 p-6 rounded-2xl max-w-md w-full max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div className="min-w-0">
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Share Link</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 truncate">Anyone with the link can view {title}, no account needed</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 dark:text-white/60 hover:text-gray-900 dark:hover:text-white transition-colors duration-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1.5">Expires after</label>
+            <div className="flex flex-wrap gap-2">
+              {EXPIRY_OPTIONS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => setExpiryHours(option.hours)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors duration-300 ${expiryHours === option.hours
+                    ? 'border-brand-primary/60 bg-brand-primary/10 text-brand-primary'
+                    : 'border-gray-200 dark:border-white/10 text-gray-600 dark:text-gray-300'
+                    }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="relative">
+            <Lock size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (optional)"
+              autoComplete="new-password"
+              className="w-full pl-9 pr-4 py-2.5 rounded-xl bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:border-brand-primary/60 transition-colors duration-300"
+            />
+          </div>
+          <GradientButton fullWidth loading={creating} onClick={handleCreate}>
+            <Link2 size={18} /> Create & Copy Link
+          </GradientButton>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 border-t border-gray-200 dark:border-white/10 pt-4">
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 size={20} className="animate-spin text-brand-primary" />
+            </div>
+          ) : links.length === 0 ? (
+            <p className="text-xs text-center text-gray-500 dark:text-gray-400 py-2">No links yet</p>
+          ) : (
+            links.map(link => {
+              const active = !link.revoked && !isExpired(link);
+              return (
+                <div
+                  key={link.id}
+                  className={`flex items-center justify-between gap-2 p-3 rounded-xl border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-white/5 ${active ? '' : 'opacity-50'}`}
+                >
+                  <div className="min-w-0">
+                    <p className="flex items-center gap-1.5 text-xs font-semibold text-gray-900 dark:text-white">
+                      <Clock size={12} className="shrink-0" />
+                      <span className="truncate">{linkStatus(link)}</span>
+                      {link.has_password && <Lock size={12} className="shrink-0 text-brand-secondary" />}
+                    </p>
+                    <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                      <Eye size={12} /> {link.view_count} {link.view_count === 1 ? 'view' : 'views'} · created {new Date(link.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  {active && (
+                    <div className="flex gap-1 shrink-0">
+                      {typeof navigator.share === 'function' && (
+                        <button onClick={() => handleNativeShare(link)} title="Share" className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white">
+                          <Share2 size={14} />
+                        </button>
+                      )}
+                      <button onClick={() => copyLink(link)} title="Copy link" className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white">
+                        <Copy size={14} />
+                      </button>
+                      <button
+                        onClick={() => handleRevoke(link)}
+                        disabled={revokingId === link.id}
+                        title="Revoke"
+                        className="p-2 rounded-full bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 disabled:opacity-40"
+                      >
+                        <Ban size={14} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Film, Check, AlertTriangle, Copy, Calendar, MapPin, Wand2 } from 'lucide-react';
+import { GlassCard, GradientButton } from './UIComponents';
+import { PreflightEntry, PreflightSettings, MAX_DIMENSION_OPTIONS } from '../services/uploadPreflight';
+import { formatFileSize } from '../utils';
+
+interface UploadReviewProps {
+  // Null while files are still being checked
+  entries: PreflightEntry[] | null;
+  progress: { done: number; total: number };
+  settings: PreflightSettings;
+  onSettingsChange: (settings: PreflightSettings) => void;
+  onConfirm: (entries: PreflightEntry[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Pre-upload review: what each file will look like once normalized, which ones repeat
+ * earlier files and which can't be sent. Duplicates start unticked.
+ */
+const UploadReview: React.FC<UploadReviewProps> = ({ entries, progress, settings, onSettingsChange, onConfirm, onCancel }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setSelected(new Set((entries || []).filter(entry => entry.status === 'ready').map(entry => entry.id)));
+  }, [entries]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const counts = (entries || []).reduce((acc, entry) => ({ ...acc, [entry.status]: acc[entry.status] + 1 }), { ready: 0, duplicate: 0, invalid: 0 });
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] bg-black/90 dark:bg-black/90 light:bg-black/70 backdrop-blur-lg flex items-center justify-center p-4 transition-colors duration-300"
+    >
+      <GlassCard className="max-w-lg w-full p-6 border-purple-500/30 dark:border-purple-500/30 light:border-purple-500/40 max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Review Upload</h3>
+            <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+              {entries
+                ? `${counts.ready} ready · ${counts.duplicate} duplicate · ${counts.invalid} can't be uploaded`
+                : `Checking file ${progress.done} of ${progress.total}...`}
+            </p>
+          </div>
+          <button
+            onClick={onCancel}
+            className="text-white/60 dark:text-white/60 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Downscale limit */}
+        <div className="mb-4">
+          <span className="block text-xs font-semibold uppercase tracking-wider text-gray-400 dark:text-gray-400 light:text-gray-600 mb-2">Downscale photos larger than</span>
+          <div className="grid grid-cols-4 gap-2">
+            {MAX_DIMENSION_OPTIONS.map(option => (
+              <button
+                key={option ?? 'none'}
+                disabled={!entries}
+                onClick={() => onSettingsChange({ ...settings, maxDimension: option })}
+                className={`py-1.5 rounded-lg text-xs font-semibold transition-colors duration-300 disabled:opacity-50 ${settings.maxDimension === option ? 'bg-purple-500 text-white' : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-400 dark:text-gray-400 light:text-gray-600'}`}
+              >
+                {option ? `${option}px` : 'Never'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {entries ? (
+          <div className="flex-1 overflow-y-auto space-y-2 pr-1 -mr-1">
+            {entries.map((entry) => {
+              const selectable = entry.status !== 'invalid';
+              const isSelected = selected.has(entry.id);
+              return (
+                <div
+                  key={entry.id}
+                  onClick={() => selectable && toggle(entry.id)}
+                  className={`flex gap-3 p-2 rounded-xl border transition-colors duration-300 ${selectable ? 'cursor-pointer' : 'opacity-60'} ${isSelected
+                    ? 'border-purple-500/50 bg-purple-500/10'
+                    : 'border-white/10 dark:border-white/10 light:border-gray-200 bg-white/5 dark:bg-white/5 light:bg-gray-100'
+                    }`}
+                >
+                  <div className="w-14 h-14 rounded-lg overflow-hidden bg-black/40 flex-shrink-0 flex items-center justify-center">
+                    {entry.thumbnail
+                      ? <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                      : entry.kind === 'video' ? <Film size={20} className="text-blue-400" /> : <AlertTriangle size={20} className="text-red-400" />}
+                  </div>
+
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className="text-sm text-white dark:text-white light:text-gray-900 truncate transition-colors duration-300">{entry.original.name}</p>
+                    <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+                      {formatFileSize(entry.original.size)}
+                      {entry.file && entry.file !== entry.original && ` → ${formatFileSize(entry.file.size)}`}
+                    </p>
+                    {entry.changes.map(change => (
+                      <p key={change} className="flex items-center gap-1 text-xs text-purple-300 dark:text-purple-300 light:text-purple-700">
+                        <Wand2 size={11} /> {change}
+                      </p>
+                    ))}
+                    {(entry.metadata.datetime || entry.metadata.latitude !== undefined) && (
+                      <p className="flex items-center gap-3 text-xs text-gray-400 dark:text-gray-400 light:text-gray-600">
+                        {entry.metadata.datetime && (
+                          <span className="flex items-center gap-1"><Calendar size={11} /> {new Date(entry.metadata.datetime).toLocaleDateString()}</span>
+                        )}
+                        {entry.metadata.latitude !== undefined && entry.metadata.longitude !== undefined && (
+                          <span className="flex items-center gap-1"><MapPin size={11} /> {entry.metadata.latitude.toFixed(3)}, {entry.metadata.longitude.toFixed(3)}</span>
+                        )}
+                      </p>
+                    )}
+                    {entry.status === 'duplicate' && (
+                      <p className="flex items-center gap-1 text-xs text-yellow-400">
+                        <Copy size={11} /> {entry.exactDuplicate ? 'Same file as' : 'Looks like'} {entry.duplicateOf}
+                      </p>
+                    )}
+                    {entry.error && <p className="text-xs text-red-400">{entry.error}</p>}
+                  </div>
+
+                  {selectable && (
+                    <div className={`w-5 h-5 mt-1 rounded-md border flex items-center justify-center flex-shrink-0 ${isSelected ? 'bg-purple-500 border-purple-500' : 'border-white/30'}`}>
+                      {isSelected && <Check size={12} className="text-white" />}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col items-center justify-center py-10">
+            <motion.div
+              className="w-12 h-12 rounded-full border-4 border-purple-500/30 dark:border-purple-500/30 light:border-purple-300 border-t-purple-500 dark:border-t-purple-500 light:border-t-purple-600"
+              animate={{ rotate: 360 }}
+              transition={{ duration: 1, ease: "linear", repeat: Infinity }}
+            />
+          </div>
+        )}
+
+        <div className="flex gap-3 mt-4">
+          <button
+            onClick={onCancel}
+            className="flex-1 py-3 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+          >
+            Cancel
+          </button>
+          <GradientButton
+            onClick={() => entries && selected.size > 0 && onConfirm(entries.filter(entry => selected.has(entry.id) && entry.file))}
+            className={`flex-1 !from-purple-600 !to-indigo-600 ${!entries || selected.size === 0 ? 'opacity-50 pointer-events-none' : ''}`}
+          >
+            Upload {selected.size} {selected.size === 1 ? 'file' : 'files'}
+          </GradientButton>
+        </div>
+      </GlassCard>
+    </motion.div>
+  );
+};
+
+export default UploadReview;
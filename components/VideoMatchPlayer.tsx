@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SkipBack, SkipForward } from 'lucide-react';
+import { mergeTimestamps, formatDuration } from '../utils';
+
+interface VideoMatchPlayerProps {
+  src: string;
+  // Seconds of every matched frame
+  timestamps: number[];
+  // Where playback starts; defaults to the first appearance
+  startAt?: number;
+  autoPlay?: boolean;
+  className?: string;
+}
+
+/**
+ * Video player with a match timeline: every matched frame as a marker, nearby frames merged
+ * into segments, jumps between appearances and a frame preview when hovering the timeline.
+ */
+const VideoMatchPlayer: React.FC<VideoMatchPlayerProps> = ({ src, timestamps, startAt, autoPlay = true, className = '' }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const previewRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  // Hovered timeline position as a 0-1 fraction; null when not hovering
+  const [hover, setHover] = useState<number | null>(null);
+
+  const segments = useMemo(() => mergeTimestamps(timestamps), [timestamps]);
+  // Until metadata loads, size the timeline to the last appearance
+  const timelineLength = duration || Math.max(...timestamps, 1) + 1;
+
+  useEffect(() => {
+    setDuration(0);
+    setCurrentTime(0);
+  }, [src]);
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.min(Math.max(time, 0), video.duration || timelineLength);
+    setCurrentTime(video.currentTime);
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    setDuration(video.duration || 0);
+    seek(startAt ?? segments[0]?.start ?? 0);
+  };
+
+  // Appearance the playhead is in, or the last one before it
+  const currentSegment = segments.reduce((found, segment, index) => (segment.start <= currentTime + 0.05 ? index : found), -1);
+  const nextSegment = segments.findIndex(segment => segment.start > currentTime + 0.25);
+  // Within the first second of an appearance, "previous" goes to the one before it
+  const previousSegment = currentSegment >= 0 && currentTime - segments[currentSegment].start > 1 ? currentSegment : currentSegment - 1;
+
+  const fractionAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+  };
+
+  const handleHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    const fraction = fractionAt(e);
+    setHover(fraction);
+    if (previewRef.current) previewRef.current.currentTime = fraction * timelineLength;
+  };
+
+  const percent = (time: number) => `${Math.min((time / timelineLength) * 100, 100)}%`;
+
+  return (
+    <div className={`flex flex-col gap-3 ${className}`}>
+      <video
+        ref={videoRef}
+        key={src}
+        src={src}
+        controls
+        autoPlay={autoPlay}
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+        className="max-h-[60vh] max-w-full mx-auto rounded-lg shadow-[0_0_50px_rgba(124,92,255,0.2)]"
+      />
+
+      {/* Match timeline */}
+      <div
+        className="relative h-8 cursor-pointer select-none"
+        onClick={(e) => seek(fractionAt(e) * timelineLength)}
+        onMouseMove={handleHover}
+        onMouseLeave={() => setHover(null)}
+      >
+        <div className="absolute inset-x-0 top-1/2 -translate-y-1/2 h-2 rounded-full bg-white/10" />
+        {segments.map((segment, index) => (
+          <div
+            key={segment.start}
+            title={`${formatDuration(segment.start)}–${formatDuration(segment.end)}`}
+            className={`absolute top-1/2 -translate-y-1/2 h-2 rounded-full transition-colors duration-300 ${index === currentSegment ? 'bg-brand-secondary' : 'bg-brand-primary/70'}`}
+            style={{ left: percent(segment.start), width: `calc(${percent(segment.end - segment.start)} + 2px)` }}
+          />
+        ))}
+        {timestamps.map((ts) => (
+          <div
+            key={ts}
+            className="absolute top-1 bottom-1 w-0.5 -translate-x-1/2 bg-white/80 rounded-full pointer-events-none"
+            style={{ left: percent(ts) }}
+          />
+        ))}
+        {/* Playhead */}
+        <div
+          className="absolute top-0 bottom-0 w-1 -translate-x-1/2 bg-white rounded-full shadow-[0_0_6px_rgba(255,255,255,0.8)] pointer-events-none"
+          style={{ left: percent(currentTime) }}
+        />
+
+        {/* Frame preview, kept mounted so it stays loaded between hovers */}
+        <div
+          className={`absolute bottom-full mb-2 -translate-x-1/2 pointer-events-none rounded-lg overflow-hidden border border-white/20 bg-black shadow-2xl transition-opacity duration-150 ${hover === null ? 'opacity-0' : 'opacity-100'}`}
+          style={{ left: `clamp(4rem, ${(hover ?? 0) * 100}%, calc(100% - 4rem))` }}
+        >
+          <video ref={previewRef} key={src} src={src} muted playsInline preload="auto" className="w-32 h-20 object-cover" />
+          <span className="absolute bottom-1 right-1 px-1 rounded bg-black/70 text-[10px] font-mono text-white">
+            {formatDuration((hover ?? 0) * timelineLength)}
+          </span>
+        </div>
+      </div>
+
+      {/* Appearance navigation */}
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <button
+          onClick={() => previousSegment >= 0 && seek(segments[previousSegment].start)}
+          disabled={previousSegment < 0}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white disabled:opacity-30 transition-colors duration-300"
+        >
+          <SkipBack size={14} /> Previous
+        </button>
+        <span className="font-mono">
+          {segments.length === 0
+            ? 'No appearances'
+            : `${currentSegment >= 0 ? `Appearance ${currentSegment + 1} of ${segments.length}` : `${segments.length} appearances`} · ${formatDuration(currentTime)}`}
+        </span>
+        <button
+          onClick={() => nextSegment >= 0 && seek(segments[nextSegment].start)}
+          disabled={nextSegment < 0}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-white disabled:opacity-30 transition-colors duration-300"
+        >
+          Next <SkipForward size={14} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoMatchPlayer;
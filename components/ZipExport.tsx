@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Download, FileText } from 'lucide-react';
+import { PhotoResult } from '../types';
+import { GradientButton } from './UIComponents';
+import { showToast } from './Toast';
+import { buildGalleryZip, ExportProgress } from '../services/galleryExport';
+import { downloadFile, formatFileSize } from '../utils';
+
+interface ZipExportProps {
+  items: PhotoResult[];
+  // File name without .zip
+  archiveName: string;
+  onClose: () => void;
+}
+
+/**
+ * Download many items as one ZIP, built in the browser, with a JSON and CSV manifest of their metadata
+ */
+const ZipExport: React.FC<ZipExportProps> = ({ items, archiveName, onClose }) => {
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const imageCount = items.filter(item => (item.type || item.media_type) !== 'video').length;
+  const videoCount = items.length - imageCount;
+
+  const handleDownload = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ done: 0, total: items.length, bytes: 0, stage: 'downloading' });
+    try {
+      const { archive, failed } = await buildGalleryZip(items, setProgress, controller.signal);
+      downloadFile(archive, `${archiveName}.zip`);
+      if (failed.length > 0) {
+        showToast(`${failed.length} of ${items.length} items could not be downloaded; see manifest`, 'info');
+      } else {
+        showToast(`Downloaded ${items.length} ${items.length === 1 ? 'item' : 'items'}`, 'success');
+      }
+      onClose();
+    } catch (error: any) {
+      if (error.name === 'AbortError') return;
+      showToast(error.message || 'Failed to build archive', 'error');
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    controllerRef.current?.abort();
+    onClose();
+  };
+
+  const fraction = progress ? (progress.stage === 'packing' ? 1 : progress.done / Math.max(progress.total, 1)) : 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-lg flex items-center justify-center p-4"
+      onClick={handleClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-panel border border-white/20 p-6 rounded-2xl max-w-md w-full"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Download ZIP</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {[imageCount > 0 && `${imageCount} ${imageCount === 1 ? 'image' : 'images'}`, videoCount > 0 && `${videoCount} ${videoCount === 1 ? 'video' : 'videos'}`]
+                .filter(Boolean)
+                .join(' · ')}
+            </p>
+          </div>
+          <button onClick={handleClose} className="text-gray-500 dark:text-white/60 hover:text-gray-900 dark:hover:text-white transition-colors duration-300">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-start gap-3 p-3 mb-4 rounded-xl border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-white/5">
+          <FileText size={18} className="text-brand-primary mt-0.5 shrink-0" />
+          <p className="text-xs text-gray-600 dark:text-gray-400">
+            Files keep their original names. <span className="font-mono">manifest.json</span> and <span className="font-mono">manifest.csv</span> list
+            each item's date, location and similarity.
+          </p>
+        </div>
+
+        {progress && (
+          <div className="mb-4 space-y-1">
+            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+              <span>
+                {progress.stage === 'packing'
+                  ? 'Building archive…'
+                  : `Downloading ${Math.min(progress.done + 1, progress.total)} of ${progress.total}`}
+              </span>
+              <span>{formatFileSize(progress.bytes)}</span>
+            </div>
+            <div className="h-1.5 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+              <div className="h-full bg-brand-primary transition-all duration-300" style={{ width: `${fraction * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <GradientButton fullWidth loading={!!progress} onClick={handleDownload}>
+          <Download size={18} />
+          {items.length === 1 ? 'Download 1 item' : `Download ${items.length} items`}
+        </GradientButton>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ZipExport;
@@ -1,12 +1,26 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { installSessionRefresh } from './services/authSession';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Refresh expired access tokens and retry once on 401
+installSessionRefresh();
+
+// Offline/demo mode: serve every API call from the in-memory backend.
+// Loaded on demand so production builds don't ship it.
+const backendReady = process.env.MOCK_BACKEND === 'true'
+  ? import('./services/mockApiService').then(({ shouldUseMockBackend, installMockBackend }) => {
+    if (shouldUseMockBackend()) {
+      installMockBackend();
+    }
+  })
+  : Promise.resolve();
+
 // Register Service Worker for PWA
 if ('serviceWorker' in navigator) {
   window.addEventListener('load', () => {
@@ -26,8 +40,11 @@ if ('serviceWorker' in navigator) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+// The first API calls must go to the mock backend when it is on
+backendReady.then(() => {
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+});
\ No newline at end of file
@@ -1,16 +1,44 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { Shimmer, ShimmerImage } from '../components/Shimmer';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Share2, Trash2, X, ZoomIn, ChevronLeft, ChevronRight, ZoomOut, Play, Film, ImageIcon as ImageIconLucide, ScanFace } from 'lucide-react';
-import { PhotoResult, MediaType } from '../types';
-import { getGalleryImages, deleteFromGallery } from '../services/apiService';
+import { Share2, Trash2, X, ZoomIn, ChevronLeft, ChevronRight, ZoomOut, Play, Film, ImageIcon as ImageIconLucide, ScanFace, Scissors, FolderOpen, FolderPlus, Plus, Pencil, Star, Check, ArrowUpDown, Download, CheckSquare } from 'lucide-react';
+import { PhotoResult, MediaType, Album } from '../types';
+import { getGalleryImages, deleteFromGallery, getAlbums, createAlbum, updateAlbum, deleteAlbum, reorderAlbums, removeFromAlbum } from '../services/apiService';
+import FaceBoxes from '../components/FaceBoxes';
+import VideoMatchPlayer from '../components/VideoMatchPlayer';
+import ClipExport from '../components/ClipExport';
+import AlbumPicker from '../components/AlbumPicker';
+import ZipExport from '../components/ZipExport';
+import ShareDialog from '../components/ShareDialog';
+import { formatDuration } from '../utils';
 
 interface GalleryProps {
   token?: string | null;
   onDelete?: (id: string) => void;
+  // Item whose viewer is open, taken from the URL
+  itemId?: string | null;
+  onItemChange?: (itemId: string | null) => void;
+  // Album being browsed, taken from the URL
+  albumId?: string | null;
+  onAlbumChange?: (albumId: string | null) => void;
 }
 
-const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
+// Toast is loaded on demand, like everywhere else on this page
+const notify = async (message: string, type: 'success' | 'error' | 'info') => {
+  const { showToast } = await import('../components/Toast');
+  showToast(message, type);
+};
+
+// Move one entry of a list a step towards the start (-1) or end (1)
+const moveEntry = <T,>(list: T[], index: number, direction: -1 | 1): T[] => {
+  const target = index + direction;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+};
+
+const Gallery: React.FC<GalleryProps> = ({ token, onDelete, itemId, onItemChange, albumId, onAlbumChange }) => {
   const [items, setItems] = useState<PhotoResult[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeMediaType, setActiveMediaType] = useState<MediaType>('image');
@@ -19,23 +47,45 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
   const [isZoomed, setIsZoomed] = useState(false);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
-  const imageRef = useRef<HTMLImageElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const [clipSource, setClipSource] = useState<PhotoResult | null>(null);
+  // Outline detected faces in the viewer
+  const [showFaces, setShowFaces] = useState(true);
+  // Image plus its face outlines, scaled together when zoomed
+  const imageRef = useRef<HTMLDivElement>(null);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [showAlbums, setShowAlbums] = useState(!!albumId);
+  // Items being filed into albums from the viewer
+  const [pickerItems, setPickerItems] = useState<PhotoResult[] | null>(null);
+  const [newAlbumName, setNewAlbumName] = useState<string | null>(null);
+  const [reorderingAlbums, setReorderingAlbums] = useState(false);
+  // Rename draft while the open album is being edited
+  const [albumName, setAlbumName] = useState<string | null>(null);
+  const [confirmDeleteAlbum, setConfirmDeleteAlbum] = useState(false);
+  // Multi-select for bulk actions; tiles toggle instead of opening the viewer
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [zipExport, setZipExport] = useState<{ items: PhotoResult[]; name: string } | null>(null);
+  const [shareTarget, setShareTarget] = useState<{ target: { item_id: string } | { album_id: string }; title: string } | null>(null);
+  // Saved ids folded into another item by deduplication, so albums can still find them
+  const aliasRef = useRef<Map<string, string>>(new Map());
 
+  // Load on sign-in, not on every refreshed token, or an open selection would be lost
+  const signedIn = !!token;
   useEffect(() => {
     if (token) {
       loadGallery();
     } else {
       setLoading(false);
     }
-  }, [token]);
+  }, [signedIn]);
 
   const loadGallery = async () => {
     if (!token) return;
 
     try {
       setLoading(true);
-      const images = await getGalleryImages(token);
+      const [images, albumList] = await Promise.all([getGalleryImages(token), getAlbums(token)]);
+      const aliases = new Map<string, string>();
 
       // Deduplication Logic
       const uniqueVideos = new Map<string, any>();
@@ -46,7 +96,8 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
           ...item,
           type: (item.media_type || 'image') as MediaType,
           videoUrl: item.media_type === 'video' ? item.imageUrl : undefined,
-          timestamps: item.media_type === 'video' ? [item.timestamp || 0] : undefined
+          // Clips come with their own timestamps; whole videos collect them from each saved match
+          timestamps: item.media_type === 'video' ? (item.clip && item.timestamps ? item.timestamps : [item.timestamp || 0]) : undefined
         };
 
         if (processedItem.type === 'video') {
@@ -54,9 +105,10 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
           const ts = Math.round((processedItem.timestamp || 0) * 100) / 100;
 
           if (!existing) {
-            processedItem.timestamps = [ts];
+            if (!processedItem.clip) processedItem.timestamps = [ts];
             uniqueVideos.set(processedItem.imageUrl, processedItem);
           } else {
+            aliases.set(processedItem.id, existing.id);
             if (existing.timestamps && !existing.timestamps.includes(ts)) {
               existing.timestamps.push(ts);
               existing.timestamps.sort((a: number, b: number) => a - b);
@@ -64,8 +116,11 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
           }
         } else {
           // Deduplicate images
-          if (!uniqueImages.has(processedItem.imageUrl)) {
+          const existing = uniqueImages.get(processedItem.imageUrl);
+          if (!existing) {
             uniqueImages.set(processedItem.imageUrl, processedItem);
+          } else {
+            aliases.set(processedItem.id, existing.id);
           }
         }
       });
@@ -74,7 +129,9 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
       // Sort by ID descending (newest first)
       finalItems.sort((a, b) => parseInt(b.id) - parseInt(a.id));
 
+      aliasRef.current = aliases;
       setItems(finalItems);
+      setAlbums(albumList);
     } catch (error) {
       console.error('Failed to load gallery:', error);
     } finally {
@@ -84,32 +141,108 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
   const filteredItems = items.filter(item => item.type === activeMediaType);
 
+  const findItem = (id?: string) => {
+    if (!id) return undefined;
+    const shownId = aliasRef.current.get(id) ?? id;
+    return items.find(item => item.id === shownId);
+  };
+
+  // An album's saved ids paired with the gallery items they show, in album order
+  const albumEntries = (album: Album): { id: string; item: PhotoResult }[] => {
+    const seen = new Set<string>();
+    return album.item_ids.flatMap(id => {
+      const item = findItem(id);
+      if (!item || seen.has(item.id)) return [];
+      seen.add(item.id);
+      return [{ id, item }];
+    });
+  };
+
+  const albumCover = (album: Album) => findItem(album.cover_item_id) || albumEntries(album)[0]?.item;
+
+  const openAlbum = albumId ? albums.find(album => album.id === albumId) || null : null;
+  const openAlbumEntries = openAlbum ? albumEntries(openAlbum) : [];
+  // What the viewer steps through: the open album, otherwise the current media tab
+  const viewItems = openAlbum ? openAlbumEntries.map(entry => entry.item) : filteredItems;
+
+  // Show (or leave) the album named in the URL
+  useEffect(() => {
+    setAlbumName(null);
+    setConfirmDeleteAlbum(false);
+    stopSelecting();
+    if (loading || !albumId) return;
+    setShowAlbums(true);
+    if (!albums.some(album => album.id === albumId)) {
+      notify('That album no longer exists', 'error');
+      onAlbumChange?.(null);
+    }
+  }, [albumId, loading]);
+
+  // Open (or close) the viewer for the item named in the URL
+  useEffect(() => {
+    if (loading) return;
+    if (!itemId) {
+      setSelectedImage(null);
+      setIsZoomed(false);
+      return;
+    }
+    if (selectedImage?.id === itemId) return;
+
+    const item = items.find(i => i.id === itemId);
+    if (!item) {
+      import('../components/Toast').then(({ showToast }) => {
+        showToast('That item is no longer in your gallery', 'error');
+      });
+      onItemChange?.(null);
+      return;
+    }
+    const albumIndex = viewItems.findIndex(i => i.id === item.id);
+    if (openAlbum && albumIndex >= 0) {
+      setCurrentImageIndex(albumIndex);
+    } else {
+      const mediaType = item.type || 'image';
+      const index = items.filter(i => i.type === mediaType).findIndex(i => i.id === item.id);
+      setActiveMediaType(mediaType);
+      setCurrentImageIndex(Math.max(index, 0));
+    }
+    setSelectedImage(item);
+    setIsZoomed(false);
+  }, [itemId, albumId, loading]);
+
+  // Keep the URL in step with the open viewer
+  useEffect(() => {
+    if (loading) return;
+    onItemChange?.(selectedImage?.id ?? null);
+  }, [selectedImage?.id]);
+
   const handleDelete = async (id: string) => {
     if (!token) return;
 
     try {
       await deleteFromGallery(token, id);
+      const deleted = items.find(item => item.id === id);
       const newItems = items.filter(item => item.id !== id);
+      const remaining = viewItems.filter(item => item.id !== id);
       setItems(newItems);
+      setAlbums(prev => prev.map(album => ({
+        ...album,
+        item_ids: album.item_ids.filter(entryId => entryId !== id),
+        cover_item_id: album.cover_item_id === id ? undefined : album.cover_item_id,
+      })));
       if (onDelete) {
         onDelete(id);
       }
       if (selectedImage?.id === id) {
-        if (newItems.length === 0) {
+        if (remaining.length === 0) {
           setSelectedImage(null);
         } else {
-          const currentFiltered = newItems.filter(i => i.type === activeMediaType);
-          if (currentFiltered.length === 0) {
-            setSelectedImage(null);
-          } else {
-            const newIndex = Math.min(currentImageIndex, currentFiltered.length - 1);
-            setCurrentImageIndex(newIndex);
-            setSelectedImage(currentFiltered[newIndex]);
-          }
+          const newIndex = Math.min(currentImageIndex, remaining.length - 1);
+          setCurrentImageIndex(newIndex);
+          setSelectedImage(remaining[newIndex]);
         }
       }
       const { showToast } = await import('../components/Toast');
-      showToast(`${activeMediaType === 'image' ? 'Image' : 'Video'} removed from gallery`, 'success');
+      showToast(`${deleted?.type === 'video' ? 'Video' : 'Image'} removed from gallery`, 'success');
     } catch (error: any) {
       console.error('Failed to delete item:', error);
       const { showToast } = await import('../components/Toast');
@@ -117,52 +250,153 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
     }
   };
 
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const selectedItems = viewItems.filter(item => selectedIds.has(item.id));
+  const archiveDate = new Date().toISOString().slice(0, 10);
+
+  const replaceAlbum = (album: Album) => {
+    setAlbums(prev => prev.map(a => (a.id === album.id ? album : a)));
+  };
+
+  const handleCreateAlbum = async () => {
+    const name = newAlbumName?.trim();
+    if (!token || !name) return;
+    try {
+      const album = await createAlbum(token, name);
+      setAlbums(prev => [...prev, album]);
+      setNewAlbumName(null);
+      notify(`Album "${album.name}" created`, 'success');
+    } catch (error: any) {
+      notify(error.message || 'Failed to create album', 'error');
+    }
+  };
+
+  const moveAlbum = async (index: number, direction: -1 | 1) => {
+    if (!token) return;
+    const previous = albums;
+    const next = moveEntry<Album>(albums, index, direction);
+    setAlbums(next);
+    try {
+      await reorderAlbums(token, next.map(album => album.id));
+    } catch (error: any) {
+      setAlbums(previous);
+      notify(error.message || 'Failed to reorder albums', 'error');
+    }
+  };
+
+  const handleRenameAlbum = async () => {
+    if (!token || !openAlbum) return;
+    const name = albumName?.trim();
+    if (!name || name === openAlbum.name) {
+      setAlbumName(null);
+      return;
+    }
+    try {
+      replaceAlbum(await updateAlbum(token, openAlbum.id, { name }));
+      setAlbumName(null);
+    } catch (error: any) {
+      notify(error.message || 'Failed to rename album', 'error');
+    }
+  };
+
+  const handleDeleteAlbum = async () => {
+    if (!token || !openAlbum) return;
+    try {
+      await deleteAlbum(token, openAlbum.id);
+      setAlbums(prev => prev.filter(album => album.id !== openAlbum.id));
+      onAlbumChange?.(null);
+      notify(`Album "${openAlbum.name}" deleted`, 'success');
+    } catch (error: any) {
+      notify(error.message || 'Failed to delete album', 'error');
+    }
+  };
+
+  const moveAlbumItem = async (index: number, direction: -1 | 1) => {
+    if (!token || !openAlbum) return;
+    const order = moveEntry(openAlbumEntries, index, direction).map(entry => entry.id);
+    // Ids that show up as another item are kept, after the visible ones
+    const itemIds = [...order, ...openAlbum.item_ids.filter(id => !order.includes(id))];
+    replaceAlbum({ ...openAlbum, item_ids: itemIds });
+    try {
+      replaceAlbum(await updateAlbum(token, openAlbum.id, { item_ids: itemIds }));
+    } catch (error: any) {
+      replaceAlbum(openAlbum);
+      notify(error.message || 'Failed to reorder album', 'error');
+    }
+  };
+
+  const setAlbumCover = async (id: string) => {
+    if (!token || !openAlbum) return;
+    try {
+      replaceAlbum(await updateAlbum(token, openAlbum.id, { cover_item_id: id }));
+      notify('Album cover updated', 'success');
+    } catch (error: any) {
+      notify(error.message || 'Failed to set album cover', 'error');
+    }
+  };
+
+  const handleRemoveFromAlbum = async (id: string) => {
+    if (!token || !openAlbum) return;
+    try {
+      replaceAlbum(await removeFromAlbum(token, openAlbum.id, [id]));
+    } catch (error: any) {
+      notify(error.message || 'Failed to remove from album', 'error');
+    }
+  };
+
+  const showMediaTab = (type: MediaType) => {
+    stopSelecting();
+    setShowAlbums(false);
+    setActiveMediaType(type);
+    onAlbumChange?.(null);
+  };
+
   const openImageViewer = (image: PhotoResult) => {
-    const index = filteredItems.findIndex(item => item.id === image.id);
+    const index = viewItems.findIndex(item => item.id === image.id);
     setCurrentImageIndex(index >= 0 ? index : 0);
     setSelectedImage(image);
     setIsZoomed(false);
   };
 
   const navigateImage = useCallback((direction: 'prev' | 'next') => {
-    if (filteredItems.length === 0) return;
+    if (viewItems.length === 0) return;
 
     setCurrentImageIndex(prevIndex => {
       let newIndex = prevIndex;
       if (direction === 'next') {
-        newIndex = (prevIndex + 1) % filteredItems.length;
+        newIndex = (prevIndex + 1) % viewItems.length;
       } else {
-        newIndex = (prevIndex - 1 + filteredItems.length) % filteredItems.length;
+        newIndex = (prevIndex - 1 + viewItems.length) % viewItems.length;
       }
 
-      setSelectedImage(filteredItems[newIndex]);
+      setSelectedImage(viewItems[newIndex]);
       setIsZoomed(false);
       return newIndex;
     });
-  }, [filteredItems]);
+  }, [viewItems]);
 
-  const handleShare = async () => {
+  const handleShare = () => {
     if (!selectedImage) return;
-
-    try {
-      if (navigator.share) {
-        await navigator.share({
-          title: 'FaceFinder Discovery',
-          text: `Check out this ${selectedImage.type === 'image' ? 'photo' : 'video'} match!`,
-          url: selectedImage.videoUrl || selectedImage.imageUrl,
-        });
-      } else {
-        await navigator.clipboard.writeText(selectedImage.videoUrl || selectedImage.imageUrl);
-        const { showToast } = await import('../components/Toast');
-        showToast('URL copied to clipboard', 'success');
-      }
-    } catch (error: any) {
-      if (error.name !== 'AbortError') {
-        console.error('Failed to share:', error);
-        const { showToast } = await import('../components/Toast');
-        showToast('Failed to share item', 'error');
-      }
-    }
+    setShareTarget({
+      target: { item_id: selectedImage.id },
+      title: selectedImage.type === 'video' ? 'this video' : 'this photo',
+    });
   };
 
   const handleZoom = () => {
@@ -200,7 +434,7 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!selectedImage) return;
+      if (!selectedImage || clipSource || pickerItems || shareTarget) return;
       if (e.key === 'ArrowLeft') navigateImage('prev');
       else if (e.key === 'ArrowRight') navigateImage('next');
       else if (e.key === 'Escape') {
@@ -212,17 +446,17 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
     }
-  }, [selectedImage, navigateImage]);
+  }, [selectedImage, clipSource, pickerItems, shareTarget, navigateImage]);
 
-  const TabButton = ({ type, label, icon: Icon }: { type: MediaType, label: string, icon: any }) => (
+  const TabButton = ({ active, onClick, label, icon: Icon }: { active: boolean, onClick: () => void, label: string, icon: any }) => (
     <button
-      onClick={() => setActiveMediaType(type)}
-      className={`relative flex items-center gap-2 px-6 py-2.5 rounded-full text-sm font-semibold transition-all duration-300 z-10 ${activeMediaType === type
+      onClick={onClick}
+      className={`relative flex items-center gap-2 px-6 py-2.5 rounded-full text-sm font-semibold transition-all duration-300 z-10 ${active
         ? 'text-gray-900 dark:text-white'
         : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
         }`}
     >
-      {activeMediaType === type && (
+      {active && (
         <motion.div
           layoutId="gallery-tab-bg"
           className="absolute inset-0 bg-white dark:bg-white/10 rounded-full shadow-sm border border-gray-200/50 dark:border-white/5"
@@ -235,6 +469,316 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
     </button>
   );
 
+  const renderTile = (item: PhotoResult) => (
+    <motion.div
+      key={item.id}
+      layoutId={`gallery-item-${item.id}`}
+      className={`relative break-inside-avoid rounded-2xl overflow-hidden cursor-pointer group shadow-sm hover:shadow-xl transition-all duration-300 border ${selectedIds.has(item.id) ? 'border-brand-primary ring-2 ring-brand-primary' : 'border-gray-100 dark:border-white/5'}`}
+      onClick={() => (selecting ? toggleSelected(item.id) : openImageViewer(item))}
+      whileHover={{ scale: 1.02 }}
+    >
+      <div
+        className="relative w-full h-full bg-black"
+        onMouseEnter={(e) => {
+          if (item.type === 'video') {
+            const vid = e.currentTarget.querySelector('video');
+            if (vid) vid.play().catch(() => { });
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (item.type === 'video') {
+            const vid = e.currentTarget.querySelector('video');
+            if (vid) {
+              vid.pause();
+              vid.currentTime = 0; // Reset preview
+            }
+          }
+        }}
+      >
+        {item.type === 'video' && item.videoUrl ? (
+          <video
+            src={`${item.videoUrl}#t=0.01`}
+            className="w-full h-full object-cover"
+            muted
+            playsInline
+            preload="metadata" // Metadata only to save bandwidth
+            loop
+          />
+        ) : (
+          <img
+            src={item.imageUrl}
+            alt="Gallery item"
+            className="w-full h-full object-cover"
+            onError={(e) => { (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x400?text=Error'; }}
+          />
+        )}
+
+        {item.type === 'video' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/30 transition-colors pointer-events-none">
+            <div className="w-10 h-10 rounded-full bg-white/30 backdrop-blur-md flex items-center justify-center border border-white/40">
+              <Play size={18} className="text-white fill-current ml-0.5" />
+            </div>
+          </div>
+        )}
+        <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
+        {selecting && (
+          <div className={`absolute top-2 right-2 w-6 h-6 rounded-full border-2 flex items-center justify-center pointer-events-none ${selectedIds.has(item.id) ? 'bg-brand-primary border-brand-primary' : 'border-white bg-black/30'}`}>
+            {selectedIds.has(item.id) && <Check size={14} className="text-white" />}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+
+  const renderCover = (item: PhotoResult | undefined, alt: string) => {
+    if (!item) {
+      return (
+        <div className="w-full h-full flex items-center justify-center text-gray-300 dark:text-gray-600">
+          <FolderOpen size={32} />
+        </div>
+      );
+    }
+    return item.type === 'video' && item.videoUrl ? (
+      <video src={`${item.videoUrl}#t=0.01`} className="w-full h-full object-cover" muted playsInline preload="metadata" />
+    ) : (
+      <img src={item.imageUrl} alt={alt} className="w-full h-full object-cover" />
+    );
+  };
+
+  const renderAlbumGrid = () => (
+    <div>
+      <div className="flex items-center gap-2 mb-4">
+        {newAlbumName === null ? (
+          <button
+            onClick={() => setNewAlbumName('')}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-brand-primary/10 dark:bg-brand-primary/20 border border-brand-primary/30 text-sm font-semibold text-brand-primary transition-colors duration-300"
+          >
+            <Plus size={16} /> New Album
+          </button>
+        ) : (
+          <div className="flex flex-1 gap-2">
+            <input
+              autoFocus
+              value={newAlbumName}
+              onChange={(e) => setNewAlbumName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleCreateAlbum();
+                if (e.key === 'Escape') setNewAlbumName(null);
+              }}
+              placeholder="Album name"
+              className="flex-1 min-w-0 px-4 py-2 rounded-full bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-sm text-gray-900 dark:text-white placeholder-gray-400 focus:outline-none focus:border-brand-primary/60 transition-colors duration-300"
+            />
+            <button
+              onClick={handleCreateAlbum}
+              disabled={!newAlbumName.trim()}
+              className="p-2.5 rounded-full bg-brand-primary text-white disabled:opacity-40 transition-colors duration-300"
+            >
+              <Check size={16} />
+            </button>
+            <button
+              onClick={() => setNewAlbumName(null)}
+              className="p-2.5 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white transition-colors duration-300"
+            >
+              <X size={16} />
+            </button>
+          </div>
+        )}
+        {albums.length > 1 && newAlbumName === null && (
+          <button
+            onClick={() => setReorderingAlbums(prev => !prev)}
+            className={`ml-auto flex items-center gap-2 px-4 py-2 rounded-full text-sm font-semibold transition-colors duration-300 ${reorderingAlbums
+              ? 'bg-brand-primary text-white'
+              : 'bg-gray-100 dark:bg-white/5 text-gray-700 dark:text-gray-300'
+              }`}
+          >
+            {reorderingAlbums ? <Check size={16} /> : <ArrowUpDown size={16} />}
+            {reorderingAlbums ? 'Done' : 'Reorder'}
+          </button>
+        )}
+      </div>
+
+      {albums.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 opacity-40">
+          <div className="w-16 h-16 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-2xl flex items-center justify-center mb-4">
+            <FolderOpen size={24} />
+          </div>
+          <p className="text-gray-600 dark:text-gray-400 font-medium">No albums yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-4">
+          {albums.map((album, index) => {
+            const count = albumEntries(album).length;
+            return (
+              <motion.div key={album.id} layout className="group">
+                <div
+                  onClick={() => !reorderingAlbums && onAlbumChange?.(album.id)}
+                  className={`relative aspect-square rounded-2xl overflow-hidden bg-gray-100 dark:bg-white/5 border border-gray-100 dark:border-white/5 shadow-sm transition-all duration-300 ${reorderingAlbums ? '' : 'cursor-pointer hover:shadow-xl'}`}
+                >
+                  {renderCover(albumCover(album), album.name)}
+                  {reorderingAlbums && (
+                    <div className="absolute inset-x-0 bottom-0 flex justify-between p-2 bg-gradient-to-t from-black/60 to-transparent">
+                      <button
+                        onClick={() => moveAlbum(index, -1)}
+                        disabled={index === 0}
+                        className="p-1.5 rounded-full bg-white/20 backdrop-blur-md text-white disabled:opacity-30"
+                      >
+                        <ChevronLeft size={16} />
+                      </button>
+                      <button
+                        onClick={() => moveAlbum(index, 1)}
+                        disabled={index === albums.length - 1}
+                        className="p-1.5 rounded-full bg-white/20 backdrop-blur-md text-white disabled:opacity-30"
+                      >
+                        <ChevronRight size={16} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <p className="mt-2 text-sm font-semibold text-gray-900 dark:text-white truncate">{album.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{count} {count === 1 ? 'item' : 'items'}</p>
+              </motion.div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderAlbum = (album: Album) => {
+    const editing = albumName !== null;
+    const coverId = albumCover(album)?.id;
+    return (
+      <div>
+        <button
+          onClick={() => onAlbumChange?.(null)}
+          className="flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white transition-colors duration-300"
+        >
+          <ChevronLeft size={16} /> Albums
+        </button>
+        <div className="flex items-center justify-between gap-3 mt-2 mb-1">
+          {editing ? (
+            <input
+              autoFocus
+              value={albumName}
+              onChange={(e) => setAlbumName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRenameAlbum()}
+              className="flex-1 min-w-0 px-3 py-1.5 rounded-xl bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-lg font-bold text-gray-900 dark:text-white focus:outline-none focus:border-brand-primary/60 transition-colors duration-300"
+            />
+          ) : (
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white truncate">{album.name}</h2>
+          )}
+          <div className="flex items-center gap-2 shrink-0">
+            {!editing && token && (
+              <button
+                onClick={() => setShareTarget({ target: { album_id: album.id }, title: `"${album.name}"` })}
+                title="Share album"
+                className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white transition-colors duration-300"
+              >
+                <Share2 size={14} />
+              </button>
+            )}
+            {!editing && openAlbumEntries.length > 0 && (
+              <button
+                onClick={() => setZipExport({ items: openAlbumEntries.map(entry => entry.item), name: album.name })}
+                title="Download album"
+                className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white transition-colors duration-300"
+              >
+                <Download size={14} />
+              </button>
+            )}
+            {editing ? (
+              <button
+                onClick={handleRenameAlbum}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-brand-primary text-white text-sm font-semibold"
+              >
+                <Check size={14} /> Done
+              </button>
+            ) : (
+              <button
+                onClick={() => setAlbumName(album.name)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white text-sm font-semibold transition-colors duration-300"
+              >
+                <Pencil size={14} /> Edit
+              </button>
+            )}
+            {confirmDeleteAlbum ? (
+              <>
+                <button
+                  onClick={handleDeleteAlbum}
+                  className="px-3 py-1.5 rounded-full bg-red-500 text-white text-sm font-semibold"
+                >
+                  Delete
+                </button>
+                <button
+                  onClick={() => setConfirmDeleteAlbum(false)}
+                  className="p-2 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white"
+                >
+                  <X size={14} />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmDeleteAlbum(true)}
+                className="p-2 rounded-full bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 transition-colors duration-300"
+              >
+                <Trash2 size={14} />
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {confirmDeleteAlbum
+            ? 'Delete this album? Its items stay in your gallery.'
+            : `${openAlbumEntries.length} ${openAlbumEntries.length === 1 ? 'item' : 'items'}${editing ? ' · reorder, pick a cover or remove items' : ''}`}
+        </p>
+
+        {openAlbumEntries.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-20 opacity-40">
+            <div className="w-16 h-16 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-2xl flex items-center justify-center mb-4">
+              <FolderPlus size={24} />
+            </div>
+            <p className="text-gray-600 dark:text-gray-400 font-medium text-center">Empty album. Add items from the viewer or search results.</p>
+          </div>
+        ) : editing ? (
+          <div className="grid grid-cols-2 gap-4">
+            {openAlbumEntries.map(({ id, item }, index) => (
+              <motion.div key={item.id} layout className="relative aspect-square rounded-2xl overflow-hidden bg-black border border-gray-100 dark:border-white/5">
+                {renderCover(item, 'Album item')}
+                {item.id === coverId && (
+                  <span className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-brand-primary text-white text-[10px] font-bold uppercase tracking-wider">
+                    <Star size={10} className="fill-current" /> Cover
+                  </span>
+                )}
+                <div className="absolute inset-x-0 bottom-0 flex justify-between p-2 bg-gradient-to-t from-black/70 to-transparent">
+                  <div className="flex gap-1">
+                    <button onClick={() => moveAlbumItem(index, -1)} disabled={index === 0} className="p-1.5 rounded-full bg-white/20 backdrop-blur-md text-white disabled:opacity-30">
+                      <ChevronLeft size={14} />
+                    </button>
+                    <button onClick={() => moveAlbumItem(index, 1)} disabled={index === openAlbumEntries.length - 1} className="p-1.5 rounded-full bg-white/20 backdrop-blur-md text-white disabled:opacity-30">
+                      <ChevronRight size={14} />
+                    </button>
+                  </div>
+                  <div className="flex gap-1">
+                    <button onClick={() => setAlbumCover(id)} disabled={item.id === coverId} title="Use as cover" className="p-1.5 rounded-full bg-white/20 backdrop-blur-md text-white disabled:opacity-30">
+                      <Star size={14} />
+                    </button>
+                    <button onClick={() => handleRemoveFromAlbum(id)} title="Remove from album" className="p-1.5 rounded-full bg-red-500/80 text-white">
+                      <X size={14} />
+                    </button>
+                  </div>
+                </div>
+              </motion.div>
+            ))}
+          </div>
+        ) : (
+          <div className="columns-2 gap-4 space-y-4">
+            {openAlbumEntries.map(({ item }) => renderTile(item))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   if (loading) {
     return (
       <div className="pt-20 pb-32 px-4 min-h-screen bg-white dark:bg-brand-dark">
@@ -264,21 +808,35 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
         {/* Media Type Tabs */}
         <div className="inline-flex p-1.5 bg-gray-100 dark:bg-white/5 rounded-full border border-gray-200 dark:border-white/5 shadow-inner">
-          <TabButton type="image" label="Images" icon={ImageIconLucide} />
-          <TabButton type="video" label="Videos" icon={Film} />
+          <TabButton active={!showAlbums && activeMediaType === 'image'} onClick={() => showMediaTab('image')} label="Images" icon={ImageIconLucide} />
+          <TabButton active={!showAlbums && activeMediaType === 'video'} onClick={() => showMediaTab('video')} label="Videos" icon={Film} />
+          <TabButton active={showAlbums} onClick={() => { stopSelecting(); setShowAlbums(true); }} label="Albums" icon={FolderOpen} />
         </div>
+        {(!showAlbums || (openAlbum && albumName === null)) && viewItems.length > 0 && (
+          <button
+            onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+            className={`ml-2 align-middle inline-flex items-center gap-2 px-4 py-2.5 rounded-full text-sm font-semibold transition-colors duration-300 ${selecting
+              ? 'bg-brand-primary text-white'
+              : 'bg-gray-100 dark:bg-white/5 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-white/5'
+              }`}
+          >
+            <CheckSquare size={16} /> {selecting ? 'Cancel' : 'Select'}
+          </button>
+        )}
       </div>
 
       <AnimatePresence mode="wait">
         <motion.div
-          key={activeMediaType}
+          key={showAlbums ? `albums-${openAlbum?.id ?? 'all'}` : activeMediaType}
           initial={{ opacity: 0, y: 10 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -10 }}
           transition={{ duration: 0.25 }}
           className="min-h-[400px]"
         >
-          {filteredItems.length === 0 ? (
+          {showAlbums ? (
+            openAlbum ? renderAlbum(openAlbum) : renderAlbumGrid()
+          ) : filteredItems.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-20 opacity-40">
               <div className="w-16 h-16 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-2xl flex items-center justify-center mb-4">
                 {activeMediaType === 'image' ? <ImageIconLucide size={24} /> : <Film size={24} />}
@@ -287,62 +845,7 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
             </div>
           ) : (
             <div className="columns-2 gap-4 space-y-4">
-              {filteredItems.map((item) => (
-                <motion.div
-                  key={item.id}
-                  layoutId={`gallery-item-${item.id}`}
-                  className={`relative break-inside-avoid rounded-2xl overflow-hidden cursor-pointer group shadow-sm hover:shadow-xl transition-all duration-300 border border-gray-100 dark:border-white/5`}
-                  onClick={() => openImageViewer(item)}
-                  whileHover={{ scale: 1.02 }}
-                >
-                  <div
-                    onClick={() => openImageViewer(item)}
-                    className="relative w-full h-full bg-black"
-                    onMouseEnter={(e) => {
-                      if (item.type === 'video') {
-                        const vid = e.currentTarget.querySelector('video');
-                        if (vid) vid.play().catch(() => { });
-                      }
-                    }}
-                    onMouseLeave={(e) => {
-                      if (item.type === 'video') {
-                        const vid = e.currentTarget.querySelector('video');
-                        if (vid) {
-                          vid.pause();
-                          vid.currentTime = 0; // Reset preview
-                        }
-                      }
-                    }}
-                  >
-                    {item.type === 'video' && item.videoUrl ? (
-                      <video
-                        src={`${item.videoUrl}#t=0.01`}
-                        className="w-full h-full object-cover"
-                        muted
-                        playsInline
-                        preload="metadata" // Metadata only to save bandwidth
-                        loop
-                      />
-                    ) : (
-                      <img
-                        src={item.imageUrl}
-                        alt="Gallery item"
-                        className="w-full h-full object-cover"
-                        onError={(e) => { (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x400?text=Error'; }}
-                      />
-                    )}
-
-                    {item.type === 'video' && (
-                      <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/30 transition-colors pointer-events-none">
-                        <div className="w-10 h-10 rounded-full bg-white/30 backdrop-blur-md flex items-center justify-center border border-white/40">
-                          <Play size={18} className="text-white fill-current ml-0.5" />
-                        </div>
-                      </div>
-                    )}
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none" />
-                  </div>
-                </motion.div>
-              ))}
+              {filteredItems.map(item => renderTile(item))}
             </div>
           )}
         </motion.div>
@@ -367,8 +870,13 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
                   {selectedImage.type}
                 </span>
                 <span className="text-xs font-mono text-gray-400 dark:text-gray-500">
-                  {currentImageIndex + 1} / {filteredItems.length}
+                  {currentImageIndex + 1} / {viewItems.length}
                 </span>
+                {selectedImage.clip && (
+                  <span className="flex items-center gap-1 text-xs font-mono text-gray-400 dark:text-gray-500">
+                    <Scissors size={12} /> {formatDuration(selectedImage.clip.start)}–{formatDuration(selectedImage.clip.end)}
+                  </span>
+                )}
               </div>
               <button
                 onClick={() => { setSelectedImage(null); setIsZoomed(false); }}
@@ -380,7 +888,7 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
             {/* Content Container */}
             <div className="flex-1 flex items-center justify-center p-4 overflow-hidden relative">
-              {filteredItems.length > 1 && !isZoomed && (
+              {viewItems.length > 1 && !isZoomed && (
                 <button
                   onClick={() => navigateImage('prev')}
                   className="absolute left-6 z-10 p-4 rounded-full bg-white/70 dark:bg-black/30 backdrop-blur-xl hover:bg-white dark:hover:bg-black/50 transition-all shadow-xl active:scale-95 hidden md:flex"
@@ -391,29 +899,37 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
               <div className="relative w-full h-full flex items-center justify-center">
                 {selectedImage.type === 'video' && selectedImage.videoUrl ? (
-                  <video
-                    ref={videoRef}
+                  <VideoMatchPlayer
                     key={selectedImage.videoUrl}
                     src={selectedImage.videoUrl}
-                    controls
-                    autoPlay
-                    className="max-h-full max-w-full rounded-2xl shadow-2xl"
+                    timestamps={selectedImage.timestamps || [selectedImage.timestamp || 0]}
+                    className="w-full max-w-3xl"
                   />
                 ) : (
-                  <motion.img
-                    ref={imageRef}
+                  <motion.div
                     key={selectedImage.id}
                     initial={{ opacity: 0, scale: 0.95 }}
                     animate={{ opacity: 1, scale: 1 }}
                     exit={{ opacity: 0, scale: 0.95 }}
-                    src={selectedImage.imageUrl}
-                    className={`max-h-full max-w-full object-contain rounded-2xl shadow-2xl transition-transform duration-300 select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
-                    onClick={handleZoom}
-                  />
+                  >
+                    <div
+                      ref={imageRef}
+                      className={`relative inline-block transition-transform duration-300 select-none ${isZoomed ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}`}
+                      onClick={handleZoom}
+                    >
+                      <img
+                        src={selectedImage.imageUrl}
+                        className="block max-h-[65vh] max-w-full object-contain rounded-2xl shadow-2xl"
+                      />
+                      {showFaces && selectedImage.faces && (
+                        <FaceBoxes faces={selectedImage.faces} matchedFaceId={selectedImage.matched_face_id} />
+                      )}
+                    </div>
+                  </motion.div>
                 )}
               </div>
 
-              {filteredItems.length > 1 && !isZoomed && (
+              {viewItems.length > 1 && !isZoomed && (
                 <button
                   onClick={() => navigateImage('next')}
                   className="absolute right-6 z-10 p-4 rounded-full bg-white/70 dark:bg-black/30 backdrop-blur-xl hover:bg-white dark:hover:bg-black/50 transition-all shadow-xl active:scale-95 hidden md:flex"
@@ -425,95 +941,31 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
 
             {/* Footer Actions */}
             <div className="p-8 flex justify-center gap-8 pb-16 items-center flex-wrap">
-              <button onClick={handleShare} className="flex flex-col items-center gap-2 group">
-                <div className="w-12 h-12 rounded-full bg-gray-100 dark:bg-white/5 group-hover:bg-brand-primary/10 transition-colors flex items-center justify-center text-gray-700 dark:text-white">
-                  <Share2 size={20} />
-                </div>
-                <span className="text-[10px] uppercase font-bold text-gray-500 dark:text-gray-400 tracking-wider">Share</span>
-              </button>
-
-              {selectedImage.type === 'video' && selectedImage.timestamps && selectedImage.timestamps.length > 0 && (
-                <div className="relative group">
-                  <button
-                    className="flex flex-col items-center gap-2"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      // Interactive Scan Flow
-                      const overlay = document.getElementById('timestamp-overlay');
-                      const list = document.getElementById('timestamp-list');
-                      const scan = document.getElementById('timestamp-scan');
-
-                      if (overlay && overlay.classList.contains('hidden')) {
-                        // Start Scan
-                        overlay.classList.remove('hidden');
-                        if (scan) scan.classList.remove('hidden');
-                        if (list) list.classList.add('hidden');
-
-                        // Simulate Scanning delay
-                        setTimeout(() => {
-                          if (scan) scan.classList.add('hidden');
-                          if (list) list.classList.remove('hidden');
-                        }, 1500);
-                      } else if (overlay) {
-                        // Close if already open
-                        overlay.classList.add('hidden');
-                      }
-                    }}
-                  >
-                    <div className="w-12 h-12 rounded-full bg-brand-primary/10 dark:bg-brand-primary/20 group-hover:bg-brand-primary/20 border border-brand-primary/30 flex items-center justify-center text-brand-primary dark:text-brand-primary shadow-[0_0_15px_rgba(124,92,255,0.3)] transition-transform active:scale-95">
-                      <ScanFace size={20} className="w-5 h-5" />
-                      {/* Using ImageIcon as a proxy for "Face Scan" or Scan icon if imported */}
-                    </div>
-                    <span className="text-[10px] uppercase font-bold text-brand-primary dark:text-brand-primary tracking-wider">Scan</span>
-                  </button>
-
-                  {/* Timestamp Interactive Overlay */}
-                  <div id="timestamp-overlay" className="hidden absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-64 bg-black/80 backdrop-blur-xl border border-white/10 rounded-2xl p-4 shadow-2xl z-50 animate-in fade-in zoom-in duration-200">
-
-                    {/* 1. Scanning State */}
-                    <div id="timestamp-scan" className="flex flex-col items-center justify-center py-4 space-y-3">
-                      <div className="relative w-12 h-12">
-                        <motion.div
-                          className="absolute inset-0 rounded-full border-2 border-brand-primary/50 border-t-brand-primary"
-                          animate={{ rotate: 360 }}
-                          transition={{ duration: 1, repeat: Infinity, ease: "linear" }}
-                        />
-                        <div className="absolute inset-2 rounded-full bg-brand-primary/20 animate-pulse" />
-                      </div>
-                      <span className="text-xs font-bold text-white uppercase tracking-wider animate-pulse">Analyzing Video...</span>
-                    </div>
+              {token && (
+                <button onClick={handleShare} className="flex flex-col items-center gap-2 group">
+                  <div className="w-12 h-12 rounded-full bg-gray-100 dark:bg-white/5 group-hover:bg-brand-primary/10 transition-colors flex items-center justify-center text-gray-700 dark:text-white">
+                    <Share2 size={20} />
+                  </div>
+                  <span className="text-[10px] uppercase font-bold text-gray-500 dark:text-gray-400 tracking-wider">Share</span>
+                </button>
+              )}
 
-                    {/* 2. List State */}
-                    <div id="timestamp-list" className="hidden">
-                      <div className="flex justify-between items-center mb-3">
-                        <span className="text-xs font-bold text-white uppercase tracking-wider text-green-400">Match Found ({selectedImage.timestamps.length})</span>
-                        <button onClick={(e) => { e.stopPropagation(); document.getElementById('timestamp-overlay')?.classList.add('hidden'); }} className="text-white/50 hover:text-white">
-                          <X size={14} />
-                        </button>
-                      </div>
-                      <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto custom-scrollbar">
-                        {selectedImage.timestamps.map((ts) => (
-                          <button
-                            key={ts}
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              if (videoRef.current) {
-                                videoRef.current.currentTime = ts;
-                                videoRef.current.play();
-                              }
-                            }}
-                            className="px-2.5 py-1.5 rounded-lg bg-white/10 hover:bg-brand-primary/80 hover:scale-105 active:scale-95 text-white text-xs border border-white/5 transition-all"
-                          >
-                            {ts}s
-                          </button>
-                        ))}
-                      </div>
-                    </div>
+              {selectedImage.type === 'video' && !selectedImage.clip && token && (
+                <button onClick={() => setClipSource(selectedImage)} className="flex flex-col items-center gap-2 group">
+                  <div className="w-12 h-12 rounded-full bg-brand-primary/10 dark:bg-brand-primary/20 group-hover:bg-brand-primary/20 border border-brand-primary/30 flex items-center justify-center text-brand-primary transition-colors">
+                    <Scissors size={20} />
+                  </div>
+                  <span className="text-[10px] uppercase font-bold text-brand-primary tracking-wider">Save Clip</span>
+                </button>
+              )}
 
-                    {/* Triangle Arrow */}
-                    <div className="absolute top-full left-1/2 -translate-x-1/2 border-8 border-transparent border-t-black/80"></div>
+              {token && (
+                <button onClick={() => setPickerItems([selectedImage])} className="flex flex-col items-center gap-2 group">
+                  <div className="w-12 h-12 rounded-full bg-gray-100 dark:bg-white/5 group-hover:bg-brand-primary/10 transition-colors flex items-center justify-center text-gray-700 dark:text-white">
+                    <FolderPlus size={20} />
                   </div>
-                </div>
+                  <span className="text-[10px] uppercase font-bold text-gray-500 dark:text-gray-400 tracking-wider">Album</span>
+                </button>
               )}
 
               {selectedImage.type === 'image' && (
@@ -525,6 +977,15 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
                 </button>
               )}
 
+              {selectedImage.type === 'image' && selectedImage.faces && selectedImage.faces.length > 0 && (
+                <button onClick={() => setShowFaces(prev => !prev)} className="flex flex-col items-center gap-2 group">
+                  <div className={`w-12 h-12 rounded-full transition-colors flex items-center justify-center ${showFaces ? 'bg-brand-secondary/10 dark:bg-brand-secondary/20 text-brand-secondary' : 'bg-gray-100 dark:bg-white/5 group-hover:bg-gray-200 dark:group-hover:bg-white/10 text-gray-700 dark:text-white'}`}>
+                    <ScanFace size={20} />
+                  </div>
+                  <span className="text-[10px] uppercase font-bold text-gray-500 dark:text-gray-400 tracking-wider">{showFaces ? 'Hide Faces' : 'Faces'}</span>
+                </button>
+              )}
+
               <button onClick={() => handleDelete(selectedImage.id)} className="flex flex-col items-center gap-2 group">
                 <div className="w-12 h-12 rounded-full bg-red-50 dark:bg-red-500/10 group-hover:bg-red-100 dark:group-hover:bg-red-500/20 transition-colors flex items-center justify-center text-red-600 dark:text-red-400">
                   <Trash2 size={20} />
@@ -535,6 +996,96 @@ const Gallery: React.FC<GalleryProps> = ({ token, onDelete }) => {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {clipSource && token && (
+          <ClipExport
+            token={token}
+            video={clipSource}
+            onSaved={(clips) => {
+              setClipSource(null);
+              // Newest first, like the rest of the gallery
+              setItems(prev => [
+                ...clips.map(clip => ({ ...clip, type: 'video' as MediaType, videoUrl: clip.imageUrl })).reverse(),
+                ...prev,
+              ]);
+            }}
+            onClose={() => setClipSource(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Bulk action bar */}
+      <AnimatePresence>
+        {selecting && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 20 }}
+            className="fixed bottom-24 inset-x-4 z-40 mx-auto max-w-md flex items-center gap-2 p-2 pl-4 rounded-full bg-white dark:bg-brand-dark border border-gray-200 dark:border-white/10 shadow-2xl"
+          >
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">{selectedIds.size} selected</span>
+            <button
+              onClick={() => setSelectedIds(selectedItems.length === viewItems.length ? new Set() : new Set(viewItems.map(item => item.id)))}
+              className="text-xs font-semibold text-brand-primary"
+            >
+              {selectedItems.length === viewItems.length ? 'Clear' : 'Select all'}
+            </button>
+            <div className="ml-auto flex gap-2">
+              {token && (
+                <button
+                  onClick={() => setPickerItems(selectedItems)}
+                  disabled={selectedItems.length === 0}
+                  title="Add to album"
+                  className="p-2.5 rounded-full bg-gray-100 dark:bg-white/10 text-gray-700 dark:text-white disabled:opacity-40 transition-colors duration-300"
+                >
+                  <FolderPlus size={18} />
+                </button>
+              )}
+              <button
+                onClick={() => setZipExport({ items: selectedItems, name: `facefinder-${archiveDate}` })}
+                disabled={selectedItems.length === 0}
+                title="Download as ZIP"
+                className="p-2.5 rounded-full bg-brand-primary text-white disabled:opacity-40 transition-colors duration-300"
+              >
+                <Download size={18} />
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {shareTarget && token && (
+          <ShareDialog
+            token={token}
+            target={shareTarget.target}
+            title={shareTarget.title}
+            onClose={() => setShareTarget(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {zipExport && (
+          <ZipExport
+            items={zipExport.items}
+            archiveName={zipExport.name}
+            onClose={() => setZipExport(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {pickerItems && token && (
+          <AlbumPicker
+            token={token}
+            items={pickerItems}
+            onChange={setAlbums}
+            onClose={() => setPickerItems(null)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
@@ -0,0 +1,158 @@
+import React, { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History as HistoryIcon, RefreshCw, Trash2, Film, ChevronRight } from 'lucide-react';
+import { GlassCard } from '../components/UIComponents';
+import { showToast } from '../components/Toast';
+import { SearchHistoryEntry, getSearchHistory, deleteSearchEntry, clearSearchHistory } from '../services/searchHistory';
+
+interface HistoryProps {
+  userId?: number | string | null;
+  onOpen: (entry: SearchHistoryEntry) => void;
+  onRerun: (entry: SearchHistoryEntry) => void;
+}
+
+const formatSearchTime = (iso: string) => {
+  const date = new Date(iso);
+  return date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+const History: React.FC<HistoryProps> = ({ userId, onOpen, onRerun }) => {
+  const [entries, setEntries] = useState<SearchHistoryEntry[]>([]);
+
+  useEffect(() => {
+    setEntries(userId != null ? getSearchHistory(userId) : []);
+  }, [userId]);
+
+  const handleDelete = (id: string) => {
+    if (userId == null) return;
+    deleteSearchEntry(userId, id);
+    setEntries(prev => prev.filter(entry => entry.id !== id));
+    showToast('Search removed from history', 'success');
+  };
+
+  const handleClear = () => {
+    if (userId == null) return;
+    clearSearchHistory(userId);
+    setEntries([]);
+    showToast('Search history cleared', 'success');
+  };
+
+  return (
+    <div className="pt-20 pb-32 px-4 min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-white transition-colors duration-300">
+      <div className="flex items-end justify-between mb-6">
+        <div>
+          <h1 className="text-3xl font-display font-bold mb-1 text-white dark:text-white light:text-gray-900 transition-colors duration-300">Search History</h1>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 text-sm transition-colors duration-300">Reopen past scans or run them again</p>
+        </div>
+        {entries.length > 0 && (
+          <button
+            onClick={handleClear}
+            className="text-xs font-semibold text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-red-400 transition-colors duration-300"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 opacity-40">
+          <div className="w-16 h-16 border-2 border-dashed border-gray-500 dark:border-gray-500 light:border-gray-300 rounded-2xl flex items-center justify-center mb-4">
+            <HistoryIcon size={24} />
+          </div>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 font-medium">No searches yet.</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence>
+            {entries.map((entry, index) => (
+              <motion.div
+                key={entry.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -50 }}
+                transition={{ delay: index * 0.05 }}
+              >
+                <GlassCard className="p-4">
+                  <div className="flex gap-4">
+                    <button
+                      onClick={() => onOpen(entry)}
+                      className="relative w-20 h-20 rounded-xl overflow-hidden flex-shrink-0 border border-white/10 dark:border-white/10 light:border-gray-200"
+                    >
+                      <img src={entry.queryImage} alt="Search photo" className="w-full h-full object-cover" />
+                      {entry.referenceImages && entry.referenceImages.length > 1 && (
+                        <span className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded-full bg-black/70 text-[10px] font-bold text-white">
+                          +{entry.referenceImages.length - 1}
+                        </span>
+                      )}
+                    </button>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <p className="text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                            {entry.resultCount} {entry.resultCount === 1 ? 'match' : 'matches'}
+                          </p>
+                          <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+                            {formatSearchTime(entry.createdAt)}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleDelete(entry.id)}
+                          className="p-1.5 rounded-full text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors duration-300"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+
+                      {/* Top matches */}
+                      {entry.topMatches.length > 0 && (
+                        <div className="flex gap-1.5 mt-2">
+                          {entry.topMatches.map((match) => (
+                            <div key={match.id} className="relative w-9 h-9 rounded-lg overflow-hidden bg-black/40">
+                              {match.media_type === 'video' ? (
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <Film size={14} className="text-blue-400" />
+                                </div>
+                              ) : (
+                                <img src={match.imageUrl} alt="Match" className="w-full h-full object-cover" />
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2 mt-4">
+                    <button
+                      onClick={() => onRerun(entry)}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+                    >
+                      <RefreshCw size={14} />
+                      Re-run
+                    </button>
+                    <button
+                      onClick={() => onOpen(entry)}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-brand-primary/20 hover:bg-brand-primary/30 text-sm font-semibold text-brand-secondary transition-colors duration-300"
+                    >
+                      View results
+                      <ChevronRight size={14} />
+                    </button>
+                  </div>
+                </GlassCard>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default History;
@@ -1,6 +1,6 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Camera, Upload, UserCircle, Sparkles, Shield } from 'lucide-react';
+import { Camera, Upload, UserCircle, Sparkles, Shield, Images } from 'lucide-react';
 import { GlassCard, GradientButton } from '../components/UIComponents';
 import Logo from '../components/Logo';
 import ProfileDropdown from '../components/ProfileDropdown';
@@ -9,6 +9,7 @@ import { APP_TEXT_GRADIENT } from '../constants';
 interface HomeProps {
   onCameraOpen: () => void;
   onUpload: () => void;
+  onUploadReferences?: () => void;
   onProfile: () => void;
   onUseProfileImage?: (imageUrl: string) => void;
   hasProfileImage?: boolean;
@@ -23,6 +24,7 @@ interface HomeProps {
 const Home: React.FC<HomeProps> = ({ 
   onCameraOpen, 
   onUpload, 
+  onUploadReferences,
   onProfile, 
   onUseProfileImage, 
   hasProfileImage, 
@@ -146,6 +148,19 @@ const Home: React.FC<HomeProps> = ({
           </GlassCard>
         </div>
 
+        {/* Multi-reference search */}
+        {onUploadReferences && (
+          <GlassCard onClick={onUploadReferences} className="flex items-center gap-4 hover:border-brand-secondary/50 dark:hover:border-brand-secondary/50 light:hover:border-brand-secondary/60 transition-all duration-300">
+            <div className="bg-brand-secondary/10 dark:bg-brand-secondary/10 light:bg-brand-secondary/5 p-3 rounded-full text-brand-secondary dark:text-brand-secondary light:text-brand-secondary/80 transition-all duration-300">
+              <Images size={24} />
+            </div>
+            <div>
+              <span className="font-medium text-sm text-white dark:text-white light:text-gray-900 transition-colors duration-300">Multiple Reference Photos</span>
+              <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">Several shots of one person for better matches</p>
+            </div>
+          </GlassCard>
+        )}
+
         {/* Promo / Fun */}
         <div className="mt-2 p-4 rounded-xl bg-gradient-to-r from-pink-500/10 dark:from-pink-500/10 light:from-pink-500/5 to-purple-500/10 dark:to-purple-500/10 light:to-purple-500/5 border border-pink-500/20 dark:border-pink-500/20 light:border-pink-500/30 flex items-center gap-4 transition-all duration-300">
             <div className="p-2 bg-pink-500/20 dark:bg-pink-500/20 light:bg-pink-500/10 rounded-lg text-pink-300 dark:text-pink-300 light:text-pink-600 transition-all duration-300">
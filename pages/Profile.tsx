@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { UserProfile, UserRole } from '../types';
+import { UserRole } from '../types';
 import { GradientButton } from '../components/UIComponents';
 import { Settings, Shield, Edit2, ToggleLeft, ToggleRight, Lock, Sun, Moon } from 'lucide-react';
 import { getProfile, updateProfileImage, getProfileImageUrl, getUserStats } from '../services/apiService';
@@ -25,14 +25,15 @@ const Profile: React.FC<ProfileProps> = ({ role = 'user', onToggleRole, token, o
   const [error, setError] = useState('');
   const [stats, setStats] = useState({ scan_count: 0, saved_count: 0 });
 
-  // Load user profile on mount
+  // Load user profile on mount and sign-in; refreshed tokens don't need a reload
+  const signedIn = !!token;
   useEffect(() => {
     if (token) {
       loadProfile();
     } else {
       setLoading(false);
     }
-  }, [token]);
+  }, [signedIn]);
 
   const loadProfile = async () => {
     if (!token) return;
@@ -1,10 +1,17 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Check, X, ArrowLeft, Info, ChevronLeft, ChevronRight, Video, Play, Film, ImageIcon } from 'lucide-react';
-import { PhotoResult, MediaType } from '../types';
-import { searchSimilarFaces, getImageUrl, getSavedImageIds, saveToGallery } from '../services/apiService';
+import { Check, X, ArrowLeft, Info, ChevronLeft, ChevronRight, Video, Play, Film, ImageIcon, RefreshCw, SlidersHorizontal, Loader2, ScanFace, Maximize, FolderPlus, Download } from 'lucide-react';
+import { PhotoResult, MediaType, FaceBox, DetectedFace, SearchGroup, QueryReference } from '../types';
+import { streamSimilarFaces, searchByReferences, getImageUrl, getSavedImageIds, saveToGallery, SearchStage } from '../services/apiService';
 import { APP_TEXT_GRADIENT } from '../constants';
 import { showToast } from '../components/Toast';
+import FaceThumbnail from '../components/FaceThumbnail';
+import FaceBoxes from '../components/FaceBoxes';
+import VideoMatchPlayer from '../components/VideoMatchPlayer';
+import AlbumPicker from '../components/AlbumPicker';
+import ZipExport from '../components/ZipExport';
+import ResultFilters, { ResultFilterState, DEFAULT_RESULT_FILTERS, applyResultFilters, countActiveFilters } from '../components/ResultFilters';
+import { cropImage, faceZoom, mergeTimestamps, formatDuration } from '../utils';
 
 interface ResultsProps {
   sourceImage: string | null;
@@ -13,24 +20,175 @@ interface ResultsProps {
   onSave: (photo: PhotoResult) => void;
   token?: string | null;
   savedImageIds?: string[];
+  // Faces picked in the query photo; each is searched separately. Empty or absent searches the whole photo
+  faces?: FaceBox[];
+  // Several reference photos of one person, searched together and merged into one result set
+  references?: QueryReference[];
+  // Matches of a past search reopened from history; shown without searching again
+  initialGroups?: SearchGroup[];
+  onSearchComplete?: (groups: SearchGroup[], grouped: PhotoResult[]) => void;
+  onRerun?: () => void;
 }
 
-const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSave, token, savedImageIds: propSavedIds }) => {
-  const [loading, setLoading] = useState(true);
-  const [results, setResults] = useState<PhotoResult[]>([]);
-  const [processingStep, setProcessingStep] = useState(0);
+// Results rendered per infinite-scroll page
+const PAGE_SIZE = 24;
+
+const STAGE_LABELS: Record<SearchStage, string> = {
+  uploading: 'Uploading photo...',
+  detecting: 'Detecting face...',
+  embedding: 'Analyzing facial features...',
+  searching: 'Matching against the collection...',
+};
+
+/**
+ * Stable identity of a displayed match; a video is one entry however many frames matched
+ */
+const matchKey = (item: PhotoResult) => item.media_type === 'video' ? `video:${item.imageUrl}` : item.id;
+
+// Stands in for the matched face when a result has a box but no face list
+const MATCHED_FACE_ID = 'matched';
+
+/**
+ * Faces to outline in the viewer: every detected face, or just the matched box
+ */
+const viewerFaces = (item: PhotoResult): DetectedFace[] =>
+  item.faces || (item.matched_face ? [{ id: MATCHED_FACE_ID, box: item.matched_face }] : []);
+
+/**
+ * Grid thumbnails are cropped by object-cover, so object-position first keeps the face inside the crop
+ */
+const focusStyle = (box: FaceBox) => {
+  const zoom = faceZoom(box);
+  return { ...zoom, objectPosition: zoom.transformOrigin };
+};
+
+/**
+ * Normalize raw search matches for display: absolute URLs, one entry per video
+ * (collecting every matched timestamp), best matches first. Ids in skipIds are left out.
+ */
+const processMatches = (data: PhotoResult[], skipIds: Set<string> = new Set()): PhotoResult[] => {
+  const uniqueVideos = new Map<string, any>();
+  const processedImages: any[] = [];
+
+  data.forEach((item) => {
+    if (skipIds.has(item.id)) return;
+
+    // Normalize items
+    const processedItem = {
+      ...item,
+      isSaved: false,
+      imageUrl: getImageUrl(item.imageUrl),
+      media_type: item.media_type || 'image',
+      type: (item.media_type || 'image') as MediaType,
+      videoUrl: item.media_type === 'video' ? getImageUrl(item.imageUrl) : undefined,
+      timestamps: item.media_type === 'video' ? [item.timestamp || 0] : undefined
+    };
+
+    if (processedItem.media_type === 'video') {
+      // Deduplicate videos: Keep only the highest confidence match per video file
+      const existing = uniqueVideos.get(processedItem.imageUrl);
+      const ts = processedItem.timestamp || 0;
+
+      if (!existing) {
+        uniqueVideos.set(processedItem.imageUrl, processedItem);
+      } else {
+        // Collect unique timestamps
+        if (!existing.timestamps.includes(ts)) {
+          existing.timestamps.push(ts);
+          existing.timestamps.sort((a: number, b: number) => a - b);
+        }
+
+        // Update metadata if found a better match
+        if (processedItem.similarity > existing.similarity) {
+          existing.similarity = processedItem.similarity;
+          existing.confidence = processedItem.confidence;
+          existing.timestamp = ts; // Default valid timestamp
+          existing.reference_index = processedItem.reference_index;
+          existing.reference_similarities = processedItem.reference_similarities;
+          existing.matched_face = processedItem.matched_face;
+        }
+      }
+    } else {
+      processedImages.push(processedItem);
+    }
+  });
+
+  const finalResults = [...processedImages, ...Array.from(uniqueVideos.values())];
+
+  // Sort by confidence
+  finalResults.sort((a, b) => b.similarity - a.similarity);
+  return finalResults;
+};
+
+const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSave, token, savedImageIds: propSavedIds, faces, references, initialGroups, onSearchComplete, onRerun }) => {
+  const [loading, setLoading] = useState(!initialGroups);
+  // Raw matches per searched face, growing as batches stream in
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  const [streaming, setStreaming] = useState(false);
+  const [stage, setStage] = useState<SearchStage>('uploading');
+  // Matches hidden before display: saved when the search started, plus anything saved or rejected here
+  const [skipIds, setSkipIds] = useState<Set<string>>(new Set());
+  const [dismissedKeys, setDismissedKeys] = useState<Set<string>>(new Set());
+  const [activeGroup, setActiveGroup] = useState(0);
   const [selectedImage, setSelectedImage] = useState<PhotoResult | null>(null);
   const [viewerMode, setViewerMode] = useState<'info' | 'fullscreen'>('info');
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  // Zoom to the matched face in the grid and viewer; off shows the full frame
+  const [focusFace, setFocusFace] = useState(true);
   const [touchStart, setTouchStart] = useState<number | null>(null);
   const [touchEnd, setTouchEnd] = useState<number | null>(null);
   const [savedImageIds, setSavedImageIds] = useState<Set<string>>(new Set(propSavedIds || []));
   const [activeMediaType, setActiveMediaType] = useState<MediaType>('image');
+  // Shared by both media tabs and all face groups
+  const [filters, setFilters] = useState<ResultFilterState>(DEFAULT_RESULT_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  // Match being filed into albums from the fullscreen viewer
+  const [albumTarget, setAlbumTarget] = useState<PhotoResult | null>(null);
+  const [showZipExport, setShowZipExport] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Display results per searched face
+  const groups = useMemo(
+    () => searchGroups.map(group => ({
+      face: group.face,
+      results: processMatches(group.matches, skipIds).filter(item => !dismissedKeys.has(matchKey(item))),
+    })),
+    [searchGroups, skipIds, dismissedKeys]
+  );
+  const results = groups[activeGroup]?.results || [];
+
+  const dismiss = (item: PhotoResult) => {
+    setDismissedKeys(prev => new Set([...prev, matchKey(item)]));
+  };
+
+  const showGroups = (nextGroups: SearchGroup[], skip: Set<string>) => {
+    setSkipIds(skip);
+    setSearchGroups(nextGroups);
+    setLoading(false);
+
+    // Auto-switch tab if only videos found
+    const first = processMatches(nextGroups[0]?.matches || [], skip);
+    if (first.length > 0 && first.every(item => item.media_type === 'video')) {
+      setActiveMediaType('video');
+    }
+  };
 
   const processingRef = useRef<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Latest token, read when a request is made; a background refresh must not restart the search
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  // Reopened from history: show the stored matches, minus anything saved since
+  useEffect(() => {
+    if (!initialGroups) return;
+    showGroups(initialGroups, new Set(propSavedIds || []));
+  }, [initialGroups]);
 
   useEffect(() => {
+    if (initialGroups) return;
+
     // Create a unique ID for this file to prevent duplicate processing
     const fileId = sourceFile ? `${sourceFile.name}-${sourceFile.size}-${sourceFile.lastModified}` : null;
 
@@ -61,9 +219,9 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
       try {
         // Load saved image IDs if token is available
         let savedIdsSet = new Set<string>();
-        if (token) {
+        if (tokenRef.current) {
           try {
-            const savedIds = await getSavedImageIds(token);
+            const savedIds = await getSavedImageIds(tokenRef.current);
             savedIdsSet = new Set(savedIds);
             setSavedImageIds(savedIdsSet);
           } catch (err) {
@@ -72,79 +230,46 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
         } else if (propSavedIds) {
           savedIdsSet = new Set(propSavedIds);
         }
-
-        // Simulated "Steps" for the loading screen
-        setTimeout(() => setProcessingStep(1), 800); // Detecting face
-        setTimeout(() => setProcessingStep(2), 1800); // Generating mesh
-        setTimeout(() => setProcessingStep(3), 2600); // Searching db
-
-        // Actual API call - only make ONE request
-        const data = await searchSimilarFaces(sourceFile, token, signal);
+        setSkipIds(savedIdsSet);
+
+        // One merged search across reference photos, one streamed search per picked face, or the whole photo
+        const referenceFiles = (references || []).flatMap(reference => reference.file ? [reference.file] : []);
+        let matchSets: PhotoResult[][];
+        setStreaming(true);
+        if (referenceFiles.length > 1) {
+          setStage('searching');
+          const { matches, failed } = await searchByReferences(referenceFiles, tokenRef.current, signal);
+          matchSets = [matches];
+          showGroups([{ matches }], savedIdsSet);
+          if (failed.length > 0) {
+            showToast(`Reference ${failed.length === 1 ? 'photo' : 'photos'} ${failed.map(index => index + 1).join(', ')} could not be searched; results use the other ${referenceFiles.length - failed.length}`, 'info');
+          }
+        } else {
+          const queries = faces && faces.length > 0
+            ? await Promise.all(faces.map((face, index) => cropImage(sourceFile, face, `face-${index + 1}.jpg`)))
+            : [sourceFile];
+          setSearchGroups(queries.map((_, index) => ({ face: faces?.[index], matches: [] })));
+
+          matchSets = await Promise.all(queries.map((query, index) => streamSimilarFaces(query, tokenRef.current, {
+            // Stages of the first query stand in for the whole search
+            onStage: (next) => {
+              if (index === 0) setStage(next);
+            },
+            onMatches: (batch) => {
+              setSearchGroups(prev => prev.map((group, i) => i === index ? { ...group, matches: [...group.matches, ...batch] } : group));
+              setLoading(false);
+            },
+          }, signal)));
+        }
 
         // Check if request was aborted
         if (signal.aborted) {
           return;
         }
 
-        // Processing: Deduplicate videos and filter saved
-        const uniqueVideos = new Map<string, any>();
-        const processedImages: any[] = [];
-
-        data.forEach((item) => {
-          if (savedIdsSet.has(item.id)) return;
-
-          // Normalize items
-          const processedItem = {
-            ...item,
-            isSaved: false,
-            imageUrl: getImageUrl(item.imageUrl),
-            media_type: item.media_type || 'image',
-            type: (item.media_type || 'image') as MediaType,
-            videoUrl: item.media_type === 'video' ? getImageUrl(item.imageUrl) : undefined,
-            timestamps: item.media_type === 'video' ? [item.timestamp || 0] : undefined
-          };
-
-          if (processedItem.media_type === 'video') {
-            // Deduplicate videos: Keep only the highest confidence match per video file
-            const existing = uniqueVideos.get(processedItem.imageUrl);
-            const ts = processedItem.timestamp || 0;
-
-            if (!existing) {
-              uniqueVideos.set(processedItem.imageUrl, processedItem);
-            } else {
-              // Collect unique timestamps
-              if (!existing.timestamps.includes(ts)) {
-                existing.timestamps.push(ts);
-                existing.timestamps.sort((a: number, b: number) => a - b);
-              }
-
-              // Update metadata if found a better match
-              if (processedItem.similarity > existing.similarity) {
-                existing.similarity = processedItem.similarity;
-                existing.confidence = processedItem.confidence;
-                existing.timestamp = ts; // Default valid timestamp
-              }
-            }
-          } else {
-            processedImages.push(processedItem);
-          }
-        });
-
-        const finalResults = [...processedImages, ...Array.from(uniqueVideos.values())];
-
-        // Sort by confidence
-        finalResults.sort((a, b) => b.similarity - a.similarity);
-
-        setResults(finalResults);
-        setLoading(false);
-
-        // Auto-switch tab if only videos found
-        const hasImages = processedImages.length > 0;
-        const hasVideos = uniqueVideos.size > 0;
-
-        if (!hasImages && hasVideos) {
-          setActiveMediaType('video');
-        }
+        const finalGroups: SearchGroup[] = matchSets.map((matches, index) => ({ face: faces?.[index], matches }));
+        onSearchComplete?.(finalGroups, matchSets.flatMap(matches => processMatches(matches)));
+        showGroups(finalGroups, savedIdsSet);
 
       } catch (error: any) {
         if (error.name === 'AbortError') {
@@ -153,6 +278,7 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
         showToast(error.message || 'Failed to search for similar faces', 'error');
         setLoading(false);
       } finally {
+        setStreaming(false);
         processingRef.current = null; // Reset for next search
       }
     };
@@ -166,12 +292,34 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
       }
       processingRef.current = null;
     };
-  }, [sourceFile, token]);
+  }, [sourceFile]);
 
-  const filteredResults = results.filter(item => {
+  const visibleResults = applyResultFilters(results, filters);
+  const filteredResults = visibleResults.filter(item => {
     const type = item.media_type || 'image';
     return type === activeMediaType;
   });
+  const pagedResults = filteredResults.slice(0, visibleCount);
+  const availableTags = Array.from(new Set(results.flatMap(item => item.tagged_by ? [item.tagged_by] : []))).sort();
+  const activeFilterCount = countActiveFilters(filters);
+
+  // Start from the first page whenever the visible set changes
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [activeMediaType, activeGroup, filters]);
+
+  // Infinite scroll: reveal the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || visibleCount >= filteredResults.length) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        setVisibleCount(count => count + PAGE_SIZE);
+      }
+    }, { rootMargin: '400px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [visibleCount, filteredResults.length]);
 
   const handleSave = async (id: string, fromFullscreen: boolean = false) => {
     const photo = results.find(r => r.id === id);
@@ -185,13 +333,13 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
         // Mark as saved locally and remove from results
         setSavedImageIds(prev => new Set([...prev, id]));
         const newResults = results.filter(p => p.id !== id);
-        setResults(newResults);
+        dismiss(photo);
         onSave(photo);
         showToast(`${activeMediaType === 'image' ? 'Image' : 'Video'} saved to gallery`, 'success');
 
         // If in fullscreen mode, navigate to next image or close
         if (fromFullscreen && selectedImage?.id === id) {
-          const currentFiltered = newResults.filter(i => (i.media_type || 'image') === activeMediaType);
+          const currentFiltered = applyResultFilters(newResults, filters).filter(i => (i.media_type || 'image') === activeMediaType);
           if (currentFiltered.length === 0) {
             // No more items in this category
             setSelectedImage(null);
@@ -209,13 +357,23 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
     }
   };
 
+  // Albums only hold gallery items, so an unsaved match is saved before it is added
+  const saveBeforeAlbum = async (photo: PhotoResult) => {
+    if (!token || savedImageIds.has(photo.id)) return;
+    await saveToGallery(token, photo);
+    setSavedImageIds(prev => new Set([...prev, photo.id]));
+    onSave(photo);
+  };
+
   const handleReject = (id: string, fromFullscreen: boolean = false) => {
+    const photo = results.find(r => r.id === id);
+    if (!photo) return;
     const newResults = results.filter(p => p.id !== id);
-    setResults(newResults);
+    dismiss(photo);
 
     // If in fullscreen mode, navigate to next image or close
     if (fromFullscreen && selectedImage?.id === id) {
-      const currentFiltered = newResults.filter(i => (i.media_type || 'image') === activeMediaType);
+      const currentFiltered = applyResultFilters(newResults, filters).filter(i => (i.media_type || 'image') === activeMediaType);
 
       if (currentFiltered.length === 0) {
         setSelectedImage(null);
@@ -280,7 +438,7 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!selectedImage || viewerMode !== 'fullscreen') return;
+      if (!selectedImage || viewerMode !== 'fullscreen' || albumTarget) return;
 
       if (e.key === 'ArrowLeft') {
         navigateImage('prev');
@@ -296,7 +454,7 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
     }
-  }, [selectedImage, viewerMode, navigateImage]);
+  }, [selectedImage, viewerMode, albumTarget, navigateImage]);
 
   const TabButton = ({ type, label, icon: Icon }: { type: MediaType, label: string, icon: any }) => (
     <button
@@ -320,7 +478,7 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
       {/* Count Badge */}
       <span className={`relative z-10 text-[10px] px-1.5 py-0.5 rounded-full ${activeMediaType === type ? 'bg-black/10 text-gray-900' : 'bg-white/10 text-gray-500'
         }`}>
-        {results.filter(r => (r.media_type || 'image') === type).length}
+        {visibleResults.filter(r => (r.media_type || 'image') === type).length}
       </span>
     </button>
   );
@@ -354,10 +512,7 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
 
         <div className="h-6 overflow-hidden flex flex-col items-center">
           <AnimatePresence mode='wait'>
-            {processingStep === 0 && <motion.span key="0" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">Analyzing facial features...</motion.span>}
-            {processingStep === 1 && <motion.span key="1" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">Constructing neural mesh...</motion.span>}
-            {processingStep === 2 && <motion.span key="2" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">Matching against global database...</motion.span>}
-            {processingStep === 3 && <motion.span key="3" initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">Finalizing matches...</motion.span>}
+            <motion.span key={stage} initial={{ y: 20, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: -20, opacity: 0 }} className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">{STAGE_LABELS[stage]}</motion.span>
           </AnimatePresence>
         </div>
       </div>
@@ -370,12 +525,96 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
         <button onClick={onBack} className="p-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 mr-4">
           <ArrowLeft className="text-white dark:text-white light:text-gray-900" />
         </button>
-        <div>
+        <div className="flex-1">
           <h2 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900">Matches Found</h2>
-          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600">{results.length} total matches</p>
+          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600">
+            {activeFilterCount > 0 ? `${visibleResults.length} of ${results.length} matches` : `${results.length} total matches`}
+            {streaming && <span className="text-brand-secondary"> · searching...</span>}
+          </p>
         </div>
+        {visibleResults.length > 0 && (
+          <button
+            onClick={() => setShowZipExport(true)}
+            disabled={streaming}
+            title="Download matches as ZIP"
+            className="p-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 mr-2 disabled:opacity-40 transition-colors duration-300"
+          >
+            <Download size={20} className="text-white dark:text-white light:text-gray-900" />
+          </button>
+        )}
+        <button
+          onClick={() => setFocusFace(prev => !prev)}
+          title={focusFace ? 'Show full frames' : 'Zoom to matched faces'}
+          className="p-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 mr-2 transition-colors duration-300"
+        >
+          {focusFace
+            ? <Maximize size={20} className="text-white dark:text-white light:text-gray-900" />
+            : <ScanFace size={20} className="text-brand-secondary" />}
+        </button>
+        <button
+          onClick={() => setShowFilters(true)}
+          className="relative p-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 mr-2 transition-colors duration-300"
+        >
+          <SlidersHorizontal size={20} className="text-white dark:text-white light:text-gray-900" />
+          {activeFilterCount > 0 && (
+            <span className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-brand-secondary text-black text-[10px] font-bold flex items-center justify-center">
+              {activeFilterCount}
+            </span>
+          )}
+        </button>
+        {onRerun && (
+          <button
+            onClick={onRerun}
+            className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+          >
+            <RefreshCw size={16} />
+            Re-run scan
+          </button>
+        )}
       </div>
 
+      {/* Reference photos */}
+      {references && references.length > 1 && (
+        <div className="flex items-center gap-3 mb-6">
+          <div className="flex -space-x-3">
+            {references.map((reference, index) => (
+              <img
+                key={index}
+                src={reference.image}
+                alt={`Reference ${index + 1}`}
+                className="w-10 h-10 rounded-full object-cover border-2 border-brand-dark dark:border-brand-dark light:border-white"
+              />
+            ))}
+          </div>
+          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600">
+            Ranked across {references.length} reference photos
+          </p>
+        </div>
+      )}
+
+      {/* Face groups */}
+      {groups.length > 1 && sourceImage && (
+        <div className="flex gap-3 mb-6 overflow-x-auto pb-1">
+          {groups.map((group, index) => (
+            <button
+              key={index}
+              onClick={() => {
+                setActiveGroup(index);
+                setSelectedImage(null);
+              }}
+              className={`flex-shrink-0 flex items-center gap-2 pr-3 rounded-full border transition-all duration-300 ${activeGroup === index
+                ? 'border-brand-secondary bg-brand-secondary/10'
+                : 'border-white/10 dark:border-white/10 light:border-gray-200 bg-white/5 dark:bg-white/5 light:bg-gray-100'
+                }`}
+            >
+              {group.face && <FaceThumbnail src={sourceImage} face={group.face} className="w-10 h-10 rounded-full" />}
+              <span className="text-sm font-semibold text-white dark:text-white light:text-gray-900">Face {index + 1}</span>
+              <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-white/10 text-gray-400">{group.results.length}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Tabs */}
       <div className="flex justify-center mb-6">
         <div className="inline-flex p-1.5 bg-gray-900/50 dark:bg-white/5 light:bg-gray-100 rounded-full border border-white/10 dark:border-white/10 light:border-gray-200 backdrop-blur-md">
@@ -398,16 +637,20 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
               <div className="w-16 h-16 border-2 border-dashed border-gray-500 dark:border-gray-500 rounded-2xl flex items-center justify-center mb-4">
                 {activeMediaType === 'image' ? <ImageIcon size={30} /> : <Film size={30} />}
               </div>
-              <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 font-medium">No {activeMediaType} matches found.</p>
+              <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 font-medium">
+                {streaming
+                  ? `Still searching for ${activeMediaType} matches...`
+                  : activeFilterCount > 0 ? `No ${activeMediaType} matches fit the current filters.` : `No ${activeMediaType} matches found.`}
+              </p>
             </div>
           ) : (
             <div className="grid grid-cols-2 gap-4">
-              {filteredResults.map((item, index) => (
+              {pagedResults.map((item, index) => (
                 <motion.div
                   key={item.id}
                   initial={{ opacity: 0, y: 20 }}
                   animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.1 }}
+                  transition={{ delay: (index % PAGE_SIZE) * 0.05 }}
                   className="relative group"
                 >
                   <div
@@ -432,7 +675,8 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                     {item.media_type === 'video' ? (
                       <video
                         src={`${item.imageUrl}#t=${item.timestamp || 0}`}
-                        className="w-full h-full object-cover"
+                        className="w-full h-full object-cover transition-transform duration-300"
+                        style={focusFace && item.matched_face ? focusStyle(item.matched_face) : undefined}
                         muted
                         playsInline
                         preload="metadata"
@@ -442,7 +686,8 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                       <img
                         src={item.imageUrl}
                         alt="Match"
-                        className="w-full h-full object-cover"
+                        className="w-full h-full object-cover transition-transform duration-300"
+                        style={focusFace && item.matched_face ? focusStyle(item.matched_face) : undefined}
                         onError={(e) => {
                           (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x400?text=Image+Not+Found';
                         }}
@@ -454,6 +699,16 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                       <span className="text-xs font-bold text-brand-secondary dark:text-brand-secondary light:text-brand-secondary/90 transition-colors duration-300">{item.confidence}%</span>
                     </div>
 
+                    {/* Reference that produced the match */}
+                    {references && item.reference_index !== undefined && references[item.reference_index] && (
+                      <img
+                        src={references[item.reference_index].image}
+                        alt={`Reference ${item.reference_index + 1}`}
+                        title={`Best match for reference ${item.reference_index + 1}`}
+                        className="absolute top-11 right-2 w-7 h-7 rounded-full object-cover border-2 border-brand-secondary/60 z-10"
+                      />
+                    )}
+
                     {/* Video Badge */}
                     {item.media_type === 'video' && (
                       <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/30 transition-colors pointer-events-none">
@@ -510,9 +765,48 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
               ))}
             </div>
           )}
+
+          {/* Infinite scroll sentinel */}
+          {visibleCount < filteredResults.length && (
+            <div ref={loadMoreRef} className="flex justify-center py-8">
+              <Loader2 size={24} className="text-brand-secondary animate-spin" />
+            </div>
+          )}
         </motion.div>
       </AnimatePresence>
 
+      <AnimatePresence>
+        {showFilters && (
+          <ResultFilters
+            filters={filters}
+            availableTags={availableTags}
+            onChange={setFilters}
+            onClose={() => setShowFilters(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showZipExport && (
+          <ZipExport
+            items={visibleResults}
+            archiveName={`facefinder-matches-${new Date().toISOString().slice(0, 10)}`}
+            onClose={() => setShowZipExport(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {albumTarget && token && (
+          <AlbumPicker
+            token={token}
+            items={[albumTarget]}
+            onBeforeAdd={() => saveBeforeAlbum(albumTarget)}
+            onClose={() => setAlbumTarget(null)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Fullscreen Viewer (Handles Images & Videos) */}
       <AnimatePresence>
         {selectedImage && viewerMode === 'fullscreen' && (
@@ -538,15 +832,26 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                   {selectedImage.confidence}% Match
                 </span>
               </div>
-              <button
-                onClick={() => {
-                  setSelectedImage(null);
-                  setViewerMode('info');
-                }}
-                className="p-2 rounded-full bg-white/10 dark:bg-white/10 light:bg-white/20 hover:bg-white/20 dark:hover:bg-white/20 light:hover:bg-white/30 transition-colors duration-300"
-              >
-                <X className="text-white dark:text-white light:text-white transition-colors duration-300" size={20} />
-              </button>
+              <div className="flex items-center gap-2">
+                {selectedImage.media_type !== 'video' && !!(selectedImage.matched_face || selectedImage.faces?.length) && (
+                  <button
+                    onClick={() => setFocusFace(prev => !prev)}
+                    title={focusFace ? 'Show full frame' : 'Zoom to matched face'}
+                    className={`p-2 rounded-full transition-colors duration-300 ${focusFace ? 'bg-brand-secondary/20 text-brand-secondary' : 'bg-white/10 dark:bg-white/10 light:bg-white/20 text-white hover:bg-white/20'}`}
+                  >
+                    {focusFace ? <ScanFace size={20} /> : <Maximize size={20} />}
+                  </button>
+                )}
+                <button
+                  onClick={() => {
+                    setSelectedImage(null);
+                    setViewerMode('info');
+                  }}
+                  className="p-2 rounded-full bg-white/10 dark:bg-white/10 light:bg-white/20 hover:bg-white/20 dark:hover:bg-white/20 light:hover:bg-white/30 transition-colors duration-300"
+                >
+                  <X className="text-white dark:text-white light:text-white transition-colors duration-300" size={20} />
+                </button>
+              </div>
             </div>
 
             {/* Content Container with Navigation */}
@@ -563,27 +868,39 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
 
               {/* Media Content */}
               {selectedImage.media_type === 'video' ? (
-                <video
+                <VideoMatchPlayer
                   key={selectedImage.imageUrl}
                   src={selectedImage.imageUrl}
-                  controls
-                  autoPlay
-                  className="max-h-full max-w-full rounded-lg shadow-[0_0_50px_rgba(124,92,255,0.2)]"
+                  timestamps={selectedImage.timestamps || [selectedImage.timestamp || 0]}
+                  startAt={selectedImage.timestamp}
+                  className="w-full max-w-3xl"
                 />
               ) : (
-                <motion.img
+                <motion.div
                   key={selectedImage.imageUrl}
                   initial={{ opacity: 0, scale: 0.9 }}
                   animate={{ opacity: 1, scale: 1 }}
                   exit={{ opacity: 0, scale: 0.9 }}
                   transition={{ duration: 0.3 }}
-                  src={selectedImage.imageUrl}
-                  alt="Match"
-                  className="max-h-full max-w-full object-contain rounded-lg shadow-[0_0_50px_rgba(124,92,255,0.2)]"
-                  onError={(e) => {
-                    (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x400?text=Image+Not+Found';
-                  }}
-                />
+                  className="relative inline-block overflow-hidden rounded-lg shadow-[0_0_50px_rgba(124,92,255,0.2)]"
+                >
+                  <div
+                    className="relative transition-transform duration-300"
+                    style={focusFace && selectedImage.matched_face ? faceZoom(selectedImage.matched_face) : undefined}
+                  >
+                    <img
+                      src={selectedImage.imageUrl}
+                      alt="Match"
+                      className="block max-h-[70vh] max-w-full object-contain"
+                      onError={(e) => {
+                        (e.target as HTMLImageElement).src = 'https://via.placeholder.com/300x400?text=Image+Not+Found';
+                      }}
+                    />
+                    {focusFace && (
+                      <FaceBoxes faces={viewerFaces(selectedImage)} matchedFaceId={selectedImage.matched_face_id || MATCHED_FACE_ID} />
+                    )}
+                  </div>
+                </motion.div>
               )}
 
               {/* Next Button */}
@@ -606,6 +923,16 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                 <X size={24} />
               </button>
 
+              {token && (
+                <button
+                  onClick={() => setAlbumTarget(selectedImage)}
+                  title="Add to album"
+                  className="w-12 h-12 rounded-full bg-white/10 dark:bg-white/10 light:bg-white/20 backdrop-blur-md flex items-center justify-center text-white/70 dark:text-white/70 light:text-white/90 hover:bg-brand-primary/60 hover:text-white transition-colors duration-300"
+                >
+                  <FolderPlus size={20} />
+                </button>
+              )}
+
               <button
                 onClick={() => handleSave(selectedImage.id, true)}
                 disabled={selectedImage.isSaved}
@@ -671,25 +998,38 @@ const Results: React.FC<ResultsProps> = ({ sourceImage, sourceFile, onBack, onSa
                     <span className="text-white dark:text-white light:text-gray-900 transition-colors duration-300">{selectedImage.width} × {selectedImage.height}</span>
                   </div>
                 )}
+                {references && selectedImage.reference_similarities && (
+                  <div className="space-y-2 pt-2 border-t border-white/10">
+                    <span className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300 block text-xs">By reference photo:</span>
+                    <div className="flex flex-wrap gap-3">
+                      {selectedImage.reference_similarities.map((value, index) => references[index] && (
+                        <div key={index} className={`flex items-center gap-2 px-2 py-1 rounded-full border ${index === selectedImage.reference_index ? 'border-brand-secondary/60 bg-brand-secondary/10' : 'border-white/10'}`}>
+                          <img src={references[index].image} alt={`Reference ${index + 1}`} className="w-6 h-6 rounded-full object-cover" />
+                          <span className="text-xs text-white dark:text-white light:text-gray-900">
+                            {value > 0 ? `${Math.round(value * 100)}%` : '—'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
                 {/* ... existing metadata checks ... */}
                 {selectedImage.media_type === 'video' && selectedImage.timestamps && selectedImage.timestamps.length > 0 && (
                   <div className="space-y-2 pt-2 border-t border-white/10">
                     <span className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300 block text-xs">Appearances:</span>
                     <div className="flex flex-wrap gap-2">
-                      {selectedImage.timestamps.map((ts: number) => (
+                      {mergeTimestamps(selectedImage.timestamps).map((segment) => (
                         <button
-                          key={ts}
+                          key={segment.start}
                           onClick={() => {
-                            // Jump to timestamp
-                            // We are in 'info' mode, switch to 'fullscreen' and set time
-                            // To do this properly, we need to pass a "startAt" prop or update selectedImage
-                            const updatedImage = { ...selectedImage, timestamp: ts };
-                            setSelectedImage(updatedImage);
+                            // The fullscreen player starts at the selected timestamp
+                            setSelectedImage({ ...selectedImage, timestamp: segment.start });
                             setViewerMode('fullscreen');
                           }}
                           className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-white text-xs border border-white/10 transition-colors"
                         >
-                          {ts}s
+                          {formatDuration(segment.start)}–{formatDuration(segment.end)}
+                          {segment.timestamps.length > 1 && <span className="text-gray-400"> ({segment.timestamps.length} frames)</span>}
                         </button>
                       ))}
                     </div>
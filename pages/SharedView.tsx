@@ -0,0 +1,264 @@
+import React, { useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Lock, Link2Off, X, ChevronLeft, ChevronRight, Play, Loader2 } from 'lucide-react';
+import Logo from '../components/Logo';
+import { GradientButton, GlassCard } from '../components/UIComponents';
+import { getSharedContent, getSharedMedia, ApiError } from '../services/apiService';
+import { navigate } from '../services/router';
+import { PhotoResult, SharedContent } from '../types';
+
+interface SharedViewProps {
+  shareToken: string;
+  // Signed-in visitors get a way back into the app instead of a sign-in prompt
+  isAuthenticated?: boolean;
+}
+
+interface SharedMediaProps {
+  item: PhotoResult;
+  grant?: string;
+  alt?: string;
+  // Grid tiles show the first frame instead of a player
+  preview?: boolean;
+  autoPlay?: boolean;
+  className?: string;
+}
+
+/**
+ * Image or video loaded through the share link, so the page never holds a storage URL that outlives the link
+ */
+const SharedMedia: React.FC<SharedMediaProps> = ({ item, grant, alt, preview, autoPlay, className }) => {
+  const [src, setSrc] = useState('');
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let objectUrl = '';
+    setSrc('');
+    setFailed(false);
+    getSharedMedia(item.imageUrl, grant, controller.signal)
+      .then(blob => {
+        objectUrl = URL.createObjectURL(blob);
+        // Keep the clip fragment so playback is limited to the shared part
+        const fragment = item.imageUrl.includes('#') ? `#${item.imageUrl.split('#')[1]}` : '';
+        setSrc(preview && item.media_type === 'video' ? `${objectUrl}#t=0.01` : `${objectUrl}${fragment}`);
+      })
+      .catch((err: any) => {
+        if (err.name !== 'AbortError') setFailed(true);
+      });
+    return () => {
+      controller.abort();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [item.id, item.imageUrl, grant]);
+
+  if (!src) {
+    return (
+      <div className={`${className || ''} flex items-center justify-center min-h-[12rem] min-w-[12rem] bg-white/5`}>
+        {failed ? <Link2Off size={20} className="text-gray-500" /> : <Loader2 size={20} className="animate-spin text-brand-primary" />}
+      </div>
+    );
+  }
+  if (item.media_type === 'video') {
+    return preview
+      ? <video src={src} muted playsInline preload="metadata" className={className} />
+      : <video src={src} controls autoPlay={autoPlay} playsInline className={className} />;
+  }
+  return <img src={src} alt={alt} className={className} />;
+};
+
+/**
+ * Read-only viewer for a share link. Works without an account.
+ */
+const SharedView: React.FC<SharedViewProps> = ({ shareToken, isAuthenticated }) => {
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+
+  const open = async (attempt?: string, signal?: AbortSignal) => {
+    setLoading(true);
+    setError('');
+    try {
+      setContent(await getSharedContent(shareToken, attempt, signal));
+      setNeedsPassword(false);
+    } catch (err: any) {
+      if (err.name === 'AbortError') return;
+      if (err instanceof ApiError && err.data?.password_required) {
+        setNeedsPassword(true);
+        // The first request goes without a password, so only a rejected attempt is an error
+        if (attempt) setError(err.message);
+      } else {
+        setError(err.message || 'This link could not be opened');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const controller = new AbortController();
+    open(undefined, controller.signal);
+    return () => controller.abort();
+  }, [shareToken]);
+
+  useEffect(() => {
+    if (openIndex === null || !content) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setOpenIndex(null);
+      else if (e.key === 'ArrowLeft') setOpenIndex((openIndex - 1 + content.items.length) % content.items.length);
+      else if (e.key === 'ArrowRight') setOpenIndex((openIndex + 1) % content.items.length);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [openIndex, content]);
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password) open(password);
+  };
+
+  const opened = openIndex !== null && content ? content.items[openIndex] : null;
+
+  return (
+    <div className="min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-white px-4 py-8 transition-colors duration-300">
+      <div className="flex items-center justify-between max-w-5xl mx-auto mb-8">
+        <Logo size="sm" animated={false} />
+        <button
+          onClick={() => navigate(isAuthenticated ? { name: 'home' } : { name: 'signin' })}
+          className="px-4 py-2 rounded-full bg-white/10 dark:bg-white/10 light:bg-gray-100 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+        >
+          {isAuthenticated ? 'Open FaceFinder' : 'Sign in'}
+        </button>
+      </div>
+
+      {loading && !content ? (
+        <div className="flex justify-center py-24">
+          <Loader2 size={32} className="animate-spin text-brand-primary" />
+        </div>
+      ) : needsPassword ? (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="max-w-sm mx-auto">
+          <GlassCard className="p-8">
+            <div className="w-12 h-12 mx-auto mb-4 rounded-full bg-brand-primary/20 flex items-center justify-center text-brand-primary">
+              <Lock size={22} />
+            </div>
+            <h1 className="text-xl font-bold text-center text-white dark:text-white light:text-gray-900 mb-1">Password protected</h1>
+            <p className="text-sm text-center text-gray-400 dark:text-gray-400 light:text-gray-600 mb-6">Enter the password you were given to view this link</p>
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <input
+                type="password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                className="w-full px-4 py-3 bg-white/5 dark:bg-white/5 light:bg-gray-100 border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl text-white dark:text-white light:text-gray-900 placeholder-gray-500 focus:outline-none focus:border-brand-primary/60 transition-colors duration-300"
+              />
+              {error && <p className="text-sm text-red-400">{error}</p>}
+              <GradientButton fullWidth loading={loading}>Unlock</GradientButton>
+            </form>
+          </GlassCard>
+        </motion.div>
+      ) : error || !content ? (
+        <div className="flex flex-col items-center justify-center py-24 text-center">
+          <div className="w-16 h-16 border-2 border-dashed border-gray-600 rounded-2xl flex items-center justify-center mb-4 text-gray-500">
+            <Link2Off size={24} />
+          </div>
+          <p className="text-white dark:text-white light:text-gray-900 font-semibold mb-1">{error || 'This link could not be opened'}</p>
+          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600">Ask the person who shared it for a new link.</p>
+        </div>
+      ) : (
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="max-w-5xl mx-auto">
+          <h1 className="text-3xl font-display font-bold text-white dark:text-white light:text-gray-900 mb-1">{content.title}</h1>
+          <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 mb-6">
+            Shared by {content.owner_name}
+            {content.kind === 'album' && ` · ${content.items.length} ${content.items.length === 1 ? 'item' : 'items'}`}
+            {content.expires_at && ` · available until ${new Date(content.expires_at).toLocaleString()}`}
+          </p>
+
+          {content.items.length === 0 ? (
+            <p className="text-center text-gray-400 py-16">Nothing here yet.</p>
+          ) : content.kind === 'item' ? (
+            <div className="flex justify-center">
+              <SharedMedia
+                item={content.items[0]}
+                grant={content.media_grant}
+                alt={content.title}
+                className="max-h-[70vh] max-w-full object-contain rounded-2xl shadow-2xl"
+              />
+            </div>
+          ) : (
+            <div className="columns-2 md:columns-3 gap-4 space-y-4">
+              {content.items.map((item, index) => (
+                <div
+                  key={item.id}
+                  onClick={() => setOpenIndex(index)}
+                  className="relative break-inside-avoid rounded-2xl overflow-hidden cursor-pointer bg-black border border-white/5"
+                >
+                  {item.media_type === 'video' ? (
+                    <>
+                      <SharedMedia item={item} grant={content.media_grant} preview className="w-full h-full object-cover" />
+                      <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <div className="w-10 h-10 rounded-full bg-white/30 backdrop-blur-md flex items-center justify-center border border-white/40">
+                          <Play size={18} className="text-white fill-current ml-0.5" />
+                        </div>
+                      </div>
+                    </>
+                  ) : (
+                    <SharedMedia item={item} grant={content.media_grant} alt={`${content.title} ${index + 1}`} className="w-full h-full object-cover" />
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </motion.div>
+      )}
+
+      {/* Album lightbox */}
+      <AnimatePresence>
+        {opened && content && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-black/95 backdrop-blur-xl flex items-center justify-center p-4"
+            onClick={() => setOpenIndex(null)}
+          >
+            <button className="absolute top-6 right-6 p-2.5 rounded-full bg-white/10 hover:bg-white/20 text-white" onClick={() => setOpenIndex(null)}>
+              <X size={20} />
+            </button>
+            {content.items.length > 1 && (
+              <>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setOpenIndex((openIndex! - 1 + content.items.length) % content.items.length); }}
+                  className="absolute left-4 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white"
+                >
+                  <ChevronLeft size={24} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setOpenIndex((openIndex! + 1) % content.items.length); }}
+                  className="absolute right-4 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white"
+                >
+                  <ChevronRight size={24} />
+                </button>
+              </>
+            )}
+            <div onClick={(e) => e.stopPropagation()}>
+              <SharedMedia
+                key={opened.id}
+                item={opened}
+                grant={content.media_grant}
+                alt={content.title}
+                autoPlay
+                className="max-h-[80vh] max-w-full object-contain rounded-2xl"
+              />
+            </div>
+            <span className="absolute bottom-6 text-xs font-mono text-gray-400">{openIndex! + 1} / {content.items.length}</span>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default SharedView;
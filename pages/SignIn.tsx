@@ -6,11 +6,12 @@ import { GradientButton, GlassCard } from '../components/UIComponents';
 import { signIn } from '../services/apiService';
 
 interface SignInProps {
-  onSignInSuccess: (token: string, user: any) => void;
+  onSignInSuccess: (token: string, user: any, refreshToken?: string) => void;
   onSwitchToSignUp: () => void;
+  notice?: string;
 }
 
-const SignIn: React.FC<SignInProps> = ({ onSignInSuccess, onSwitchToSignUp }) => {
+const SignIn: React.FC<SignInProps> = ({ onSignInSuccess, onSwitchToSignUp, notice }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -42,7 +43,7 @@ const SignIn: React.FC<SignInProps> = ({ onSignInSuccess, onSwitchToSignUp }) =>
         localStorage.removeItem('rememberedEmail');
       }
       
-      onSignInSuccess(response.token, response.user);
+      onSignInSuccess(response.token, response.user, response.refresh_token);
     } catch (err: any) {
       setError(err.message || 'Failed to sign in');
     } finally {
@@ -69,6 +70,16 @@ const SignIn: React.FC<SignInProps> = ({ onSignInSuccess, onSwitchToSignUp }) =>
             Sign in to continue
           </p>
 
+          {notice && !error && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="mb-4 p-3 bg-yellow-500/20 border border-yellow-500/50 rounded-lg text-yellow-300 dark:text-yellow-300 light:text-yellow-700 text-sm"
+            >
+              {notice}
+            </motion.div>
+          )}
+
           {error && (
             <motion.div
               initial={{ opacity: 0, y: -10 }}
@@ -6,7 +6,7 @@ import { GradientButton, GlassCard } from '../components/UIComponents';
 import { signUp } from '../services/apiService';
 
 interface SignUpProps {
-  onSignUpSuccess: (token: string, user: any) => void;
+  onSignUpSuccess: (token: string, user: any, refreshToken?: string) => void;
   onSwitchToSignIn: () => void;
 }
 
@@ -38,7 +38,7 @@ const SignUp: React.FC<SignUpProps> = ({ onSignUpSuccess, onSwitchToSignIn }) =>
 
     try {
       const response = await signUp(name, email, password);
-      onSignUpSuccess(response.token, response.user);
+      onSignUpSuccess(response.token, response.user, response.refresh_token);
     } catch (err: any) {
       setError(err.message || 'Failed to sign up');
     } finally {
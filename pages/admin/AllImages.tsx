@@ -1,27 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Search, MoreVertical, Trash2, Edit2, Save, X, RefreshCw, Folder, FolderOpen, MapPin } from 'lucide-react';
-import { PhotoResult } from '../../types';
+import { Search, MoreVertical, Trash2, Edit2, Save, X, RefreshCw, Folder, FolderOpen, MapPin, FileText, AlertCircle, CheckSquare, Check, Tag, Calendar, Users } from 'lucide-react';
+import { PhotoResult, Person, DetectedFace } from '../../types';
 import { GlassCard, GradientButton } from '../../components/UIComponents';
-import { getAllImages, getAllTags, deleteImage, updateImage, getImageUrl } from '../../services/apiService';
+import { getAllImages, getPeople, createPerson, deleteImage, updateImage, tagFace, batchUpdateImages, batchDeleteImages, BatchImageResult, getImageUrl, isPermissionDenied } from '../../services/apiService';
+import { findPersonByName, formatFileSize } from '../../utils';
 import { showToast } from '../../components/Toast';
 import { Shimmer, ShimmerImage } from '../../components/Shimmer';
+import FaceClusters from '../../components/FaceClusters';
+import FaceBoxes from '../../components/FaceBoxes';
+import FaceThumbnail from '../../components/FaceThumbnail';
 
 interface AllImagesProps {
+  token: string | null;
   images?: PhotoResult[];
   onUpdate?: (id: string, updates: Partial<PhotoResult>) => void;
   onDelete?: (id: string) => void;
+  onPermissionDenied?: () => void;
+  // Image whose detail view is open, taken from the URL
+  imageId?: string | null;
+  onImageChange?: (imageId: string | null) => void;
 }
 
-const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onDelete }) => {
+// Date and place are read from the file on upload; only these still need typing in
+const missingMetadata = (img: PhotoResult): string[] => [
+  ...(img.datetime ? [] : ['date']),
+  ...(img.latitude !== undefined && img.longitude !== undefined ? [] : ['location']),
+];
+
+const AllImages: React.FC<AllImagesProps> = ({ token, images: propImages, onUpdate, onDelete, onPermissionDenied, imageId, onImageChange }) => {
   const [images, setImages] = useState<PhotoResult[]>(propImages || []);
   const [loading, setLoading] = useState(true);
   const [selectedImage, setSelectedImage] = useState<PhotoResult | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [editMode, setEditMode] = useState(false);
   const [editData, setEditData] = useState<Partial<PhotoResult>>({});
-  const [tags, setTags] = useState<string[]>([]);
-  const [selectedTag, setSelectedTag] = useState<string | null>(null);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [selectedPersonId, setSelectedPersonId] = useState<string | null>(null);
   const [showUntaggedOnly, setShowUntaggedOnly] = useState(true); // Default to showing untagged images
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [imageToDelete, setImageToDelete] = useState<PhotoResult | null>(null);
@@ -30,12 +45,25 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
   const [locationResults, setLocationResults] = useState<any[]>([]);
   const [showLocationPicker, setShowLocationPicker] = useState(false);
   const [loadingLocation, setLoadingLocation] = useState(false);
+  // Multi-select: ids of checked images, and the last one clicked as the start of shift-click ranges
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+  const [batchAction, setBatchAction] = useState<'tag' | 'metadata' | null>(null);
+  const [batchTag, setBatchTag] = useState('');
+  const [batchSaving, setBatchSaving] = useState(false);
+  // Suggested people among untagged images, in place of the grid
+  const [clusterMode, setClusterMode] = useState(false);
+  // Face picked on the detail image, and the one whose tag is being saved
+  const [selectedFaceId, setSelectedFaceId] = useState<string | null>(null);
+  const [taggingFaceId, setTaggingFaceId] = useState<string | null>(null);
 
-  // Fetch images and tags from API
+  // Fetch images and people from API
   useEffect(() => {
-    fetchTags();
+    fetchPeople();
     fetchImages();
-  }, [selectedTag, showUntaggedOnly]);
+    clearSelection();
+  }, [selectedPersonId, showUntaggedOnly]);
 
   // Update location display when selected image changes
   useEffect(() => {
@@ -48,12 +76,12 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
     }
   }, [selectedImage]);
 
-  const fetchTags = async () => {
+  const fetchPeople = async () => {
     try {
-      const tagList = await getAllTags();
-      setTags(tagList);
+      setPeople(await getPeople(token));
     } catch (error: any) {
-      console.error('Failed to fetch tags:', error);
+      if (isPermissionDenied(error)) return; // Reported once by fetchImages
+      console.error('Failed to fetch people:', error);
     }
   };
 
@@ -63,13 +91,13 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
       let data: PhotoResult[];
       if (showUntaggedOnly) {
         // Show only untagged images
-        data = await getAllImages(undefined, true);
-      } else if (selectedTag) {
-        // Show only images with the selected tag
-        data = await getAllImages(selectedTag);
+        data = await getAllImages(token, undefined, true);
+      } else if (selectedPersonId) {
+        // Show only images of the selected person
+        data = await getAllImages(token, selectedPersonId);
       } else {
         // Default: show untagged images
-        data = await getAllImages(undefined, true);
+        data = await getAllImages(token, undefined, true);
       }
       
       // Process images to format URLs and add isSaved flag
@@ -81,6 +109,10 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
       }));
       setImages(processedData);
     } catch (error: any) {
+      if (isPermissionDenied(error) && onPermissionDenied) {
+        onPermissionDenied();
+        return;
+      }
       showToast(error.message || 'Failed to fetch images', 'error');
     } finally {
       setLoading(false);
@@ -88,18 +120,18 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
   };
 
   // Filtering - search by ID, tagged_by (profile name), or format
-  // When searching by profile name, automatically filter by that tag
+  // When searching by a person's name or alias, automatically filter by that person
   useEffect(() => {
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
-      // Check if search query matches any tag
-      const matchingTag = tags.find(tag => tag.toLowerCase().includes(query));
-      if (matchingTag && matchingTag !== selectedTag) {
-        setSelectedTag(matchingTag);
+      const matchingPerson = people.find(person =>
+        [person.name, ...person.aliases].some(name => name.toLowerCase().includes(query)));
+      if (matchingPerson && matchingPerson.id !== selectedPersonId) {
+        setSelectedPersonId(matchingPerson.id);
         setShowUntaggedOnly(false);
       }
     }
-  }, [searchQuery, tags]);
+  }, [searchQuery, people]);
 
   const filteredImages = images.filter(img => {
     if (!searchQuery) return true;
@@ -210,11 +242,13 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
 
   const openEdit = (img: PhotoResult) => {
     setSelectedImage(img);
+    setSelectedFaceId(null);
     setEditData({
       datetime: img.datetime || '',
       latitude: img.latitude,
       longitude: img.longitude,
-      tagged_by: img.tagged_by || '',
+      person_id: img.person_id || '',
+      tagged_by: img.tagged_by,
     });
     setEditMode(false);
     setLocationSearch('');
@@ -222,12 +256,58 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
     setShowLocationPicker(false);
   };
 
+  // Open (or close) the image named in the URL, switching to its folder when it is not listed
+  useEffect(() => {
+    if (loading) return;
+    if (!imageId) {
+      setSelectedImage(null);
+      return;
+    }
+    if (selectedImage?.id === imageId) return;
+
+    const match = images.find(img => img.id === imageId);
+    if (match) {
+      openEdit(match);
+      return;
+    }
+    getAllImages(token)
+      .then((all) => {
+        const target = all.find(img => img.id === imageId);
+        if (!target) {
+          showToast('Image not found', 'error');
+          onImageChange?.(null);
+          return;
+        }
+        openEdit({ ...target, imageUrl: getImageUrl(target.imageUrl) });
+        if (target.person_id) {
+          setSelectedPersonId(target.person_id);
+          setShowUntaggedOnly(false);
+        }
+      })
+      .catch((error: any) => {
+        if (isPermissionDenied(error) && onPermissionDenied) {
+          onPermissionDenied();
+          return;
+        }
+        showToast(error.message || 'Failed to load image', 'error');
+      });
+  }, [imageId, loading]);
+
+  // Keep the URL in step with the open image
+  useEffect(() => {
+    if (loading) return;
+    onImageChange?.(selectedImage?.id ?? null);
+  }, [selectedImage?.id]);
+
   const handleSave = async () => {
     if (selectedImage) {
       try {
-        await updateImage(selectedImage.id, editData);
+        await updateImage(token, selectedImage.id, editData);
         // Update local state
-        const updatedImage = { ...selectedImage, ...editData };
+        const metadataChanged = (editData.datetime || undefined) !== selectedImage.datetime
+          || editData.latitude !== selectedImage.latitude
+          || editData.longitude !== selectedImage.longitude;
+        const updatedImage: PhotoResult = { ...selectedImage, ...editData, ...(metadataChanged ? { metadata_source: 'manual' as const } : {}) };
         setImages(prev => prev.map(img => img.id === selectedImage.id ? updatedImage : img));
         setSelectedImage(updatedImage);
         setEditMode(false);
@@ -243,20 +323,58 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
           onUpdate(selectedImage.id, editData);
         }
       } catch (error: any) {
+        if (isPermissionDenied(error) && onPermissionDenied) {
+          onPermissionDenied();
+          return;
+        }
         showToast(error.message || 'Failed to update image', 'error');
       }
     }
   };
 
+  const handleFaceTag = async (face: DetectedFace, personId: string | null) => {
+    if (!selectedImage) return;
+    setTaggingFaceId(face.id);
+    try {
+      const updated = await tagFace(token, selectedImage.id, face.id, personId);
+      // Tagging a face can also tag an untagged image as a whole
+      const changes: Partial<PhotoResult> = { faces: updated.faces, person_id: updated.person_id, tagged_by: updated.tagged_by };
+      const updatedImage: PhotoResult = { ...selectedImage, ...changes };
+      setImages(prev => prev.map(img => img.id === selectedImage.id ? updatedImage : img));
+      setSelectedImage(updatedImage);
+      setEditData(prev => ({ ...prev, person_id: updated.person_id || '', tagged_by: updated.tagged_by }));
+      onUpdate?.(selectedImage.id, changes);
+    } catch (error: any) {
+      if (isPermissionDenied(error) && onPermissionDenied) {
+        onPermissionDenied();
+        return;
+      }
+      showToast(error.message || 'Failed to tag face', 'error');
+    } finally {
+      setTaggingFaceId(null);
+    }
+  };
+
+  // Missing date/location: jump straight to the fields that need filling in
+  const handleAddMissingMetadata = () => {
+    if (!selectedImage) return;
+    setEditMode(true);
+    setShowLocationPicker(missingMetadata(selectedImage).includes('location'));
+  };
+
   const handleDeleteClick = (image: PhotoResult) => {
     setImageToDelete(image);
     setShowDeleteModal(true);
   };
 
   const handleDeleteConfirm = async () => {
+    if (!imageToDelete) {
+      await handleBatchDelete();
+      return;
+    }
     if (imageToDelete) {
       try {
-        await deleteImage(imageToDelete.id);
+        await deleteImage(token, imageToDelete.id);
         setImages(prev => prev.filter(img => img.id !== imageToDelete.id));
         if (selectedImage && selectedImage.id === imageToDelete.id) {
           setSelectedImage(null);
@@ -268,6 +386,10 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
         setShowDeleteModal(false);
         setImageToDelete(null);
       } catch (error: any) {
+        if (isPermissionDenied(error) && onPermissionDenied) {
+          onPermissionDenied();
+          return;
+        }
         showToast(error.message || 'Failed to delete image', 'error');
       }
     }
@@ -278,13 +400,210 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
     setImageToDelete(null);
   };
 
-  const formatFileSize = (bytes?: number) => {
-    if (!bytes) return 'Unknown';
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const handleClusterModeClick = () => {
+    setClusterMode(true);
+    setSelectedPersonId(null);
+    setShowUntaggedOnly(true);
   };
 
+  // A named cluster's images are tagged now, so they leave the untagged list
+  const handleClusterTagged = (imageIds: string[], person: Person) => {
+    const tagged = new Set(imageIds);
+    setImages(prev => prev.filter(img => !tagged.has(img.id)));
+    imageIds.forEach(id => onUpdate?.(id, { person_id: person.id, tagged_by: person.name }));
+    fetchPeople();
+  };
+
+  const clearSelection = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+    setSelectionAnchor(null);
+  };
+
+  // Click toggles one image; shift-click selects everything between it and the previous click
+  const handleTileClick = (event: React.MouseEvent, img: PhotoResult) => {
+    if (!selectMode && !event.shiftKey && !event.metaKey && !event.ctrlKey) {
+      openEdit(img);
+      return;
+    }
+    setSelectMode(true);
+    const anchorIndex = selectionAnchor ? filteredImages.findIndex(other => other.id === selectionAnchor) : -1;
+    const index = filteredImages.findIndex(other => other.id === img.id);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (event.shiftKey && anchorIndex !== -1) {
+        filteredImages
+          .slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+          .forEach(other => next.add(other.id));
+      } else if (next.has(img.id)) {
+        next.delete(img.id);
+      } else {
+        next.add(img.id);
+      }
+      return next;
+    });
+    setSelectionAnchor(img.id);
+  };
+
+  const handleSelectAll = () => {
+    setSelectMode(true);
+    setSelectedIds(new Set(filteredImages.map(img => img.id)));
+  };
+
+  const openBatchAction = (action: 'tag' | 'metadata') => {
+    setBatchAction(action);
+    setBatchTag(people.find(person => person.id === selectedPersonId)?.name || '');
+    setEditData({});
+    setLocationDisplay('');
+    setLocationSearch('');
+    setLocationResults([]);
+    setShowLocationPicker(false);
+  };
+
+  const reportBatchResult = (result: BatchImageResult, verb: string) => {
+    const count = result.ids.length;
+    if (result.failed_ids.length > 0) {
+      showToast(`${verb} ${count} of ${count + result.failed_ids.length} images; the rest no longer exist`, 'info');
+    } else {
+      showToast(`${verb} ${count} ${count === 1 ? 'image' : 'images'}`, 'success');
+    }
+  };
+
+  const handleBatchSave = async () => {
+    const ids: string[] = Array.from(selectedIds);
+    const name = batchTag.trim();
+    let person = batchAction === 'tag' ? findPersonByName(people, name) : undefined;
+    const updates: Partial<PhotoResult> = batchAction === 'tag'
+      ? { person_id: person?.id ?? '' }
+      : {
+        ...(editData.datetime ? { datetime: editData.datetime } : {}),
+        ...(editData.latitude !== undefined && editData.longitude !== undefined ? { latitude: editData.latitude, longitude: editData.longitude } : {}),
+      };
+    if (Object.keys(updates).length === 0) {
+      showToast('Set a date or location first', 'info');
+      return;
+    }
+
+    setBatchSaving(true);
+    try {
+      // A name nobody goes by yet is a new person
+      if (batchAction === 'tag' && name && !person) {
+        person = await createPerson(token, { name });
+        updates.person_id = person.id;
+      }
+      const result = await batchUpdateImages(token, ids, updates);
+      const updated = new Set(result.ids);
+      const localUpdates: Partial<PhotoResult> = batchAction === 'tag'
+        ? { person_id: person?.id, tagged_by: person?.name }
+        : { ...updates, metadata_source: 'manual' };
+      // Images tagged or moved elsewhere leave the folder being viewed
+      const leavesFolder = batchAction === 'tag' && (person?.id ?? null) !== (showUntaggedOnly ? null : selectedPersonId);
+      setImages(prev => leavesFolder
+        ? prev.filter(img => !updated.has(img.id))
+        : prev.map(img => updated.has(img.id) ? { ...img, ...localUpdates } : img));
+      result.ids.forEach(id => onUpdate?.(id, localUpdates));
+      if (batchAction === 'tag') {
+        fetchPeople();
+      }
+      reportBatchResult(result, batchAction === 'tag' ? (person ? 'Tagged' : 'Untagged') : 'Updated');
+      setBatchAction(null);
+      clearSelection();
+    } catch (error: any) {
+      if (isPermissionDenied(error) && onPermissionDenied) {
+        onPermissionDenied();
+        return;
+      }
+      showToast(error.message || 'Failed to update images', 'error');
+    } finally {
+      setBatchSaving(false);
+    }
+  };
+
+  const handleBatchDelete = async () => {
+    setBatchSaving(true);
+    try {
+      const result = await batchDeleteImages(token, Array.from(selectedIds));
+      // Ids the server no longer has are gone either way
+      const removed = new Set([...result.ids, ...result.failed_ids]);
+      setImages(prev => prev.filter(img => !removed.has(img.id)));
+      result.ids.forEach(id => onDelete?.(id));
+      reportBatchResult(result, 'Deleted');
+      setShowDeleteModal(false);
+      clearSelection();
+      fetchPeople();
+    } catch (error: any) {
+      if (isPermissionDenied(error) && onPermissionDenied) {
+        onPermissionDenied();
+        return;
+      }
+      showToast(error.message || 'Failed to delete images', 'error');
+    } finally {
+      setBatchSaving(false);
+    }
+  };
+
+  // Shared by the single-image form and the batch date/location form; both write to editData
+  const renderLocationField = () => (
+    <div>
+        <label className="text-xs text-gray-500 uppercase font-bold">Location</label>
+        <div className="mt-1 space-y-2">
+            {locationDisplay || (editData.latitude && editData.longitude) ? (
+                <div className="flex items-center gap-2 text-white text-sm p-2 bg-white/5 rounded border border-transparent">
+                    <MapPin size={14} />
+                    <span>{locationDisplay || 'Location set'}</span>
+                </div>
+            ) : (
+                <div className="text-xs text-gray-400 p-2 bg-white/5 rounded border border-transparent">No location set</div>
+            )}
+            <button
+                type="button"
+                onClick={() => setShowLocationPicker(!showLocationPicker)}
+                className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white py-2 rounded-lg transition-colors text-sm"
+            >
+                <MapPin size={14} />
+                {showLocationPicker ? 'Hide Location Picker' : (editData.latitude && editData.longitude ? 'Change Location' : 'Add Location')}
+            </button>
+            {showLocationPicker && (
+                <div className="space-y-2">
+                    <input
+                        type="text"
+                        value={locationSearch}
+                        onChange={(e) => setLocationSearch(e.target.value)}
+                        placeholder="Search for city, state, country..."
+                        className="w-full bg-white/10 border border-purple-500/50 rounded p-2 text-white outline-none text-sm"
+                    />
+                    {loadingLocation && (
+                        <div className="text-xs text-gray-400 text-center py-2">Searching...</div>
+                    )}
+                    {locationResults.length > 0 && (
+                        <div className="max-h-40 overflow-y-auto bg-white/5 rounded border border-white/10">
+                            {locationResults.map((loc, idx) => (
+                                <button
+                                    key={idx}
+                                    type="button"
+                                    onClick={() => handleLocationSelect(loc)}
+                                    className="w-full text-left px-3 py-2 hover:bg-white/10 text-white text-sm border-b border-white/5 last:border-0"
+                                >
+                                    <div className="font-medium">{loc.display_name}</div>
+                                    {loc.address && (
+                                        <div className="text-xs text-gray-400 mt-1">
+                                            {[
+                                                loc.address.city || loc.address.town || loc.address.village,
+                                                loc.address.state || loc.address.province,
+                                                loc.address.country_code?.toUpperCase()
+                                            ].filter(Boolean).join(', ')}
+                                        </div>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+
   const formatDate = (dateStr?: string) => {
     if (!dateStr) return 'Unknown';
     try {
@@ -338,25 +657,27 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
     );
   }
 
-  const handleTagClick = (tag: string | null) => {
-    if (selectedTag === tag) {
-      // Clicking the same tag deselects it and shows untagged
-      setSelectedTag(null);
+  const handlePersonClick = (personId: string) => {
+    setClusterMode(false);
+    if (selectedPersonId === personId) {
+      // Clicking the same person deselects them and shows untagged
+      setSelectedPersonId(null);
       setShowUntaggedOnly(true);
     } else {
-      setSelectedTag(tag);
+      setSelectedPersonId(personId);
       setShowUntaggedOnly(false);
     }
   };
 
   const handleUntaggedClick = () => {
+    setClusterMode(false);
     if (showUntaggedOnly) {
       // Already showing untagged, do nothing (or could toggle to show all)
       // For now, keep it selected
       return;
     } else {
       setShowUntaggedOnly(true);
-      setSelectedTag(null);
+      setSelectedPersonId(null);
     }
   };
 
@@ -367,7 +688,7 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
           <h1 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Database Explorer</h1>
           <button
             onClick={() => {
-              fetchTags();
+              fetchPeople();
               fetchImages();
             }}
             className="p-2 rounded-full bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 transition-colors duration-300 shadow-sm light:shadow"
@@ -383,47 +704,126 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
             <button
               onClick={handleUntaggedClick}
               className={`flex items-center gap-2 px-4 py-2 rounded-xl transition-colors duration-300 ${
-                showUntaggedOnly
+                showUntaggedOnly && !clusterMode
                   ? 'bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700'
                   : 'bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700 border border-white/10 dark:border-white/10 light:border-gray-200'
               }`}
             >
-              {showUntaggedOnly ? <FolderOpen size={16} /> : <Folder size={16} />}
+              {showUntaggedOnly && !clusterMode ? <FolderOpen size={16} /> : <Folder size={16} />}
               <span className="text-sm font-medium">Untagged</span>
             </button>
+
+            <button
+              onClick={handleClusterModeClick}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl transition-colors duration-300 ${
+                clusterMode
+                  ? 'bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700'
+                  : 'bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700 border border-white/10 dark:border-white/10 light:border-gray-200'
+              }`}
+            >
+              <Users size={16} />
+              <span className="text-sm font-medium">Suggested People</span>
+            </button>
             
-            {tags.map((tag) => (
+            {people.map((person) => (
               <button
-                key={tag}
-                onClick={() => handleTagClick(tag)}
+                key={person.id}
+                onClick={() => handlePersonClick(person.id)}
                 className={`flex items-center gap-2 px-4 py-2 rounded-xl transition-colors duration-300 ${
-                  selectedTag === tag
+                  selectedPersonId === person.id
                     ? 'bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700'
                     : 'bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700 border border-white/10 dark:border-white/10 light:border-gray-200'
                 }`}
               >
-                {selectedTag === tag ? <FolderOpen size={16} /> : <Folder size={16} />}
-                <span className="text-sm font-medium">{tag}</span>
+                {selectedPersonId === person.id ? <FolderOpen size={16} /> : <Folder size={16} />}
+                <span className="text-sm font-medium">{person.name}</span>
               </button>
             ))}
           </div>
         </div>
         
         {/* Search Bar */}
-        <div className="relative">
-            <Search className="absolute left-4 top-3.5 text-gray-400 dark:text-gray-400 light:text-gray-500 transition-colors duration-300" size={20} />
-            <input 
-                type="text"
-                placeholder="Search by ID, Tagged By (profile name), or Format..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="w-full bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl pl-12 pr-4 py-3 text-white dark:text-white light:text-gray-900 placeholder-gray-500 dark:placeholder-gray-500 light:placeholder-gray-400 focus:outline-none focus:border-purple-500 dark:focus:border-purple-500 light:focus:border-purple-600 transition-colors duration-300 shadow-sm light:shadow"
-            />
-        </div>
+        {!clusterMode && (
+          <div className="relative">
+              <Search className="absolute left-4 top-3.5 text-gray-400 dark:text-gray-400 light:text-gray-500 transition-colors duration-300" size={20} />
+              <input 
+                  type="text"
+                  placeholder="Search by ID, Tagged By (profile name), or Format..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl pl-12 pr-4 py-3 text-white dark:text-white light:text-gray-900 placeholder-gray-500 dark:placeholder-gray-500 light:placeholder-gray-400 focus:outline-none focus:border-purple-500 dark:focus:border-purple-500 light:focus:border-purple-600 transition-colors duration-300 shadow-sm light:shadow"
+              />
+          </div>
+        )}
+
+        {/* Selection - shift-click a second image to select the range between */}
+        {!loading && !clusterMode && filteredImages.length > 0 && (
+          <div className="sticky top-20 z-30 mt-3 flex flex-wrap items-center gap-2">
+            {selectMode ? (
+              <>
+                <span className="text-sm font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300 mr-auto">
+                  {selectedIds.size} selected
+                </span>
+                <button
+                  onClick={selectedIds.size === filteredImages.length ? () => setSelectedIds(new Set()) : handleSelectAll}
+                  className="px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 text-gray-300 dark:text-gray-300 light:text-gray-700 transition-colors duration-300"
+                >
+                  {selectedIds.size === filteredImages.length ? 'Select none' : `Select all ${filteredImages.length}`}
+                </button>
+                <button
+                  onClick={() => openBatchAction('tag')}
+                  disabled={selectedIds.size === 0}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700 disabled:opacity-40 transition-colors duration-300"
+                >
+                  <Tag size={12} /> {showUntaggedOnly ? 'Tag' : 'Move'}
+                </button>
+                <button
+                  onClick={() => openBatchAction('metadata')}
+                  disabled={selectedIds.size === 0}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700 disabled:opacity-40 transition-colors duration-300"
+                >
+                  <Calendar size={12} /> Date &amp; Location
+                </button>
+                <button
+                  onClick={() => {
+                    setImageToDelete(null);
+                    setShowDeleteModal(true);
+                  }}
+                  disabled={selectedIds.size === 0}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-red-500/10 dark:bg-red-500/10 light:bg-red-100 border border-red-500/20 dark:border-red-500/20 light:border-red-300 text-red-400 dark:text-red-400 light:text-red-700 disabled:opacity-40 transition-colors duration-300"
+                >
+                  <Trash2 size={12} /> Delete
+                </button>
+                <button
+                  onClick={clearSelection}
+                  className="p-1.5 rounded-lg text-gray-400 dark:text-gray-400 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
+                  title="Cancel selection"
+                >
+                  <X size={16} />
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setSelectMode(true)}
+                className="ml-auto flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 text-gray-300 dark:text-gray-300 light:text-gray-700 transition-colors duration-300"
+              >
+                <CheckSquare size={12} /> Select
+              </button>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Image Grid */}
-      {filteredImages.length === 0 && !loading ? (
+      {clusterMode ? (
+        <FaceClusters
+          token={token}
+          people={people}
+          onTagged={handleClusterTagged}
+          onOpenImage={openEdit}
+          onPermissionDenied={onPermissionDenied}
+        />
+      ) : filteredImages.length === 0 && !loading ? (
         <div className="text-center py-12">
           <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">No images found</p>
         </div>
@@ -433,8 +833,12 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
               <motion.div 
                  key={img.id}
                  layoutId={`admin-img-${img.id}`}
-                 onClick={() => openEdit(img)}
-                 className="aspect-square rounded-lg overflow-hidden relative group cursor-pointer border border-white/5 dark:border-white/5 light:border-gray-200 hover:border-purple-500/50 dark:hover:border-purple-500/50 light:hover:border-purple-400 transition-colors duration-300 shadow-sm light:shadow"
+                 onClick={(e) => handleTileClick(e, img)}
+                 className={`aspect-square rounded-lg overflow-hidden relative group cursor-pointer border transition-colors duration-300 shadow-sm light:shadow select-none ${
+                   selectedIds.has(img.id)
+                     ? 'border-purple-500 ring-2 ring-purple-500/60'
+                     : 'border-white/5 dark:border-white/5 light:border-gray-200 hover:border-purple-500/50 dark:hover:border-purple-500/50 light:hover:border-purple-400'
+                 }`}
               >
                  <img 
                    src={img.imageUrl} 
@@ -446,7 +850,19 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                  />
                  <div className="absolute inset-0 bg-gradient-to-t from-black/80 dark:from-black/80 light:from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-3">
                      <span className="text-xs text-white dark:text-white light:text-white font-bold transition-colors duration-300">{img.tagged_by || 'Untagged'}</span>
+                     {missingMetadata(img).length > 0 && (
+                       <span className="flex items-center gap-1 text-[10px] text-amber-300 mt-0.5">
+                         <AlertCircle size={10} /> No {missingMetadata(img).join(' or ')}
+                       </span>
+                     )}
                  </div>
+                 {selectMode && (
+                   <div className={`absolute top-2 left-2 w-5 h-5 rounded-md border flex items-center justify-center ${
+                     selectedIds.has(img.id) ? 'bg-purple-500 border-purple-500' : 'bg-black/40 border-white/60'
+                   }`}>
+                     {selectedIds.has(img.id) && <Check size={12} className="text-white" />}
+                   </div>
+                 )}
                  {/* Status Indicator - Green for tagged, Orange for untagged */}
                  <div className={`absolute top-2 right-2 w-2 h-2 rounded-full ${
                    img.tagged_by 
@@ -466,20 +882,29 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                 className="fixed inset-0 z-[60] bg-black/90 dark:bg-black/90 light:bg-black/70 backdrop-blur-lg flex items-center justify-center p-4 transition-colors duration-300"
             >
                 <GlassCard className="w-full max-w-md overflow-hidden flex flex-col max-h-[90vh] !p-0 border-purple-500/30 dark:border-purple-500/30 light:border-purple-500/40">
-                    <div className="relative h-64 bg-black/50 dark:bg-black/50 light:bg-gray-100 transition-colors duration-300">
-                        <img 
-                          src={selectedImage.imageUrl} 
-                          className="w-full h-full object-contain"
-                          onError={(e) => {
-                            (e.target as HTMLImageElement).src = 'https://via.placeholder.com/400x400?text=Image+Not+Found';
-                          }}
-                        />
+                    <div className="relative h-64 flex-shrink-0 flex items-center justify-center bg-black/50 dark:bg-black/50 light:bg-gray-100 transition-colors duration-300">
+                        <div className="relative inline-block">
+                            <img 
+                              src={selectedImage.imageUrl} 
+                              className="block max-h-64 max-w-full object-contain"
+                              onError={(e) => {
+                                (e.target as HTMLImageElement).src = 'https://via.placeholder.com/400x400?text=Image+Not+Found';
+                              }}
+                            />
+                            {selectedImage.faces && (
+                                <FaceBoxes
+                                  faces={selectedImage.faces}
+                                  selectedFaceId={selectedFaceId}
+                                  onSelect={(face) => setSelectedFaceId(face.id === selectedFaceId ? null : face.id)}
+                                />
+                            )}
+                        </div>
                         <button onClick={() => setSelectedImage(null)} className="absolute top-4 right-4 p-2 bg-black/50 dark:bg-black/50 light:bg-white/80 rounded-full text-white dark:text-white light:text-gray-900 transition-colors duration-300 shadow-sm light:shadow">
                             <X size={20} />
                         </button>
                     </div>
 
-                    <div className="p-6">
+                    <div className="p-6 overflow-y-auto">
                         <div className="flex justify-between items-start mb-4">
                             <div>
                                 <h2 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Image Details</h2>
@@ -510,6 +935,12 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                                     <span className="text-white">{formatFileSize(selectedImage.file_size)}</span>
                                 </div>
                             )}
+                            {selectedImage.datetime && !editMode && (
+                                <div className="flex justify-between">
+                                    <span className="text-gray-400">Taken:</span>
+                                    <span className="text-white">{new Date(selectedImage.datetime).toLocaleString()}</span>
+                                </div>
+                            )}
                             {(selectedImage.latitude && selectedImage.longitude) && !editMode && (
                                 <div className="flex justify-between">
                                     <span className="text-gray-400">Location:</span>
@@ -518,8 +949,65 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                                     </span>
                                 </div>
                             )}
+                            {selectedImage.metadata_source && !editMode && (
+                                <div className="flex items-center justify-end gap-1 text-xs text-gray-500">
+                                    {selectedImage.metadata_source === 'file' ? <FileText size={12} /> : <Edit2 size={12} />}
+                                    {selectedImage.metadata_source === 'file' ? 'Read from file metadata' : 'Entered manually'}
+                                </div>
+                            )}
                         </div>
 
+                        {/* Everyone in the photo, tagged face by face */}
+                        {selectedImage.faces && selectedImage.faces.length > 0 && (
+                            <div className="mb-6">
+                                <span className="text-xs text-gray-500 uppercase font-bold">Faces ({selectedImage.faces.length})</span>
+                                <div className="space-y-2 mt-2">
+                                    {selectedImage.faces.map((face, index) => (
+                                        <div
+                                            key={face.id}
+                                            onClick={() => setSelectedFaceId(face.id)}
+                                            className={`flex items-center gap-3 p-2 rounded-xl border transition-colors duration-300 ${
+                                                face.id === selectedFaceId
+                                                    ? 'border-purple-500/60 bg-purple-500/10'
+                                                    : 'border-white/10 dark:border-white/10 light:border-gray-200'
+                                            }`}
+                                        >
+                                            <FaceThumbnail src={selectedImage.imageUrl} face={face.box} className="w-10 h-10 rounded-lg flex-shrink-0" />
+                                            <span className="text-xs text-gray-400 w-12">Face {index + 1}</span>
+                                            <select
+                                                value={face.person_id || ''}
+                                                disabled={taggingFaceId === face.id}
+                                                onChange={(e) => handleFaceTag(face, e.target.value || null)}
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="flex-1 bg-white/10 border border-purple-500/50 rounded p-1.5 text-sm text-white outline-none disabled:opacity-50"
+                                            >
+                                                <option value="">Untagged</option>
+                                                {people.map((person) => (
+                                                    <option key={person.id} value={person.id}>{person.name}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Fall back to manual entry when the file carried no date or location */}
+                        {!editMode && missingMetadata(selectedImage).length > 0 && (
+                            <div className="flex items-center gap-3 mb-6 p-3 rounded-xl bg-amber-500/10 dark:bg-amber-500/10 light:bg-amber-50 border border-amber-500/30 dark:border-amber-500/30 light:border-amber-300 transition-colors duration-300">
+                                <AlertCircle size={18} className="text-amber-400 dark:text-amber-400 light:text-amber-600 flex-shrink-0" />
+                                <p className="flex-1 text-xs text-amber-200 dark:text-amber-200 light:text-amber-800 transition-colors duration-300">
+                                    The file had no {missingMetadata(selectedImage).join(' or ')} in its metadata.
+                                </p>
+                                <button
+                                    onClick={handleAddMissingMetadata}
+                                    className="text-xs font-semibold text-amber-300 dark:text-amber-300 light:text-amber-700 hover:underline whitespace-nowrap"
+                                >
+                                    Add manually
+                                </button>
+                            </div>
+                        )}
+
                         {/* Edit Form */}
                         {editMode && (
                             <div className="space-y-4 mb-6">
@@ -544,75 +1032,22 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                                     />
                                 </div>
                                 
-                                <div>
-                                    <label className="text-xs text-gray-500 uppercase font-bold">Location</label>
-                                    <div className="mt-1 space-y-2">
-                                        {locationDisplay || (editData.latitude && editData.longitude) ? (
-                                            <div className="flex items-center gap-2 text-white text-sm p-2 bg-white/5 rounded border border-transparent">
-                                                <MapPin size={14} />
-                                                <span>{locationDisplay || 'Location set'}</span>
-                                            </div>
-                                        ) : (
-                                            <div className="text-xs text-gray-400 p-2 bg-white/5 rounded border border-transparent">No location set</div>
-                                        )}
-                                        <button
-                                            type="button"
-                                            onClick={() => setShowLocationPicker(!showLocationPicker)}
-                                            className="w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white py-2 rounded-lg transition-colors text-sm"
-                                        >
-                                            <MapPin size={14} />
-                                            {showLocationPicker ? 'Hide Location Picker' : (editData.latitude && editData.longitude ? 'Change Location' : 'Add Location')}
-                                        </button>
-                                        {showLocationPicker && (
-                                            <div className="space-y-2">
-                                                <input
-                                                    type="text"
-                                                    value={locationSearch}
-                                                    onChange={(e) => setLocationSearch(e.target.value)}
-                                                    placeholder="Search for city, state, country..."
-                                                    className="w-full bg-white/10 border border-purple-500/50 rounded p-2 text-white outline-none text-sm"
-                                                />
-                                                {loadingLocation && (
-                                                    <div className="text-xs text-gray-400 text-center py-2">Searching...</div>
-                                                )}
-                                                {locationResults.length > 0 && (
-                                                    <div className="max-h-40 overflow-y-auto bg-white/5 rounded border border-white/10">
-                                                        {locationResults.map((loc, idx) => (
-                                                            <button
-                                                                key={idx}
-                                                                type="button"
-                                                                onClick={() => handleLocationSelect(loc)}
-                                                                className="w-full text-left px-3 py-2 hover:bg-white/10 text-white text-sm border-b border-white/5 last:border-0"
-                                                            >
-                                                                <div className="font-medium">{loc.display_name}</div>
-                                                                {loc.address && (
-                                                                    <div className="text-xs text-gray-400 mt-1">
-                                                                        {[
-                                                                            loc.address.city || loc.address.town || loc.address.village,
-                                                                            loc.address.state || loc.address.province,
-                                                                            loc.address.country_code?.toUpperCase()
-                                                                        ].filter(Boolean).join(', ')}
-                                                                    </div>
-                                                                )}
-                                                            </button>
-                                                        ))}
-                                                    </div>
-                                                )}
-                                            </div>
-                                        )}
-                                    </div>
-                                </div>
+                                {renderLocationField()}
                                 
                                 <div>
                                     <label className="text-xs text-gray-500 uppercase font-bold">Tag</label>
                                     <select
-                                        value={editData.tagged_by || ''}
-                                        onChange={(e) => setEditData({...editData, tagged_by: e.target.value || undefined})}
+                                        value={editData.person_id || ''}
+                                        onChange={(e) => setEditData({
+                                            ...editData,
+                                            person_id: e.target.value,
+                                            tagged_by: people.find(person => person.id === e.target.value)?.name,
+                                        })}
                                         className="w-full mt-1 bg-white/10 border border-purple-500/50 rounded p-2 text-white outline-none"
                                     >
                                         <option value="">Untagged</option>
-                                        {tags.map((tag) => (
-                                            <option key={tag} value={tag}>{tag}</option>
+                                        {people.map((person) => (
+                                            <option key={person.id} value={person.id}>{person.name}</option>
                                         ))}
                                     </select>
                                 </div>
@@ -649,7 +1084,7 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
 
       {/* Delete Confirmation Modal */}
       <AnimatePresence>
-        {showDeleteModal && imageToDelete && (
+        {showDeleteModal && (imageToDelete || selectedIds.size > 0) && (
           <motion.div
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
@@ -669,13 +1104,17 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                   <Trash2 size={24} className="text-red-400 dark:text-red-400 light:text-red-600 transition-colors duration-300" />
                 </div>
                 <div>
-                  <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Delete Image</h3>
+                  <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                    {imageToDelete ? 'Delete Image' : `Delete ${selectedIds.size} ${selectedIds.size === 1 ? 'Image' : 'Images'}`}
+                  </h3>
                   <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">This action cannot be undone</p>
                 </div>
               </div>
               
               <p className="text-gray-300 dark:text-gray-300 light:text-gray-700 mb-6 transition-colors duration-300">
-                Are you sure you want to permanently delete this image from the database?
+                {imageToDelete
+                  ? 'Are you sure you want to permanently delete this image from the database?'
+                  : `Are you sure you want to permanently delete ${selectedIds.size === 1 ? 'this image' : `these ${selectedIds.size} images`} from the database?`}
               </p>
 
               <div className="flex gap-3">
@@ -687,10 +1126,127 @@ const AllImages: React.FC<AllImagesProps> = ({ images: propImages, onUpdate, onD
                 </button>
                 <button
                   onClick={handleDeleteConfirm}
-                  className="flex-1 px-4 py-2 bg-red-500/20 dark:bg-red-500/20 light:bg-red-100 hover:bg-red-500/30 dark:hover:bg-red-500/30 light:hover:bg-red-200 text-red-400 dark:text-red-400 light:text-red-700 border border-red-500/30 dark:border-red-500/30 light:border-red-300 rounded-xl transition-colors duration-300"
+                  disabled={batchSaving}
+                  className="flex-1 px-4 py-2 disabled:opacity-50 bg-red-500/20 dark:bg-red-500/20 light:bg-red-100 hover:bg-red-500/30 dark:hover:bg-red-500/30 light:hover:bg-red-200 text-red-400 dark:text-red-400 light:text-red-700 border border-red-500/30 dark:border-red-500/30 light:border-red-300 rounded-xl transition-colors duration-300"
+                >
+                  {batchSaving ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Batch tag / move, and batch date & location */}
+      <AnimatePresence>
+        {batchAction && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[70] bg-black/90 dark:bg-black/90 light:bg-black/70 backdrop-blur-lg flex items-center justify-center p-4 transition-colors duration-300"
+            onClick={() => !batchSaving && setBatchAction(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="glass-panel border border-purple-500/30 dark:border-purple-500/30 light:border-purple-300/50 p-6 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex items-center gap-3 mb-4">
+                <div className="p-2 bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 rounded-lg transition-colors duration-300">
+                  {batchAction === 'tag'
+                    ? <Tag size={24} className="text-purple-400 dark:text-purple-400 light:text-purple-600 transition-colors duration-300" />
+                    : <Calendar size={24} className="text-purple-400 dark:text-purple-400 light:text-purple-600 transition-colors duration-300" />}
+                </div>
+                <div>
+                  <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                    {batchAction === 'tag'
+                      ? `${showUntaggedOnly ? 'Tag' : 'Move'} ${selectedIds.size} ${selectedIds.size === 1 ? 'Image' : 'Images'}`
+                      : `Set Date & Location for ${selectedIds.size}`}
+                  </h3>
+                  <p className="text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+                    {batchAction === 'tag'
+                      ? 'Pick a person or type a name or alias'
+                      : 'Only the fields you fill in are changed'}
+                  </p>
+                </div>
+              </div>
+
+              {batchAction === 'tag' ? (
+                <div className="space-y-3 mb-6">
+                  <input
+                    type="text"
+                    value={batchTag}
+                    onChange={(e) => setBatchTag(e.target.value)}
+                    placeholder="Person's name (leave empty to untag)"
+                    autoFocus
+                    className="w-full bg-white/10 border border-purple-500/50 rounded p-2 text-white outline-none text-sm"
+                  />
+                  {batchTag.trim() && (() => {
+                    const match = findPersonByName(people, batchTag);
+                    return (
+                      <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+                        {!match
+                          ? `Creates a new person "${batchTag.trim()}"`
+                          : match.name.toLowerCase() !== batchTag.trim().toLowerCase()
+                            ? `Alias of ${match.name}`
+                            : `${match.image_count ?? 0} images already tagged`}
+                      </p>
+                    );
+                  })()}
+                  {people.length > 0 && (
+                    <div className="flex flex-wrap gap-2 max-h-32 overflow-y-auto">
+                      {people.map((person) => (
+                        <button
+                          key={person.id}
+                          type="button"
+                          onClick={() => setBatchTag(person.name)}
+                          className={`flex items-center gap-1 px-3 py-1 rounded-lg text-xs transition-colors duration-300 ${
+                            batchTag === person.name
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700'
+                          }`}
+                        >
+                          <Folder size={12} /> {person.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-4 mb-6">
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase font-bold">Date/Time</label>
+                    <input
+                      type="datetime-local"
+                      value={editData.datetime ? new Date(editData.datetime).toISOString().slice(0, 16) : ''}
+                      onChange={(e) => {
+                        const value = e.target.value;
+                        setEditData({...editData, datetime: value ? new Date(value).toISOString() : ''});
+                      }}
+                      className="w-full mt-1 bg-white/10 border border-purple-500/50 rounded p-2 text-white outline-none"
+                    />
+                  </div>
+                  {renderLocationField()}
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setBatchAction(null)}
+                  disabled={batchSaving}
+                  className="flex-1 px-4 py-2 bg-white/10 dark:bg-white/10 light:bg-gray-100 hover:bg-white/20 dark:hover:bg-white/20 light:hover:bg-gray-200 text-white dark:text-white light:text-gray-900 rounded-xl transition-colors duration-300"
                 >
-                  Delete
+                  Cancel
                 </button>
+                <GradientButton
+                  onClick={handleBatchSave}
+                  className={`flex-1 !py-2 !from-purple-600 !to-indigo-600 ${batchSaving ? 'opacity-50 pointer-events-none' : ''}`}
+                >
+                  <Save size={16} /> {batchSaving ? 'Saving...' : 'Apply'}
+                </GradientButton>
               </div>
             </motion.div>
           </motion.div>
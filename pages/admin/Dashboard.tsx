@@ -1,21 +1,63 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { TrendingUp, TrendingDown, Users, Upload, Activity, AlertTriangle, X, CheckCircle, Image as ImageIcon, Scan, Video, Film } from 'lucide-react';
+import { TrendingUp, TrendingDown, Users, Upload, Activity, AlertTriangle, X, CheckCircle, Image as ImageIcon, Scan, Video, Film, Pause, Play, RotateCcw, ListChecks } from 'lucide-react';
 import { GlassCard, GradientButton } from '../../components/UIComponents';
 import { ADMIN_TEXT_GRADIENT } from '../../constants';
-import { uploadImages, uploadVideo, getAdminStats, AdminStats } from '../../services/apiService';
+import { getAdminStats, AdminStats, isPermissionDenied, VideoIngestProgress } from '../../services/apiService';
+import { useUploadQueue, enqueueUploads, pauseUploads, resumeUploads, cancelUpload, cancelAllUploads, retryUpload, retryFailedUploads, dismissFinishedUploads, canReupload, onUploadPermissionDenied, UploadQueueItem } from '../../services/uploadQueue';
 import { showToast } from '../../components/Toast';
 import { Shimmer } from '../../components/Shimmer';
+import UploadReview from '../../components/UploadReview';
+import { preflightFiles, mediaKindOf, getPreflightSettings, savePreflightSettings, PreflightEntry, PreflightSettings } from '../../services/uploadPreflight';
 
 interface AdminDashboardProps {
+  token: string | null;
   onUpload: () => void;
   onUploadComplete?: () => void;
+  onPermissionDenied?: () => void;
+  onViewUploadJobs?: () => void;
 }
 
-const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadComplete }) => {
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState({ processed: 0, failed: 0, total: 0, current: 0, percentage: 0, currentFile: '' });
+const uploadFraction = (item: UploadQueueItem) => (item.size > 0 ? Math.min(item.uploadedBytes / item.size, 1) : 0);
+
+const videoStageLabel = (progress: VideoIngestProgress): string => {
+  const frames = progress.frames_total ? `${progress.frames_processed ?? 0}/${progress.frames_total} frames` : '';
+  switch (progress.stage) {
+    case 'sampling':
+      return `Sampling frames ${frames}`;
+    case 'detecting':
+      return `Finding faces ${frames} · ${progress.faces_found ?? 0} found`;
+    case 'storing':
+      return `Storing embeddings for ${progress.faces_found ?? 0} faces`;
+    default:
+      return 'Processing...';
+  }
+};
+
+const uploadStatusLabel = (item: UploadQueueItem): string => {
+  switch (item.status) {
+    case 'queued':
+      return item.uploadedBytes > 0 ? `Waiting to resume at ${Math.floor(uploadFraction(item) * 100)}%` : 'Queued';
+    case 'uploading':
+      return `Uploading ${Math.floor(uploadFraction(item) * 100)}%`;
+    case 'processing':
+      return item.progress ? videoStageLabel(item.progress) : 'Processing...';
+    case 'done':
+      if (item.result === 'no_face') return 'Uploaded, no face found';
+      if (item.result === 'skipped') return 'Skipped';
+      if (item.stats) {
+        return `Done · ${item.stats.frames_processed} frames, ${item.stats.faces_found} faces, ${item.stats.embeddings_stored} embeddings stored`;
+      }
+      return 'Done';
+    case 'failed':
+      return item.error || 'Failed';
+  }
+};
+
+const AdminDashboard: React.FC<AdminDashboardProps> = ({ token, onUpload, onUploadComplete, onPermissionDenied, onViewUploadJobs }) => {
+  const uploadQueue = useUploadQueue();
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const wasUploadingRef = useRef(false);
   const [stats, setStats] = useState<AdminStats>({
     total_images: 0,
     total_users: 0,
@@ -28,12 +70,64 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadCompl
     fetchStats();
   }, []);
 
+  // Finished batches move to the Upload Jobs page once dismissed
+  const uploadItems = uploadQueue.items.filter(item => !item.archived);
+  const activeUploads = uploadItems.filter(item => item.status !== 'done' && item.status !== 'failed');
+  const failedUploads = uploadItems.filter(item => item.status === 'failed');
+  const doneUploads = uploadItems.filter(item => item.status === 'done');
+  const isUploading = activeUploads.length > 0;
+  const totalBytes = uploadItems.reduce((sum, item) => sum + item.size, 0);
+  const uploadedBytes = uploadItems.reduce((sum, item) => sum + (item.status === 'done' || item.status === 'failed' ? item.size : item.uploadedBytes), 0);
+  const uploadPercentage = totalBytes > 0 ? Math.floor((uploadedBytes / totalBytes) * 100) : 0;
+
+  // Bring the modal back for a queue left over from a previous visit
+  useEffect(() => {
+    if (isUploading && !wasUploadingRef.current) {
+      setShowUploadModal(true);
+    }
+  }, [isUploading]);
+
+  // Report once the queue drains; stay put when something failed so it can be retried
+  useEffect(() => {
+    if (isUploading) {
+      wasUploadingRef.current = true;
+      return;
+    }
+    if (!wasUploadingRef.current) return;
+    wasUploadingRef.current = false;
+
+    if (doneUploads.length > 0) {
+      showToast(`Successfully processed ${doneUploads.length} file(s)`, 'success');
+    }
+    if (failedUploads.length > 0) {
+      showToast(`${failedUploads.length} file(s) failed`, 'error');
+      fetchStats();
+      return;
+    }
+
+    fetchStats();
+    if (onUploadComplete) {
+      setTimeout(() => {
+        dismissFinishedUploads();
+        setShowUploadModal(false);
+        onUploadComplete();
+      }, 2000);
+    }
+  }, [isUploading]);
+
+  // The server refused an upload: same role check as the dashboard's own requests
+  useEffect(() => onUploadPermissionDenied(() => onPermissionDenied?.()), [onPermissionDenied]);
+
   const fetchStats = async () => {
     setIsLoadingStats(true);
     try {
-      const data = await getAdminStats();
+      const data = await getAdminStats(token);
       setStats(data);
     } catch (error) {
+      if (isPermissionDenied(error) && onPermissionDenied) {
+        onPermissionDenied();
+        return;
+      }
       console.error('Failed to fetch admin stats:', error);
       showToast('Failed to load dashboard statistics', 'error');
     } finally {
@@ -41,122 +135,76 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadCompl
     }
   };
 
+  // Files picked for upload, checked and normalized before anything is sent
+  const [preflight, setPreflight] = useState<{ files: File[]; entries: PreflightEntry[] | null; progress: { done: number; total: number } } | null>(null);
+  const [preflightSettings, setPreflightSettings] = useState<PreflightSettings>(getPreflightSettings);
+  const preflightRunRef = useRef(0);
+
+  const runPreflight = async (files: File[], settings: PreflightSettings) => {
+    const run = ++preflightRunRef.current;
+    setPreflight({ files, entries: null, progress: { done: 0, total: files.length } });
+
+    // Compare against what went up before as well as within the batch
+    const previous = uploadQueue.items
+      .filter(item => item.status === 'done' && (item.sha256 || item.phash))
+      .map(item => ({ name: item.name, sha256: item.sha256, phash: item.phash }));
+    const entries = await preflightFiles(files, settings, previous, (done, total) => {
+      if (run === preflightRunRef.current) {
+        setPreflight(prev => prev && { ...prev, progress: { done, total } });
+      }
+    });
+
+    // Ignore a run that was cancelled or superseded by a settings change
+    if (run === preflightRunRef.current) {
+      setPreflight(prev => prev && { ...prev, entries });
+    }
+  };
+
+  const handlePreflightSettingsChange = (settings: PreflightSettings) => {
+    setPreflightSettings(settings);
+    savePreflightSettings(settings);
+    if (preflight) {
+      runPreflight(preflight.files, settings);
+    }
+  };
+
+  const closePreflight = () => {
+    preflightRunRef.current++;
+    setPreflight(null);
+  };
+
+  const handleConfirmUpload = (entries: PreflightEntry[]) => {
+    closePreflight();
+    // A new batch starts a fresh list once the previous one has finished
+    if (!isUploading) {
+      dismissFinishedUploads();
+    }
+    enqueueUploads(entries.map(({ file, sha256, phash, metadata: { datetime, latitude, longitude } }) => ({
+      file: file!,
+      sha256,
+      phash,
+      // Orientation is already applied to the pixels; the server only needs when and where
+      metadata: datetime || latitude !== undefined ? { datetime, latitude, longitude } : undefined,
+    })));
+    setShowUploadModal(true);
+  };
+
   const handleBulkUpload = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = 'image/*,video/mp4,video/avi,video/mov,video/mkv,video/webm';
+    input.accept = 'image/*,.heic,.heif,video/mp4,video/avi,video/mov,video/mkv,video/webm,.mkv';
     input.multiple = true;
-    input.onchange = async (e) => {
-      const files = Array.from((e.target as HTMLInputElement).files || []);
-      if (files.length === 0) return;
-
-      const imageFiles = files.filter(f => f.type.startsWith('image/'));
-      const videoFiles = files.filter(f => f.type.startsWith('video/'));
+    input.onchange = (e) => {
+      // By extension too: HEIC photos often come without a type
+      const files = Array.from((e.target as HTMLInputElement).files || [])
+        .filter(f => mediaKindOf(f) !== null);
 
-      if (imageFiles.length === 0 && videoFiles.length === 0) {
+      if (files.length === 0) {
         showToast('No valid images or videos selected', 'error');
         return;
       }
 
-      setIsUploading(true);
-      setShowUploadModal(true);
-
-      const totalFiles = files.length;
-      let totalProcessed = 0;
-      let totalFailed = 0;
-      let currentCount = 0;
-
-      setUploadProgress({ processed: 0, failed: 0, total: totalFiles, current: 0, percentage: 0, currentFile: 'Starting upload...' });
-
-      try {
-        // 1. Upload Images (Bulk)
-        if (imageFiles.length > 0) {
-          const result = await uploadImages(imageFiles, (progress) => {
-            // Map image sub-progress to overall progress
-            // We can't map perfectly without knowing video times, but we'll approximate
-            // If we have 10 files (5 img, 5 vid), image progress 50% = 2.5 files = 25% total
-
-            // Actually, simpler to just track "files finished"
-            const filesDoneSoFar = totalProcessed + (progress.processed + progress.failed);
-            // But 'progress' object is for the whole batch of images.
-            // Let's rely on the image API's report which gives us 'current' index within imports
-
-            const currentOverall = currentCount + progress.current;
-            const percentage = Math.floor((currentOverall / totalFiles) * 100);
-
-            setUploadProgress(prev => ({
-              ...prev,
-              current: currentOverall,
-              percentage: percentage > 100 ? 100 : percentage,
-              currentFile: progress.current_file || 'Processing images...',
-            }));
-          });
-
-          totalProcessed += result.processed;
-          totalFailed += result.failed;
-          currentCount += imageFiles.length;
-        }
-
-        // 2. Upload Videos (Sequential)
-        for (let i = 0; i < videoFiles.length; i++) {
-          const file = videoFiles[i];
-          currentCount++;
-          const percentage = Math.floor((currentCount / totalFiles) * 100);
-
-          setUploadProgress(prev => ({
-            ...prev,
-            current: currentCount,
-            percentage: percentage,
-            currentFile: `Processing video: ${file.name}`,
-          }));
-
-          try {
-            await uploadVideo(file, (step) => {
-              // We could update status text here
-            });
-            totalProcessed++;
-          } catch (error) {
-            console.error(`Failed to upload video ${file.name}:`, error);
-            totalFailed++;
-          }
-        }
-
-        // Final State
-        setUploadProgress(prev => ({
-          ...prev,
-          processed: totalProcessed,
-          failed: totalFailed,
-          percentage: 100,
-          currentFile: 'Done',
-          current: totalFiles
-        }));
-
-        if (totalProcessed > 0) {
-          showToast(`Successfully processed ${totalProcessed} file(s)`, 'success');
-        }
-        if (totalFailed > 0) {
-          showToast(`${totalFailed} file(s) failed`, 'error');
-        }
-
-        // Show success state
-        setIsUploading(false);
-
-        if (onUploadComplete) {
-          setTimeout(() => {
-            onUploadComplete();
-          }, 2000);
-        }
-
-        fetchStats();
-      } catch (error: any) {
-        showToast(error.message || 'Failed to upload files', 'error');
-        setIsUploading(false); // Also show result on error
-      } finally {
-        setTimeout(() => {
-          setShowUploadModal(false);
-          setUploadProgress({ processed: 0, failed: 0, total: 0, current: 0, percentage: 0, currentFile: '' });
-        }, 3000);
-      }
+      runPreflight(files, preflightSettings);
     };
     input.click();
   };
@@ -288,6 +336,38 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadCompl
         </button>
       </div>
 
+      {isUploading && !showUploadModal && (
+        <button
+          onClick={() => setShowUploadModal(true)}
+          className="mt-4 w-full flex items-center justify-center gap-2 py-2 rounded-xl bg-purple-500/10 text-sm font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300"
+        >
+          <Upload size={14} />
+          {uploadQueue.paused ? 'Uploads paused' : `Uploading ${uploadItems.length - activeUploads.length} of ${uploadItems.length} files`} · View
+        </button>
+      )}
+      {onViewUploadJobs && (
+        <button
+          onClick={onViewUploadJobs}
+          className="mt-4 w-full bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl py-3 flex items-center justify-center gap-2 text-white dark:text-white light:text-gray-900 font-semibold hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-50 transition-all duration-300 shadow-sm light:shadow"
+        >
+          <ListChecks size={18} className="text-purple-400 dark:text-purple-400 light:text-purple-600" /> Upload Jobs
+        </button>
+      )}
+
+      {/* Pre-upload review */}
+      <AnimatePresence>
+        {preflight && (
+          <UploadReview
+            entries={preflight.entries}
+            progress={preflight.progress}
+            settings={preflightSettings}
+            onSettingsChange={handlePreflightSettingsChange}
+            onConfirm={handleConfirmUpload}
+            onCancel={closePreflight}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Upload Processing Modal */}
       <AnimatePresence>
         {showUploadModal && (
@@ -299,44 +379,46 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadCompl
           >
             <GlassCard className="max-w-md w-full p-6 border-purple-500/30 dark:border-purple-500/30 light:border-purple-500/40">
               <div className="flex justify-between items-start mb-6">
-                <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Processing Files</h3>
-                {!isUploading && (
-                  <button
-                    onClick={() => setShowUploadModal(false)}
-                    className="text-white/60 dark:text-white/60 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
-                  >
-                    <X size={20} />
-                  </button>
-                )}
+                <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                  {!isUploading ? 'Upload Complete' : uploadQueue.paused ? 'Uploads Paused' : 'Processing Files'}
+                </h3>
+                {/* Uploads keep going in the background once closed */}
+                <button
+                  onClick={() => setShowUploadModal(false)}
+                  className="text-white/60 dark:text-white/60 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300"
+                >
+                  <X size={20} />
+                </button>
               </div>
 
               {isUploading ? (
                 <div className="space-y-4">
                   <div className="flex items-center justify-center">
-                    <motion.div
-                      className="w-16 h-16 rounded-full border-4 border-purple-500/30 dark:border-purple-500/30 light:border-purple-300 border-t-purple-500 dark:border-t-purple-500 light:border-t-purple-600 transition-colors duration-300"
-                      animate={{ rotate: 360 }}
-                      transition={{ duration: 1, ease: "linear", repeat: Infinity }}
-                    />
+                    {uploadQueue.paused ? (
+                      <div className="w-16 h-16 rounded-full border-4 border-purple-500/30 dark:border-purple-500/30 light:border-purple-300 flex items-center justify-center transition-colors duration-300">
+                        <Pause size={24} className="text-purple-400 dark:text-purple-400 light:text-purple-600" />
+                      </div>
+                    ) : (
+                      <motion.div
+                        className="w-16 h-16 rounded-full border-4 border-purple-500/30 dark:border-purple-500/30 light:border-purple-300 border-t-purple-500 dark:border-t-purple-500 light:border-t-purple-600 transition-colors duration-300"
+                        animate={{ rotate: 360 }}
+                        transition={{ duration: 1, ease: "linear", repeat: Infinity }}
+                      />
+                    )}
                   </div>
                   <div className="space-y-2">
                     <p className="text-center text-gray-300 dark:text-gray-300 light:text-gray-700 transition-colors duration-300 font-semibold">
-                      {uploadProgress.percentage}% Complete
+                      {uploadPercentage}% Complete
                     </p>
                     <p className="text-center text-sm text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
-                      Processing file {uploadProgress.current} out of {uploadProgress.total}
+                      {uploadItems.length - activeUploads.length} of {uploadItems.length} files finished
                     </p>
-                    {uploadProgress.currentFile && (
-                      <p className="text-center text-xs text-gray-500 dark:text-gray-500 light:text-gray-500 transition-colors duration-300 truncate px-2">
-                        {uploadProgress.currentFile}
-                      </p>
-                    )}
                     {/* Progress Bar */}
                     <div className="w-full bg-white/5 dark:bg-white/5 light:bg-gray-200 rounded-full h-2 overflow-hidden">
                       <motion.div
                         className="h-full bg-gradient-to-r from-purple-500 to-indigo-500 dark:from-purple-500 dark:to-indigo-500 light:from-purple-400 light:to-indigo-400 transition-colors duration-300"
                         initial={{ width: 0 }}
-                        animate={{ width: `${uploadProgress.percentage}%` }}
+                        animate={{ width: `${uploadPercentage}%` }}
                         transition={{ duration: 0.3 }}
                       />
                     </div>
@@ -347,16 +429,106 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onUpload, onUploadCompl
                   <div className="flex items-center justify-center">
                     <CheckCircle size={48} className="text-green-400 dark:text-green-400 light:text-green-600 transition-colors duration-300" />
                   </div>
-                  <div className="text-center space-y-2">
-                    <p className="text-white dark:text-white light:text-gray-900 font-semibold transition-colors duration-300">Upload Complete</p>
-                    <div className="space-y-1 text-sm">
-                      <p className="text-green-400 dark:text-green-400 light:text-green-600 transition-colors duration-300">✓ Processed: {uploadProgress.processed}</p>
-                      {uploadProgress.failed > 0 && (
-                        <p className="text-red-400 dark:text-red-400 light:text-red-600 transition-colors duration-300">✗ Failed: {uploadProgress.failed}</p>
+                  <div className="text-center space-y-1 text-sm">
+                    <p className="text-green-400 dark:text-green-400 light:text-green-600 transition-colors duration-300">✓ Processed: {doneUploads.length}</p>
+                    {failedUploads.length > 0 && (
+                      <p className="text-red-400 dark:text-red-400 light:text-red-600 transition-colors duration-300">✗ Failed: {failedUploads.length}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Files */}
+              <div className="mt-6 max-h-56 overflow-y-auto space-y-2 pr-1">
+                {uploadItems.map(item => (
+                  <div key={item.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 transition-colors duration-300">
+                    {item.kind === 'video'
+                      ? <Film size={16} className="flex-shrink-0 text-blue-400" />
+                      : <ImageIcon size={16} className="flex-shrink-0 text-purple-400 dark:text-purple-400 light:text-purple-600" />}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white dark:text-white light:text-gray-900 truncate transition-colors duration-300">{item.name}</p>
+                      <p className={`text-xs truncate ${item.status === 'failed' ? 'text-red-400' : 'text-gray-400 dark:text-gray-400 light:text-gray-600'} transition-colors duration-300`}>
+                        {uploadStatusLabel(item)}
+                      </p>
+                      {item.status === 'uploading' && (
+                        <div className="mt-1 w-full bg-white/5 dark:bg-white/5 light:bg-gray-200 rounded-full h-1 overflow-hidden">
+                          <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${uploadFraction(item) * 100}%` }} />
+                        </div>
+                      )}
+                      {item.status === 'processing' && !!item.progress?.frames_total && (
+                        <div className="mt-1 w-full bg-white/5 dark:bg-white/5 light:bg-gray-200 rounded-full h-1 overflow-hidden">
+                          <div className="h-full bg-blue-400 transition-all duration-300" style={{ width: `${((item.progress.frames_processed ?? 0) / item.progress.frames_total) * 100}%` }} />
+                        </div>
                       )}
                     </div>
+                    {item.status === 'failed' && canReupload(item) && (
+                      <button
+                        onClick={() => retryUpload(item.id)}
+                        title="Retry"
+                        className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors duration-300"
+                      >
+                        <RotateCcw size={14} />
+                      </button>
+                    )}
+                    {(item.status === 'queued' || item.status === 'uploading') && (
+                      <button
+                        onClick={() => cancelUpload(item.id)}
+                        title="Cancel"
+                        className="p-1.5 rounded-full text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors duration-300"
+                      >
+                        <X size={14} />
+                      </button>
+                    )}
+                    {item.status === 'done' && <CheckCircle size={14} className="flex-shrink-0 text-green-400" />}
                   </div>
-                </div>
+                ))}
+              </div>
+
+              {/* Queue controls */}
+              <div className="flex flex-wrap gap-2 mt-4">
+                {isUploading && (
+                  <>
+                    <button
+                      onClick={uploadQueue.paused ? resumeUploads : pauseUploads}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+                    >
+                      {uploadQueue.paused ? <><Play size={14} /> Resume</> : <><Pause size={14} /> Pause</>}
+                    </button>
+                    <button
+                      onClick={cancelAllUploads}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-red-500/10 hover:bg-red-500/20 text-sm font-semibold text-red-400 transition-colors duration-300"
+                    >
+                      <X size={14} /> Cancel all
+                    </button>
+                  </>
+                )}
+                {failedUploads.length > 0 && (
+                  <button
+                    onClick={retryFailedUploads}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-purple-500/20 hover:bg-purple-500/30 text-sm font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300"
+                  >
+                    <RotateCcw size={14} /> Retry failed ({failedUploads.length})
+                  </button>
+                )}
+                {!isUploading && (
+                  <button
+                    onClick={() => {
+                      dismissFinishedUploads();
+                      setShowUploadModal(false);
+                    }}
+                    className="flex-1 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-200 text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300"
+                  >
+                    Dismiss
+                  </button>
+                )}
+              </div>
+              {onViewUploadJobs && (
+                <button
+                  onClick={onViewUploadJobs}
+                  className="w-full mt-3 text-xs font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 hover:underline"
+                >
+                  View all upload jobs
+                </button>
               )}
             </GlassCard>
           </motion.div>
@@ -0,0 +1,426 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { UserPlus, Search, X, Save, Trash2, Merge, Link2, Check, Users } from 'lucide-react';
+import { Person, PhotoResult } from '../../types';
+import { GlassCard, GradientButton } from '../../components/UIComponents';
+import { Shimmer } from '../../components/Shimmer';
+import { showToast } from '../../components/Toast';
+import {
+  getPeople,
+  createPerson,
+  updatePerson,
+  deletePerson,
+  mergePeople,
+  getAdminUsers,
+  getAllImages,
+  getImageUrl,
+  isPermissionDenied,
+  UserProfile,
+} from '../../services/apiService';
+import { getUserInitials } from '../../utils';
+
+interface PeopleProps {
+  token: string | null;
+  onPermissionDenied?: () => void;
+}
+
+interface PersonForm {
+  name: string;
+  // Comma separated while editing
+  aliases: string;
+  cover_image_id: string | null;
+  user_id: number | null;
+}
+
+const EMPTY_FORM: PersonForm = { name: '', aliases: '', cover_image_id: null, user_id: null };
+
+const parseAliases = (value: string) =>
+  Array.from(new Set(value.split(',').map(alias => alias.trim()).filter(Boolean)));
+
+/**
+ * People management: every tagged person with their aliases, cover face and linked account.
+ * Fixing a typo or merging duplicates here retags all of their images at once.
+ */
+const People: React.FC<PeopleProps> = ({ token, onPermissionDenied }) => {
+  const [people, setPeople] = useState<Person[] | null>(null);
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [search, setSearch] = useState('');
+  // Null while closed; 'new' for the create form, otherwise the person being edited
+  const [editing, setEditing] = useState<Person | 'new' | null>(null);
+  const [form, setForm] = useState<PersonForm>(EMPTY_FORM);
+  const [personImages, setPersonImages] = useState<PhotoResult[]>([]);
+  const [mergeIds, setMergeIds] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPeople();
+    getAdminUsers(token).then(setUsers).catch((error) => console.error('Failed to fetch users:', error));
+  }, []);
+
+  const reportError = (error: any, fallback: string) => {
+    if (isPermissionDenied(error) && onPermissionDenied) {
+      onPermissionDenied();
+      return;
+    }
+    showToast(error.message || fallback, 'error');
+  };
+
+  const fetchPeople = async () => {
+    try {
+      setPeople(await getPeople(token));
+    } catch (error: any) {
+      setPeople([]);
+      reportError(error, 'Failed to fetch people');
+    }
+  };
+
+  const visiblePeople = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!people || !query) return people || [];
+    return people.filter(person => [person.name, ...person.aliases].some(name => name.toLowerCase().includes(query)));
+  }, [people, search]);
+
+  const userName = (userId?: number) => users.find(user => user.id === userId)?.name;
+
+  const openEditor = (person: Person | 'new') => {
+    setEditing(person);
+    setMergeIds(new Set());
+    setConfirmDelete(false);
+    setPersonImages([]);
+    if (person === 'new') {
+      setForm(EMPTY_FORM);
+      return;
+    }
+    setForm({
+      name: person.name,
+      aliases: person.aliases.join(', '),
+      cover_image_id: person.cover_image_id ?? null,
+      user_id: person.user_id ?? null,
+    });
+    // Cover candidates
+    getAllImages(token, person.id)
+      .then(images => setPersonImages(images
+        .filter(img => img.media_type !== 'video')
+        .map(img => ({ ...img, imageUrl: getImageUrl(img.imageUrl) }))))
+      .catch((error) => console.error('Failed to fetch person images:', error));
+  };
+
+  const closeEditor = () => {
+    if (saving) return;
+    setEditing(null);
+  };
+
+  const replacePerson = (person: Person) => {
+    setPeople(prev => (prev || []).map(p => (p.id === person.id ? person : p)));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const name = form.name.trim();
+    if (!name) {
+      showToast('Name is required', 'info');
+      return;
+    }
+    setSaving(true);
+    try {
+      const input = { name, aliases: parseAliases(form.aliases), cover_image_id: form.cover_image_id, user_id: form.user_id };
+      if (editing === 'new') {
+        const person = await createPerson(token, input);
+        setPeople(prev => [...(prev || []), person].sort((a, b) => a.name.localeCompare(b.name)));
+        showToast(`Added ${person.name}`, 'success');
+      } else {
+        replacePerson(await updatePerson(token, editing.id, input));
+        showToast('Person updated', 'success');
+      }
+      setEditing(null);
+    } catch (error: any) {
+      reportError(error, 'Failed to save person');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing || editing === 'new') return;
+    setSaving(true);
+    try {
+      await deletePerson(token, editing.id);
+      setPeople(prev => (prev || []).filter(p => p.id !== editing.id));
+      showToast(`Deleted ${editing.name}; their images are untagged`, 'success');
+      setEditing(null);
+    } catch (error: any) {
+      reportError(error, 'Failed to delete person');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!editing || editing === 'new' || mergeIds.size === 0) return;
+    setSaving(true);
+    try {
+      const merged = await mergePeople(token, editing.id, Array.from(mergeIds));
+      setPeople(prev => (prev || []).filter(p => !mergeIds.has(p.id)).map(p => (p.id === merged.id ? merged : p)));
+      showToast(`Merged ${mergeIds.size} into ${merged.name}`, 'success');
+      openEditor(merged);
+    } catch (error: any) {
+      reportError(error, 'Failed to merge people');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMerge = (id: string) => {
+    setMergeIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const inputClass = 'w-full mt-1 bg-white/10 dark:bg-white/10 light:bg-white border border-purple-500/50 rounded p-2 text-sm text-white dark:text-white light:text-gray-900 outline-none transition-colors duration-300';
+
+  return (
+    <div className="pt-20 pb-32 px-4 min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-gray-50 transition-colors duration-300">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">People</h1>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 text-sm transition-colors duration-300">
+            {people ? `${people.length} ${people.length === 1 ? 'person' : 'people'}` : 'Loading...'}
+          </p>
+        </div>
+        <button
+          onClick={() => openEditor('new')}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-sm font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300"
+        >
+          <UserPlus size={16} /> Add
+        </button>
+      </div>
+
+      <div className="relative mb-6">
+        <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search names and aliases..."
+          className="w-full bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 rounded-xl pl-9 pr-4 py-2.5 text-sm text-white dark:text-white light:text-gray-900 placeholder-gray-500 focus:outline-none focus:border-purple-500 transition-colors duration-300"
+        />
+      </div>
+
+      {!people ? (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {Array.from({ length: 6 }).map((_, i) => (
+            <Shimmer key={i} height="12rem" rounded="xl" />
+          ))}
+        </div>
+      ) : visiblePeople.length === 0 ? (
+        <div className="text-center py-12">
+          <Users size={32} className="mx-auto mb-3 text-gray-500" />
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 transition-colors duration-300">
+            {people.length === 0 ? 'No people yet. Tag images or add someone.' : 'Nobody matches that search'}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {visiblePeople.map((person) => (
+            <GlassCard key={person.id} className="!p-0 overflow-hidden" onClick={() => openEditor(person)}>
+              <div className="aspect-square bg-black/40 dark:bg-black/40 light:bg-gray-100 flex items-center justify-center transition-colors duration-300">
+                {person.cover_image_url ? (
+                  <img src={getImageUrl(person.cover_image_url)} alt={person.name} className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-3xl font-bold text-purple-300">{getUserInitials(person.name)}</span>
+                )}
+              </div>
+              <div className="p-3 space-y-0.5">
+                <p className="text-sm font-semibold text-white dark:text-white light:text-gray-900 truncate transition-colors duration-300">{person.name}</p>
+                {person.aliases.length > 0 && (
+                  <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 truncate">aka {person.aliases.join(', ')}</p>
+                )}
+                <p className="flex items-center gap-2 text-xs text-gray-500">
+                  {person.image_count ?? 0} images
+                  {person.user_id !== undefined && (
+                    <span className="flex items-center gap-0.5 text-purple-300 dark:text-purple-300 light:text-purple-700 truncate">
+                      <Link2 size={10} /> {userName(person.user_id) || 'Linked'}
+                    </span>
+                  )}
+                </p>
+              </div>
+            </GlassCard>
+          ))}
+        </div>
+      )}
+
+      {/* Create / edit */}
+      <AnimatePresence>
+        {editing && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[60] bg-black/90 dark:bg-black/90 light:bg-black/70 backdrop-blur-lg flex items-center justify-center p-4 transition-colors duration-300"
+            onClick={closeEditor}
+          >
+            <motion.div
+              initial={{ scale: 0.9, opacity: 0 }}
+              animate={{ scale: 1, opacity: 1 }}
+              exit={{ scale: 0.9, opacity: 0 }}
+              className="glass-panel border border-purple-500/30 dark:border-purple-500/30 light:border-purple-300/50 p-6 rounded-2xl max-w-md w-full max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <div className="flex justify-between items-start mb-4">
+                <h3 className="text-xl font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                  {editing === 'new' ? 'Add Person' : 'Edit Person'}
+                </h3>
+                <button onClick={closeEditor} className="text-white/60 dark:text-white/60 light:text-gray-600 hover:text-white dark:hover:text-white light:hover:text-gray-900 transition-colors duration-300">
+                  <X size={20} />
+                </button>
+              </div>
+
+              <div className="space-y-4 mb-6">
+                <div>
+                  <label className="text-xs text-gray-500 uppercase font-bold">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    autoFocus
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500 uppercase font-bold">Aliases</label>
+                  <input
+                    type="text"
+                    value={form.aliases}
+                    onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                    placeholder="Nicknames, other spellings, comma separated"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="text-xs text-gray-500 uppercase font-bold">Linked Account</label>
+                  <select
+                    value={form.user_id ?? ''}
+                    onChange={(e) => setForm({ ...form, user_id: e.target.value ? Number(e.target.value) : null })}
+                    className={inputClass}
+                  >
+                    <option value="">Not linked</option>
+                    {users.map(user => (
+                      <option key={user.id} value={user.id}>{user.name} ({user.email})</option>
+                    ))}
+                  </select>
+                </div>
+
+                {editing !== 'new' && personImages.length > 0 && (
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase font-bold">Cover Face</label>
+                    <div className="grid grid-cols-5 gap-2 mt-1 max-h-40 overflow-y-auto">
+                      {personImages.map(img => (
+                        <button
+                          key={img.id}
+                          type="button"
+                          onClick={() => setForm({ ...form, cover_image_id: img.id })}
+                          className={`relative aspect-square rounded-lg overflow-hidden border-2 transition-colors duration-300 ${
+                            form.cover_image_id === img.id ? 'border-purple-500' : 'border-transparent'
+                          }`}
+                        >
+                          <img src={img.imageUrl} alt={img.id} className="w-full h-full object-cover" />
+                          {form.cover_image_id === img.id && (
+                            <span className="absolute top-1 right-1 p-0.5 rounded-full bg-purple-500">
+                              <Check size={10} className="text-white" />
+                            </span>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {editing !== 'new' && people && people.length > 1 && (
+                  <div>
+                    <label className="text-xs text-gray-500 uppercase font-bold">Merge Duplicates Into {editing.name}</label>
+                    <div className="flex flex-wrap gap-2 mt-1 max-h-32 overflow-y-auto">
+                      {people.filter(p => p.id !== editing.id).map(p => (
+                        <button
+                          key={p.id}
+                          type="button"
+                          onClick={() => toggleMerge(p.id)}
+                          className={`px-3 py-1 rounded-lg text-xs transition-colors duration-300 ${
+                            mergeIds.has(p.id)
+                              ? 'bg-purple-500 text-white'
+                              : 'bg-white/5 dark:bg-white/5 light:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700'
+                          }`}
+                        >
+                          {p.name}
+                        </button>
+                      ))}
+                    </div>
+                    {mergeIds.size > 0 && (
+                      <button
+                        onClick={handleMerge}
+                        disabled={saving}
+                        className="mt-2 w-full flex items-center justify-center gap-2 bg-white/10 hover:bg-white/20 text-white py-2 rounded-lg text-sm disabled:opacity-50 transition-colors duration-300"
+                      >
+                        <Merge size={14} /> Merge {mergeIds.size} into {editing.name}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {confirmDelete && editing !== 'new' ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-gray-300 dark:text-gray-300 light:text-gray-700">
+                    Delete {editing.name}? Their {editing.image_count ?? 0} images stay in the database, untagged.
+                  </p>
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setConfirmDelete(false)}
+                      className="flex-1 px-4 py-2 bg-white/10 dark:bg-white/10 light:bg-gray-100 hover:bg-white/20 dark:hover:bg-white/20 light:hover:bg-gray-200 text-white dark:text-white light:text-gray-900 rounded-xl transition-colors duration-300"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleDelete}
+                      disabled={saving}
+                      className="flex-1 px-4 py-2 bg-red-500/20 dark:bg-red-500/20 light:bg-red-100 hover:bg-red-500/30 dark:hover:bg-red-500/30 light:hover:bg-red-200 text-red-400 dark:text-red-400 light:text-red-700 border border-red-500/30 dark:border-red-500/30 light:border-red-300 rounded-xl disabled:opacity-50 transition-colors duration-300"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex gap-3">
+                  {editing !== 'new' && (
+                    <button
+                      onClick={() => setConfirmDelete(true)}
+                      className="px-4 py-2 bg-red-500/10 dark:bg-red-500/10 light:bg-red-100 hover:bg-red-500/20 dark:hover:bg-red-500/20 light:hover:bg-red-200 text-red-400 dark:text-red-400 light:text-red-700 border border-red-500/20 dark:border-red-500/20 light:border-red-300 rounded-xl transition-colors duration-300"
+                      title="Delete person"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                  <GradientButton
+                    onClick={handleSave}
+                    loading={saving}
+                    className="flex-1 !py-2 !from-purple-600 !to-indigo-600"
+                  >
+                    <Save size={16} /> {editing === 'new' ? 'Add Person' : 'Save Changes'}
+                  </GradientButton>
+                </div>
+              )}
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default People;
@@ -0,0 +1,261 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ListChecks, Download, RotateCcw, Trash2, ChevronDown, ChevronRight, Film, Image as ImageIcon, Search } from 'lucide-react';
+import { GlassCard } from '../../components/UIComponents';
+import { showToast } from '../../components/Toast';
+import { useUploadQueue, uploadOutcome, canReupload, reuploadFiles, deleteUploadBatch, UploadQueueItem } from '../../services/uploadQueue';
+import { toCsv, downloadFile, formatFileSize } from '../../utils';
+
+type StatusFilter = 'all' | 'success' | 'error' | 'skipped' | 'no_face' | 'active';
+type KindFilter = 'all' | 'image' | 'video';
+
+const STATUS_FILTERS: Array<{ value: StatusFilter; label: string }> = [
+  { value: 'all', label: 'All' },
+  { value: 'success', label: 'Success' },
+  { value: 'error', label: 'Error' },
+  { value: 'no_face', label: 'No face' },
+  { value: 'skipped', label: 'Skipped' },
+  { value: 'active', label: 'In progress' },
+];
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  success: { label: 'Success', className: 'bg-green-500/15 text-green-400' },
+  error: { label: 'Error', className: 'bg-red-500/15 text-red-400' },
+  no_face: { label: 'No face', className: 'bg-yellow-500/15 text-yellow-400' },
+  skipped: { label: 'Skipped', className: 'bg-gray-500/20 text-gray-400' },
+  active: { label: 'In progress', className: 'bg-purple-500/15 text-purple-300' },
+};
+
+const fileStatus = (item: UploadQueueItem): Exclude<StatusFilter, 'all'> => uploadOutcome(item) ?? 'active';
+
+const formatBatchTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+interface UploadBatch {
+  id: string;
+  createdAt: string;
+  items: UploadQueueItem[];
+}
+
+/**
+ * Every admin upload batch with each file's outcome, kept across visits
+ */
+const UploadJobs: React.FC = () => {
+  const queue = useUploadQueue();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [search, setSearch] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const matchesFilters = (item: UploadQueueItem) =>
+    (statusFilter === 'all' || fileStatus(item) === statusFilter) &&
+    (kindFilter === 'all' || item.kind === kindFilter) &&
+    (!search.trim() || item.name.toLowerCase().includes(search.trim().toLowerCase()));
+
+  // Newest batch first; batches with no file left after filtering are hidden
+  const batches = useMemo(() => {
+    const byId = new Map<string, UploadBatch>();
+    queue.items.forEach((item) => {
+      const batch = byId.get(item.batchId) || { id: item.batchId, createdAt: item.addedAt, items: [] };
+      batch.items.push(item);
+      byId.set(item.batchId, batch);
+    });
+    return Array.from(byId.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }, [queue.items]);
+
+  const visibleBatches = batches
+    .map(batch => ({ ...batch, items: batch.items.filter(matchesFilters) }))
+    .filter(batch => batch.items.length > 0);
+  const visibleItems = visibleBatches.flatMap(batch => batch.items);
+
+  const toggleBatch = (id: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleReupload = (items: UploadQueueItem[]) => {
+    const ids = items.filter(canReupload).map(item => item.id);
+    if (ids.length === 0) return;
+    reuploadFiles(ids);
+    showToast(`Re-uploading ${ids.length} file(s)`, 'info');
+  };
+
+  const handleDeleteBatch = (batch: UploadBatch) => {
+    deleteUploadBatch(batch.id);
+    showToast('Upload job removed', 'success');
+  };
+
+  const handleExport = () => {
+    const csv = toCsv(
+      ['batch', 'uploaded_at', 'file_name', 'type', 'size_bytes', 'status', 'error', 'finished_at'],
+      visibleItems.map(item => [item.batchId, item.addedAt, item.name, item.kind, item.size, fileStatus(item), item.error, item.finishedAt])
+    );
+    downloadFile(csv, `upload-jobs-${new Date().toISOString().slice(0, 10)}.csv`, 'text/csv');
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-xl text-xs font-semibold whitespace-nowrap transition-colors duration-300 ${active
+      ? 'bg-purple-500/20 dark:bg-purple-500/20 light:bg-purple-100 border border-purple-500/50 dark:border-purple-500/50 light:border-purple-300 text-purple-300 dark:text-purple-300 light:text-purple-700'
+      : 'bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 text-gray-300 dark:text-gray-300 light:text-gray-700 border border-white/10 dark:border-white/10 light:border-gray-200'
+    }`;
+
+  return (
+    <div className="pt-20 pb-32 px-4 min-h-screen bg-brand-dark dark:bg-brand-dark light:bg-gray-50 transition-colors duration-300">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h1 className="text-2xl font-display font-bold text-white dark:text-white light:text-gray-900 transition-colors duration-300">Upload Jobs</h1>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 text-sm transition-colors duration-300">
+            {batches.length} {batches.length === 1 ? 'batch' : 'batches'}, {queue.items.length} files
+          </p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={visibleItems.length === 0}
+          className="flex items-center gap-2 px-3 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-white hover:bg-white/10 dark:hover:bg-white/10 light:hover:bg-gray-100 text-sm font-semibold text-white dark:text-white light:text-gray-900 disabled:opacity-40 transition-colors duration-300 shadow-sm light:shadow"
+        >
+          <Download size={16} /> CSV
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="space-y-3 mb-6">
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search file names"
+            className="w-full pl-9 pr-3 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-white border border-white/10 dark:border-white/10 light:border-gray-200 text-sm text-white dark:text-white light:text-gray-900 outline-none focus:border-purple-500/50 transition-colors duration-300"
+          />
+        </div>
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {STATUS_FILTERS.map(option => (
+            <button key={option.value} onClick={() => setStatusFilter(option.value)} className={chipClass(statusFilter === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {(['all', 'image', 'video'] as KindFilter[]).map(kind => (
+            <button key={kind} onClick={() => setKindFilter(kind)} className={chipClass(kindFilter === kind)}>
+              {kind === 'all' ? 'All types' : kind === 'image' ? 'Images' : 'Videos'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {visibleBatches.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 opacity-40">
+          <div className="w-16 h-16 border-2 border-dashed border-gray-500 dark:border-gray-500 light:border-gray-300 rounded-2xl flex items-center justify-center mb-4">
+            <ListChecks size={24} />
+          </div>
+          <p className="text-gray-400 dark:text-gray-400 light:text-gray-600 font-medium">
+            {batches.length === 0 ? 'No uploads yet.' : 'No files match the current filters.'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <AnimatePresence>
+            {visibleBatches.map((batch) => {
+              const allItems = batches.find(other => other.id === batch.id)?.items || batch.items;
+              const counts = allItems.reduce<Record<string, number>>((acc, item) => {
+                const status = fileStatus(item);
+                acc[status] = (acc[status] || 0) + 1;
+                return acc;
+              }, {});
+              const reuploadable = allItems.filter(canReupload);
+              const isActive = (counts.active || 0) > 0;
+              const isCollapsed = collapsed.has(batch.id);
+
+              return (
+                <motion.div key={batch.id} initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, x: -50 }}>
+                  <GlassCard className="p-4 border-purple-500/20 dark:border-purple-500/20 light:border-purple-500/30">
+                    <div className="flex items-start gap-3">
+                      <button onClick={() => toggleBatch(batch.id)} className="mt-0.5 text-gray-400 hover:text-white transition-colors duration-300">
+                        {isCollapsed ? <ChevronRight size={18} /> : <ChevronDown size={18} />}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-semibold text-white dark:text-white light:text-gray-900 transition-colors duration-300">
+                          {formatBatchTime(batch.createdAt)} · {allItems.length} {allItems.length === 1 ? 'file' : 'files'}
+                        </p>
+                        <div className="flex flex-wrap gap-1.5 mt-2">
+                          {Object.entries(counts).map(([status, count]) => (
+                            <span key={status} className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_STYLES[status].className}`}>
+                              {count} {STATUS_STYLES[status].label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      {!isActive && (
+                        <button
+                          onClick={() => handleDeleteBatch(batch)}
+                          title="Remove from history"
+                          className="p-1.5 rounded-full text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors duration-300"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+
+                    {reuploadable.length > 0 && (
+                      <button
+                        onClick={() => handleReupload(reuploadable)}
+                        className="w-full mt-3 flex items-center justify-center gap-2 py-2 rounded-xl bg-purple-500/20 hover:bg-purple-500/30 text-sm font-semibold text-purple-300 dark:text-purple-300 light:text-purple-700 transition-colors duration-300"
+                      >
+                        <RotateCcw size={14} /> Re-upload {reuploadable.length} failed / no-face {reuploadable.length === 1 ? 'file' : 'files'}
+                      </button>
+                    )}
+
+                    {!isCollapsed && (
+                      <div className="mt-3 space-y-2">
+                        {batch.items.map((item) => {
+                          const status = fileStatus(item);
+                          return (
+                            <div key={item.id} className="flex items-center gap-3 px-3 py-2 rounded-xl bg-white/5 dark:bg-white/5 light:bg-gray-100 transition-colors duration-300">
+                              {item.kind === 'video'
+                                ? <Film size={16} className="flex-shrink-0 text-blue-400" />
+                                : <ImageIcon size={16} className="flex-shrink-0 text-purple-400 dark:text-purple-400 light:text-purple-600" />}
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm text-white dark:text-white light:text-gray-900 truncate transition-colors duration-300">{item.name}</p>
+                                <p className="text-xs text-gray-400 dark:text-gray-400 light:text-gray-600 truncate transition-colors duration-300">
+                                  {formatFileSize(item.size)}
+                                  {item.error && <span className="text-red-400"> · {item.error}</span>}
+                                </p>
+                              </div>
+                              <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold whitespace-nowrap ${STATUS_STYLES[status].className}`}>
+                                {STATUS_STYLES[status].label}
+                              </span>
+                              {canReupload(item) && (
+                                <button
+                                  onClick={() => handleReupload([item])}
+                                  title="Re-upload"
+                                  className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors duration-300"
+                                >
+                                  <RotateCcw size={14} />
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </GlassCard>
+                </motion.div>
+              );
+            })}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadJobs;
@@ -0,0 +1,302 @@
+// apiClient.ts
+// Typed HTTP client shared by every FaceFinder API call
+
+export const API_BASE_URL = process.env.API_BASE_URL || 'https://jai14-facefinder.hf.space';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * A fully resolved request handed to the transport
+ */
+export interface TransportRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  signal?: AbortSignal;
+  /** Report request body bytes as they are sent */
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Sends a request and resolves with a standard Response.
+ * Swap it out (see setTransport) to run the app against a fake backend.
+ */
+export type Transport = (request: TransportRequest) => Promise<Response>;
+
+const parseResponseHeaders = (raw: string): Headers => {
+  const headers = new Headers();
+  raw.trim().split(/[\r\n]+/).forEach((line) => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers.append(line.slice(0, index).trim(), line.slice(index + 1).trim());
+    }
+  });
+  return headers;
+};
+
+/**
+ * fetch cannot report upload progress, so requests that ask for it go through XMLHttpRequest.
+ * The response body is streamed as it arrives so server-sent events still work.
+ */
+const xhrTransport: Transport = (request) =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const encoder = new TextEncoder();
+    let bodyController: ReadableStreamDefaultController<Uint8Array> | null = null;
+    let seen = 0;
+
+    const flush = () => {
+      const text = xhr.responseText;
+      if (text.length > seen) {
+        bodyController?.enqueue(encoder.encode(text.slice(seen)));
+        seen = text.length;
+      }
+    };
+
+    xhr.open(request.method, request.url);
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        request.onUploadProgress?.(event.loaded, event.total);
+      }
+    };
+    xhr.onreadystatechange = () => {
+      if (xhr.readyState !== XMLHttpRequest.HEADERS_RECEIVED) return;
+      const init = { status: xhr.status, statusText: xhr.statusText, headers: parseResponseHeaders(xhr.getAllResponseHeaders()) };
+      if (xhr.status === 204 || xhr.status === 304) {
+        resolve(new Response(null, init));
+        return;
+      }
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          bodyController = controller;
+        },
+      });
+      resolve(new Response(body, init));
+    };
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      flush();
+      bodyController?.close();
+    };
+    xhr.onerror = () => {
+      const error = new TypeError('Network request failed');
+      bodyController?.error(error);
+      reject(error);
+    };
+    xhr.onabort = () => {
+      const error = new DOMException('The operation was aborted.', 'AbortError');
+      bodyController?.error(error);
+      reject(error);
+    };
+    request.signal?.addEventListener('abort', () => xhr.abort());
+
+    xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+
+export const fetchTransport: Transport = (request) => {
+  if (request.onUploadProgress) {
+    return xhrTransport(request);
+  }
+  return fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  });
+};
+
+let activeTransport: Transport = fetchTransport;
+
+/**
+ * Replace the transport used by every API call
+ */
+export const setTransport = (transport: Transport) => {
+  activeTransport = transport;
+};
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network';
+
+/**
+ * Error thrown for any failed API call.
+ * `status` is the HTTP status code, or 0 when no response was received.
+ */
+export class ApiError extends Error {
+  status: number;
+  kind: ApiErrorKind;
+  data?: any;
+
+  constructor(message: string, status: number, kind: ApiErrorKind = 'http', data?: any) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.kind = kind;
+    this.data = data;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+export interface RequestOptions {
+  method?: HttpMethod;
+  token?: string | null;
+  query?: Record<string, string | number | boolean | undefined | null>;
+  json?: unknown;
+  formData?: FormData;
+  timeout?: number;
+  signal?: AbortSignal;
+  errorMessage?: string;
+  /** Skip the refresh-and-retry step on 401 (used by the refresh call itself) */
+  skipAuthRefresh?: boolean;
+  /** Report request body bytes as they are sent */
+  onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Called when an authenticated request comes back 401.
+ * Resolves with a fresh token to retry once with, or null to give up.
+ */
+export type UnauthorizedHandler = (failedToken: string) => Promise<string | null>;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+export const setUnauthorizedHandler = (handler: UnauthorizedHandler | null) => {
+  unauthorizedHandler = handler;
+};
+
+const buildUrl = (path: string, query?: RequestOptions['query']): string => {
+  const params = new URLSearchParams();
+  if (query) {
+    Object.entries(query).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        params.append(key, String(value));
+      }
+    });
+  }
+  const search = params.toString();
+  return `${API_BASE_URL}${path}${search ? '?' + search : ''}`;
+};
+
+/**
+ * Send a request and return the raw response, throwing ApiError on failure.
+ * Aborts triggered by the caller's own signal are re-thrown untouched.
+ * A 401 on an authenticated request is retried once after the unauthorized handler refreshes the token.
+ */
+export const apiSend = async (path: string, options: RequestOptions = {}): Promise<Response> => {
+  const { method = 'GET', token, query, json, formData, timeout, signal, errorMessage = 'Request failed', skipAuthRefresh, onUploadProgress } = options;
+
+  let body: BodyInit | undefined;
+  const baseHeaders: Record<string, string> = {};
+  if (formData) {
+    body = formData; // Browser sets the multipart boundary
+  } else if (json !== undefined) {
+    baseHeaders['Content-Type'] = 'application/json';
+    body = JSON.stringify(json);
+  }
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeoutId = timeout ? setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeout) : undefined;
+  const forwardAbort = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) controller.abort();
+    signal.addEventListener('abort', forwardAbort);
+  }
+
+  const dispatch = async (authToken?: string | null): Promise<Response> => {
+    const headers = { ...baseHeaders };
+    if (authToken) {
+      headers['Authorization'] = `Bearer ${authToken}`;
+    }
+    try {
+      return await activeTransport({
+        method,
+        url: buildUrl(path, query),
+        headers,
+        body,
+        signal: controller.signal,
+        onUploadProgress,
+      });
+    } catch (error: any) {
+      if (timedOut) {
+        throw new ApiError('Request timeout: Server took too long to respond', 0, 'timeout');
+      }
+      if (error?.name === 'AbortError') {
+        throw error;
+      }
+      throw new ApiError('Connection failed: Unable to reach the server. Please check your connection and try again.', 0, 'network');
+    }
+  };
+
+  let response: Response;
+  try {
+    response = await dispatch(token);
+    if (response.status === 401 && token && unauthorizedHandler && !skipAuthRefresh) {
+      const freshToken = await unauthorizedHandler(token);
+      if (freshToken) {
+        response = await dispatch(freshToken);
+      }
+    }
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', forwardAbort);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ error: errorMessage }));
+    throw new ApiError(errorData.error || errorMessage, response.status, 'http', errorData);
+  }
+
+  return response;
+};
+
+/**
+ * Send a request and parse the JSON response body
+ */
+export const apiRequest = async <T>(path: string, options: RequestOptions = {}): Promise<T> => {
+  const response = await apiSend(path, options);
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return response.json().catch(() => undefined as T);
+};
+
+/**
+ * Read a `data: {...}` server-sent event stream, calling onEvent for each message
+ */
+export const readEventStream = async <T>(response: Response, onEvent: (event: T) => void): Promise<void> => {
+  const reader = response.body?.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  if (!reader) {
+    throw new Error('Response body is not readable');
+  }
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+
+      let event: T;
+      try {
+        event = JSON.parse(line.slice(6));
+      } catch (e) {
+        console.error('Error parsing event data:', e);
+        continue;
+      }
+      onEvent(event);
+    }
+  }
+};
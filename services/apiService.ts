@@ -1,16 +1,39 @@
 // apiService.ts
 // Real API service for FaceFinder backend integration
 
-import { PhotoResult } from '../types';
+import { PhotoResult, FaceBox, Person, VideoSegment, Album, ShareLink, SharedContent } from '../types';
+import { API_BASE_URL, ApiError, apiRequest, apiSend, isApiError, readEventStream } from './apiClient';
 
-const API_BASE_URL = 'https://jai14-facefinder.hf.space';
-
-// const API_BASE_URL = 'http://localhost:5000';
+export { API_BASE_URL, ApiError } from './apiClient';
 
 export interface SearchResponse {
   results: PhotoResult[];
 }
 
+export type SearchStage = 'uploading' | 'detecting' | 'embedding' | 'searching';
+
+/**
+ * Event sent by the streaming search endpoint
+ */
+export interface SearchStreamEvent {
+  type: 'stage' | 'matches' | 'complete' | 'error';
+  stage?: SearchStage;
+  message?: string;
+  results?: PhotoResult[];
+  total?: number;
+  error?: string;
+}
+
+export interface SearchStreamHandlers {
+  onStage?: (stage: SearchStage, message?: string) => void;
+  // Called with each batch of matches as the server finds them
+  onMatches?: (matches: PhotoResult[]) => void;
+}
+
+export interface DetectFacesResponse {
+  faces: FaceBox[];
+}
+
 export interface UploadResponse {
   processed: number;
   failed: number;
@@ -28,10 +51,85 @@ export interface UploadProgress {
   error?: string;
 }
 
+export type UploadKind = 'image' | 'video';
+
+/**
+ * Capture time and place read from a file's own metadata (EXIF/XMP, or the video container)
+ */
+export interface MediaMetadata {
+  datetime?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Server-side state of a chunked upload
+ */
+export interface UploadSession {
+  upload_id: string;
+  chunk_size: number;
+  received_bytes: number;
+}
+
+export type VideoIngestStage = 'uploading' | 'sampling' | 'detecting' | 'storing';
+
+/**
+ * What the server extracted from an ingested video
+ */
+export interface VideoIngestStats {
+  frames_processed: number;
+  faces_found: number;
+  embeddings_stored: number;
+}
+
+/**
+ * Progress of a video upload: bytes sent, then the server's processing stage and running counts
+ */
+export interface VideoIngestProgress extends Partial<VideoIngestStats> {
+  stage: VideoIngestStage;
+  uploaded_bytes?: number;
+  total_bytes?: number;
+  frames_total?: number;
+}
+
+/**
+ * Outcome of processing one uploaded file
+ */
+export interface UploadFileResult {
+  status: NonNullable<UploadProgress['status']>;
+  error?: string;
+  // Present for videos
+  stats?: VideoIngestStats;
+}
+
 export interface ImagesResponse {
   images: PhotoResult[];
 }
 
+/**
+ * Untagged images the server thinks show the same person
+ */
+export interface FaceCluster {
+  id: string;
+  images: PhotoResult[];
+  /** Average face similarity between members, 0 to 1 */
+  similarity: number;
+}
+
+export interface FaceClustersResponse {
+  clusters: FaceCluster[];
+  /** Untagged images whose face matched nobody else's */
+  unclustered: number;
+}
+
+/**
+ * Outcome of a batch operation: which images it applied to and which it could not
+ */
+export interface BatchImageResult {
+  ids: string[];
+  failed_ids: string[];
+}
+
 // Helper function to show toast notifications
 const showToast = (message: string, type: 'success' | 'error' = 'error') => {
   // This will be handled by a toast component
@@ -40,12 +138,64 @@ const showToast = (message: string, type: 'success' | 'error' = 'error') => {
 };
 
 // Helper function to handle API errors
-const handleError = (error: any, defaultMessage: string = 'An error occurred') => {
-  const message = error?.response?.data?.error || error?.message || defaultMessage;
+const handleError = (error: any, defaultMessage: string = 'An error occurred'): never => {
+  const message = error?.message || defaultMessage;
   showToast(message, 'error');
+  // Keep status codes intact for callers that branch on them
+  if (error instanceof ApiError) {
+    throw error;
+  }
   throw new Error(message);
 };
 
+/**
+ * True when the backend refused the call because the user is not an admin
+ */
+export const isPermissionDenied = (error: unknown): boolean =>
+  error instanceof ApiError && error.status === 403;
+
+const toVideoStats = (data: any): VideoIngestStats => ({
+  frames_processed: data?.frames_processed ?? 0,
+  faces_found: data?.faces_found ?? 0,
+  embeddings_stored: data?.embeddings_stored ?? data?.faces_found ?? 0,
+});
+
+/**
+ * Read the result of a video ingestion request. Servers that stream send `stage` events
+ * followed by `complete` with the stats; older ones answer with plain JSON.
+ */
+const readVideoIngest = async (
+  response: Response,
+  onProgress?: (progress: VideoIngestProgress) => void
+): Promise<VideoIngestStats> => {
+  if (!response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const data = await response.json().catch(() => ({}));
+    return toVideoStats(data?.stats ?? data);
+  }
+
+  let stats: VideoIngestStats | null = null;
+  await readEventStream<any>(response, (event) => {
+    if (event.type === 'stage') {
+      onProgress?.({
+        stage: event.stage,
+        frames_total: event.frames_total,
+        frames_processed: event.frames_processed,
+        faces_found: event.faces_found,
+        embeddings_stored: event.embeddings_stored,
+      });
+    } else if (event.type === 'complete') {
+      stats = toVideoStats(event.stats);
+    } else if (event.type === 'error') {
+      throw new Error(event.error || 'Video processing failed');
+    }
+  });
+
+  if (!stats) {
+    throw new Error('Video processed but no result received');
+  }
+  return stats;
+};
+
 /**
  * Search for similar faces in the database
  */
@@ -54,98 +204,199 @@ export const searchSimilarFaces = async (imageFile: File, token?: string | null,
     const formData = new FormData();
     formData.append('image', imageFile);
 
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`${API_BASE_URL}/api/search-image`, {
+    const data = await apiRequest<SearchResponse>('/api/search-image', {
       method: 'POST',
-      headers,
-      body: formData,
+      token,
+      formData,
       signal, // Support abort signal
+      errorMessage: 'Failed to search images',
     });
+    return data.results;
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error; // Re-throw abort errors
+    }
+    return handleError(error, 'Failed to search for similar faces');
+  }
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to search images' }));
-      throw new Error(errorData.error || 'Failed to search images');
+/**
+ * Search for similar faces, receiving matches in batches over a server-sent event stream
+ * along with the backend's progress stages. Resolves with every match once the stream completes.
+ * Falls back to the single-response endpoint when the server has no streaming endpoint.
+ */
+export const streamSimilarFaces = async (
+  imageFile: File,
+  token: string | null | undefined,
+  handlers: SearchStreamHandlers = {},
+  signal?: AbortSignal
+): Promise<PhotoResult[]> => {
+  try {
+    const formData = new FormData();
+    formData.append('image', imageFile);
+
+    handlers.onStage?.('uploading');
+    let response: Response;
+    try {
+      response = await apiSend('/api/search-image/stream', {
+        method: 'POST',
+        token,
+        formData,
+        signal,
+        errorMessage: 'Failed to search images',
+      });
+    } catch (error) {
+      if (isApiError(error) && error.status === 404) {
+        handlers.onStage?.('searching');
+        const results = await searchSimilarFaces(imageFile, token, signal);
+        handlers.onMatches?.(results);
+        return results;
+      }
+      throw error;
     }
 
-    const data: SearchResponse = await response.json();
-    return data.results;
+    const matches: PhotoResult[] = [];
+    await readEventStream<SearchStreamEvent>(response, (event) => {
+      if (event.type === 'stage' && event.stage) {
+        handlers.onStage?.(event.stage, event.message);
+      } else if (event.type === 'matches' && event.results) {
+        matches.push(...event.results);
+        handlers.onMatches?.(event.results);
+      } else if (event.type === 'error') {
+        throw new Error(event.error || 'Search failed');
+      }
+    });
+
+    return matches;
   } catch (error: any) {
     if (error.name === 'AbortError') {
-      throw error; // Re-throw abort errors
+      throw error;
+    }
+    return handleError(error, 'Failed to search for similar faces');
+  }
+};
+
+export interface ReferenceSearchResult {
+  matches: PhotoResult[];
+  /** Indexes of reference photos whose search failed; their matches are missing from the ranking */
+  failed: number[];
+}
+
+/**
+ * Search with several reference photos of the same person.
+ * Each photo is searched separately and matches are merged by id, then re-ranked by aggregate similarity:
+ * the mean similarity over the references that found the match, scaled down by up to half
+ * when only some references found it. `reference_index` marks the reference with the strongest match.
+ * References whose search fails are left out of the ranking; the search only fails when all of them do.
+ */
+export const searchByReferences = async (imageFiles: File[], token?: string | null, signal?: AbortSignal): Promise<ReferenceSearchResult> => {
+  const outcomes = await Promise.allSettled(imageFiles.map(file => searchSimilarFaces(file, token, signal)));
+  if (signal?.aborted) {
+    throw new DOMException('The operation was aborted.', 'AbortError');
+  }
+  const failed = outcomes.flatMap((outcome, index) => outcome.status === 'rejected' ? [index] : []);
+  if (failed.length === outcomes.length) {
+    throw (outcomes[0] as PromiseRejectedResult).reason;
+  }
+  const searched = outcomes.length - failed.length;
+
+  const merged = new Map<string, PhotoResult>();
+  outcomes.forEach((outcome, referenceIndex) => {
+    if (outcome.status === 'rejected') return;
+    outcome.value.forEach((match) => {
+      const existing = merged.get(match.id);
+      const similarities = existing?.reference_similarities || new Array(imageFiles.length).fill(0);
+      similarities[referenceIndex] = Math.max(similarities[referenceIndex], match.similarity || 0);
+      merged.set(match.id, { ...(existing || match), reference_similarities: similarities });
+    });
+  });
+
+  const matches = Array.from(merged.values())
+    .map((match) => {
+      const similarities = match.reference_similarities || [];
+      const found = similarities.filter(value => value > 0);
+      const mean = found.length > 0 ? found.reduce((sum, value) => sum + value, 0) / found.length : 0;
+      const similarity = mean * (0.5 + 0.5 * (found.length / searched));
+      return {
+        ...match,
+        similarity,
+        confidence: Math.round(similarity * 100),
+        reference_index: similarities.indexOf(Math.max(...similarities)),
+      };
+    })
+    .sort((a, b) => b.similarity - a.similarity);
+  return { matches, failed };
+};
+
+/**
+ * Locate every face in a query photo. Boxes are fractions of the image size.
+ */
+export const detectFaces = async (imageFile: File, token?: string | null, signal?: AbortSignal): Promise<FaceBox[]> => {
+  try {
+    const formData = new FormData();
+    formData.append('image', imageFile);
+
+    const data = await apiRequest<DetectFacesResponse>('/api/detect-faces', {
+      method: 'POST',
+      token,
+      formData,
+      signal,
+      timeout: 30000,
+      errorMessage: 'Failed to detect faces',
+    });
+    return data.faces || [];
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error;
     }
-    handleError(error, 'Failed to search for similar faces');
-    return [];
+    return handleError(error, 'Failed to detect faces');
   }
 };
 
 /**
- * Upload multiple images (Admin only) with progress tracking
+ * Upload multiple images (Admin only) with progress tracking.
+ * Metadata, when given, lines up with files by index.
  */
 export const uploadImages = async (
+  token: string | null,
   files: File[],
-  onProgress?: (progress: UploadProgress) => void
+  onProgress?: (progress: UploadProgress) => void,
+  signal?: AbortSignal,
+  metadata?: Array<MediaMetadata | undefined>
 ): Promise<UploadResponse> => {
   try {
     const formData = new FormData();
-    files.forEach((file) => {
+    files.forEach((file, index) => {
       formData.append('images', file);
+      if (metadata) {
+        formData.append('metadata', JSON.stringify(metadata[index] || {}));
+      }
     });
 
-    const response = await fetch(`${API_BASE_URL}/api/admin/upload`, {
+    const response = await apiSend('/api/admin/upload', {
       method: 'POST',
-      body: formData,
+      token,
+      formData,
+      signal,
+      errorMessage: 'Failed to upload images',
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to upload images' }));
-      throw new Error(errorData.error || 'Failed to upload images');
-    }
-
     // Handle streaming response
-    const reader = response.body?.getReader();
-    const decoder = new TextDecoder();
-    let buffer = '';
     let finalResult: UploadResponse | null = null;
 
-    if (!reader) {
-      throw new Error('Response body is not readable');
-    }
-
-    while (true) {
-      const { done, value } = await reader.read();
-
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          try {
-            const data = JSON.parse(line.slice(6));
-
-            if (data.type === 'progress' && onProgress) {
-              onProgress(data as UploadProgress);
-            } else if (data.type === 'complete') {
-              finalResult = {
-                processed: data.processed,
-                failed: data.failed,
-                failed_files: data.failed_files || [],
-              };
-            } else if (data.type === 'error') {
-              throw new Error(data.error || 'Upload failed');
-            }
-          } catch (e) {
-            console.error('Error parsing progress data:', e);
-          }
-        }
+    await readEventStream<any>(response, (data) => {
+      if (data.type === 'progress' && onProgress) {
+        onProgress(data as UploadProgress);
+      } else if (data.type === 'complete') {
+        finalResult = {
+          processed: data.processed,
+          failed: data.failed,
+          failed_files: data.failed_files || [],
+        };
+      } else if (data.type === 'error') {
+        throw new Error(data.error || 'Upload failed');
       }
-    }
+    });
 
     if (!finalResult) {
       throw new Error('Upload completed but no result received');
@@ -153,144 +404,455 @@ export const uploadImages = async (
 
     return finalResult;
   } catch (error: any) {
-    handleError(error, 'Failed to upload images');
-    throw error;
+    if (error.name === 'AbortError') {
+      throw error;
+    }
+    return handleError(error, 'Failed to upload images');
   }
 };
 
 /**
- * Upload a video file (Admin only)
+ * Upload a video file (Admin only), reporting bytes sent and then each server processing stage
  */
 export const uploadVideo = async (
+  token: string | null,
   file: File,
-  onProgress?: (step: string) => void
-): Promise<void> => {
+  onProgress?: (progress: VideoIngestProgress) => void,
+  signal?: AbortSignal,
+  metadata?: MediaMetadata
+): Promise<VideoIngestStats> => {
   try {
     const formData = new FormData();
     formData.append('video', file);
+    if (metadata) {
+      formData.append('metadata', JSON.stringify(metadata));
+    }
 
-    if (onProgress) onProgress('Uploading video...');
+    onProgress?.({ stage: 'uploading', uploaded_bytes: 0, total_bytes: file.size });
 
-    const response = await fetch(`${API_BASE_URL}/api/admin/upload-video`, {
+    const response = await apiSend('/api/admin/upload-video', {
       method: 'POST',
-      body: formData,
+      token,
+      query: { stream: true },
+      formData,
+      signal,
+      onUploadProgress: (loaded, total) => {
+        // Multipart framing makes total slightly larger than the file
+        onProgress?.({ stage: 'uploading', uploaded_bytes: Math.round((loaded / total) * file.size), total_bytes: file.size });
+      },
+      errorMessage: 'Failed to upload video',
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to upload video' }));
-      throw new Error(errorData.error || 'Failed to upload video');
+    return await readVideoIngest(response, onProgress);
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error;
     }
+    return handleError(error, 'Failed to upload video');
+  }
+};
 
-    // The response includes stats, but we just return void for now
-    const data = await response.json();
-    console.log("Video processed:", data);
-
+/**
+ * Start a chunked upload (Admin only)
+ */
+export const createUploadSession = async (
+  token: string | null,
+  file: { name: string; size: number; type: string },
+  kind: UploadKind,
+  signal?: AbortSignal,
+  metadata?: MediaMetadata
+): Promise<UploadSession> => {
+  try {
+    return await apiRequest<UploadSession>('/api/admin/uploads', {
+      method: 'POST',
+      token,
+      json: { file_name: file.name, file_size: file.size, mime_type: file.type, kind, metadata },
+      signal,
+      timeout: 30000,
+      errorMessage: 'Failed to start upload',
+    });
   } catch (error: any) {
-    handleError(error, 'Failed to upload video');
-    throw error;
+    if (error.name === 'AbortError') {
+      throw error;
+    }
+    return handleError(error, 'Failed to start upload');
   }
 };
 
 /**
- * Get all images from database (Admin only)
- * @param taggedBy Optional profile name to filter by
- * @param untaggedOnly If true, only return untagged images
+ * Get how much of a chunked upload the server has received, to resume it
  */
-export const getAllImages = async (taggedBy?: string, untaggedOnly?: boolean): Promise<PhotoResult[]> => {
+export const getUploadSession = async (token: string | null, uploadId: string, signal?: AbortSignal): Promise<UploadSession> => {
   try {
-    const params = new URLSearchParams();
-    if (taggedBy) {
-      params.append('tagged_by', taggedBy);
+    return await apiRequest<UploadSession>(`/api/admin/uploads/${uploadId}`, {
+      token,
+      signal,
+      timeout: 30000,
+      errorMessage: 'Failed to load upload',
+    });
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error;
     }
-    if (untaggedOnly) {
-      params.append('untagged_only', 'true');
+    return handleError(error, 'Failed to load upload');
+  }
+};
+
+/**
+ * Send one chunk of a file. `offset` must equal the bytes the server already has.
+ */
+export const uploadChunk = async (
+  token: string | null,
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  signal?: AbortSignal,
+  onUploadProgress?: (sentBytes: number) => void
+): Promise<UploadSession> => {
+  try {
+    const formData = new FormData();
+    formData.append('chunk', chunk);
+
+    return await apiRequest<UploadSession>(`/api/admin/uploads/${uploadId}/chunks`, {
+      method: 'PUT',
+      token,
+      query: { offset },
+      formData,
+      signal,
+      timeout: 120000,
+      onUploadProgress: onUploadProgress && ((loaded, total) => onUploadProgress(Math.round((loaded / total) * chunk.size))),
+      errorMessage: 'Failed to upload chunk',
+    });
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error;
     }
+    return handleError(error, 'Failed to upload chunk');
+  }
+};
 
-    const url = `${API_BASE_URL}/api/admin/images${params.toString() ? '?' + params.toString() : ''}`;
-    const response = await fetch(url, {
-      method: 'GET',
+/**
+ * Finish a chunked upload once every byte is in; the server then processes the file.
+ * Videos report their processing stages through onProgress.
+ */
+export const completeUpload = async (
+  token: string | null,
+  uploadId: string,
+  signal?: AbortSignal,
+  onProgress?: (progress: VideoIngestProgress) => void
+): Promise<UploadFileResult> => {
+  try {
+    const response = await apiSend(`/api/admin/uploads/${uploadId}/complete`, {
+      method: 'POST',
+      token,
+      query: { stream: true },
+      signal,
+      errorMessage: 'Failed to process upload',
     });
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch images' }));
-      throw new Error(errorData.error || 'Failed to fetch images');
+    if (response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      return { status: 'success', stats: await readVideoIngest(response, onProgress) };
     }
+    return await response.json();
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw error;
+    }
+    return handleError(error, 'Failed to process upload');
+  }
+};
 
-    const data: ImagesResponse = await response.json();
+/**
+ * Discard a chunked upload and whatever the server received of it
+ */
+export const cancelUploadSession = async (token: string | null, uploadId: string): Promise<void> => {
+  try {
+    await apiRequest<void>(`/api/admin/uploads/${uploadId}`, {
+      method: 'DELETE',
+      token,
+      errorMessage: 'Failed to cancel upload',
+    });
+  } catch (error: any) {
+    handleError(error, 'Failed to cancel upload');
+  }
+};
+
+/**
+ * Get all images from database (Admin only)
+ * @param personId Optional person to filter by
+ * @param untaggedOnly If true, only return untagged images
+ */
+export const getAllImages = async (token: string | null, personId?: string, untaggedOnly?: boolean): Promise<PhotoResult[]> => {
+  try {
+    const data = await apiRequest<ImagesResponse>('/api/admin/images', {
+      token,
+      query: {
+        person_id: personId,
+        untagged_only: untaggedOnly ? 'true' : undefined,
+      },
+      errorMessage: 'Failed to fetch images',
+    });
     return data.images;
   } catch (error: any) {
-    handleError(error, 'Failed to fetch images');
-    return [];
+    return handleError(error, 'Failed to fetch images');
   }
 };
 
 /**
  * Get all unique tags (profile names) from database (Admin only)
  */
-export const getAllTags = async (): Promise<string[]> => {
+export const getAllTags = async (token: string | null): Promise<string[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/admin/tags`, {
-      method: 'GET',
+    const data = await apiRequest<{ tags?: string[] }>('/api/admin/tags', {
+      token,
+      errorMessage: 'Failed to fetch tags',
     });
+    return data.tags || [];
+  } catch (error: any) {
+    return handleError(error, 'Failed to fetch tags');
+  }
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch tags' }));
-      throw new Error(errorData.error || 'Failed to fetch tags');
-    }
+/**
+ * Fields an admin can set on a person. Null clears the cover image or the linked account.
+ */
+export interface PersonInput {
+  name?: string;
+  aliases?: string[];
+  cover_image_id?: string | null;
+  user_id?: number | null;
+}
 
-    const data = await response.json();
-    return data.tags || [];
+/**
+ * Get every tagged person with their image count and cover (Admin only)
+ */
+export const getPeople = async (token: string | null): Promise<Person[]> => {
+  try {
+    const data = await apiRequest<{ people: Person[] }>('/api/admin/people', {
+      token,
+      errorMessage: 'Failed to fetch people',
+    });
+    return data.people;
   } catch (error: any) {
-    handleError(error, 'Failed to fetch tags');
-    return [];
+    return handleError(error, 'Failed to fetch people');
   }
 };
 
 /**
- * Delete an image from database (Admin only)
+ * Create a person (Admin only). Fails with 409 when the name or an alias belongs to someone else.
+ */
+export const createPerson = async (token: string | null, person: PersonInput & { name: string }): Promise<Person> => {
+  try {
+    const data = await apiRequest<{ person: Person }>('/api/admin/people', {
+      method: 'POST',
+      token,
+      json: person,
+      errorMessage: 'Failed to create person',
+    });
+    return data.person;
+  } catch (error: any) {
+    return handleError(error, 'Failed to create person');
+  }
+};
+
+/**
+ * Rename a person or change their aliases, cover or linked account (Admin only)
+ */
+export const updatePerson = async (token: string | null, personId: string, updates: PersonInput): Promise<Person> => {
+  try {
+    const data = await apiRequest<{ person: Person }>(`/api/admin/people/${personId}`, {
+      method: 'PUT',
+      token,
+      json: updates,
+      errorMessage: 'Failed to update person',
+    });
+    return data.person;
+  } catch (error: any) {
+    return handleError(error, 'Failed to update person');
+  }
+};
+
+/**
+ * Delete a person; their images become untagged (Admin only)
  */
-export const deleteImage = async (imageId: string): Promise<void> => {
+export const deletePerson = async (token: string | null, personId: string): Promise<void> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/admin/image/${imageId}`, {
+    await apiSend(`/api/admin/people/${personId}`, {
       method: 'DELETE',
+      token,
+      errorMessage: 'Failed to delete person',
     });
+  } catch (error: any) {
+    handleError(error, 'Failed to delete person');
+  }
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to delete image' }));
-      throw new Error(errorData.error || 'Failed to delete image');
-    }
+/**
+ * Fold duplicate people into one: their images move over and their names become aliases (Admin only)
+ */
+export const mergePeople = async (token: string | null, targetId: string, sourceIds: string[]): Promise<Person> => {
+  try {
+    const data = await apiRequest<{ person: Person }>(`/api/admin/people/${targetId}/merge`, {
+      method: 'POST',
+      token,
+      json: { source_ids: sourceIds },
+      errorMessage: 'Failed to merge people',
+    });
+    return data.person;
+  } catch (error: any) {
+    return handleError(error, 'Failed to merge people');
+  }
+};
+
+/**
+ * Delete an image from database (Admin only)
+ */
+export const deleteImage = async (token: string | null, imageId: string): Promise<void> => {
+  try {
+    await apiSend(`/api/admin/image/${imageId}`, {
+      method: 'DELETE',
+      token,
+      errorMessage: 'Failed to delete image',
+    });
   } catch (error: any) {
     handleError(error, 'Failed to delete image');
-    throw error;
   }
 };
 
 /**
  * Update image metadata (Admin only)
  */
-export const updateImage = async (imageId: string, metadata: Partial<PhotoResult>): Promise<void> => {
+const toImageUpdate = (metadata: Partial<PhotoResult>) => {
+  const updateData: any = {};
+  if (metadata.datetime !== undefined) updateData.datetime = metadata.datetime;
+  if (metadata.latitude !== undefined) updateData.latitude = metadata.latitude;
+  if (metadata.longitude !== undefined) updateData.longitude = metadata.longitude;
+  if (metadata.person_id !== undefined) updateData.person_id = metadata.person_id;
+  return updateData;
+};
+
+export const updateImage = async (token: string | null, imageId: string, metadata: Partial<PhotoResult>): Promise<void> => {
   try {
-    const updateData: any = {};
-    if (metadata.datetime !== undefined) updateData.datetime = metadata.datetime;
-    if (metadata.latitude !== undefined) updateData.latitude = metadata.latitude;
-    if (metadata.longitude !== undefined) updateData.longitude = metadata.longitude;
-    if (metadata.tagged_by !== undefined) updateData.tagged_by = metadata.tagged_by;
+    await apiSend(`/api/admin/image/${imageId}`, {
+      method: 'PUT',
+      token,
+      json: toImageUpdate(metadata),
+      errorMessage: 'Failed to update image',
+    });
+  } catch (error: any) {
+    handleError(error, 'Failed to update image');
+  }
+};
 
-    const response = await fetch(`${API_BASE_URL}/api/admin/image/${imageId}`, {
+/**
+ * Tag one face in an image with a person, or untag it with null (Admin only).
+ * Returns the image with its faces updated.
+ */
+export const tagFace = async (
+  token: string | null,
+  imageId: string,
+  faceId: string,
+  personId: string | null
+): Promise<PhotoResult> => {
+  try {
+    const data = await apiRequest<{ image: PhotoResult }>(`/api/admin/image/${imageId}/faces/${faceId}`, {
       method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(updateData),
+      token,
+      json: { person_id: personId },
+      errorMessage: 'Failed to tag face',
     });
+    return data.image;
+  } catch (error: any) {
+    return handleError(error, 'Failed to tag face');
+  }
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to update image' }));
-      throw new Error(errorData.error || 'Failed to update image');
-    }
+/**
+ * Apply the same metadata to many images at once, e.g. tag or move a whole event (Admin only).
+ * An empty person_id untags them.
+ */
+export const batchUpdateImages = async (
+  token: string | null,
+  imageIds: string[],
+  metadata: Partial<PhotoResult>
+): Promise<BatchImageResult> => {
+  try {
+    return await apiRequest<BatchImageResult>('/api/admin/images/batch-update', {
+      method: 'POST',
+      token,
+      json: { ids: imageIds, updates: toImageUpdate(metadata) },
+      timeout: 60000,
+      errorMessage: 'Failed to update images',
+    });
   } catch (error: any) {
-    handleError(error, 'Failed to update image');
-    throw error;
+    return handleError(error, 'Failed to update images');
+  }
+};
+
+/**
+ * Delete many images from the database in one request (Admin only)
+ */
+export const batchDeleteImages = async (token: string | null, imageIds: string[]): Promise<BatchImageResult> => {
+  try {
+    return await apiRequest<BatchImageResult>('/api/admin/images/batch-delete', {
+      method: 'POST',
+      token,
+      json: { ids: imageIds },
+      timeout: 60000,
+      errorMessage: 'Failed to delete images',
+    });
+  } catch (error: any) {
+    return handleError(error, 'Failed to delete images');
+  }
+};
+
+/**
+ * Group untagged images by face similarity into suggested people (Admin only).
+ * A higher threshold gives tighter, smaller clusters.
+ */
+export const getFaceClusters = async (token: string | null, threshold?: number): Promise<FaceClustersResponse> => {
+  try {
+    return await apiRequest<FaceClustersResponse>('/api/admin/face-clusters', {
+      token,
+      query: { threshold },
+      timeout: 60000,
+      errorMessage: 'Failed to load suggested people',
+    });
+  } catch (error: any) {
+    return handleError(error, 'Failed to load suggested people');
+  }
+};
+
+/**
+ * Split a suggested cluster in two along its weakest face match (Admin only)
+ */
+export const splitFaceCluster = async (token: string | null, imageIds: string[]): Promise<FaceCluster[]> => {
+  try {
+    const data = await apiRequest<{ clusters: FaceCluster[] }>('/api/admin/face-clusters/split', {
+      method: 'POST',
+      token,
+      json: { image_ids: imageIds },
+      errorMessage: 'Failed to split cluster',
+    });
+    return data.clusters;
+  } catch (error: any) {
+    return handleError(error, 'Failed to split cluster');
+  }
+};
+
+/**
+ * Mark an image as not the same person as the rest of its cluster, so it is not suggested with them again (Admin only)
+ */
+export const rejectClusterImage = async (token: string | null, imageId: string, clusterImageIds: string[]): Promise<void> => {
+  try {
+    await apiSend('/api/admin/face-clusters/reject', {
+      method: 'POST',
+      token,
+      json: { image_id: imageId, cluster_image_ids: clusterImageIds },
+      errorMessage: 'Failed to remove image from cluster',
+    });
+  } catch (error: any) {
+    handleError(error, 'Failed to remove image from cluster');
   }
 };
 
@@ -298,7 +860,8 @@ export const updateImage = async (imageId: string, metadata: Partial<PhotoResult
  * Get image URL (helper function)
  */
 export const getImageUrl = (imagePath: string): string => {
-  if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+  // Already absolute, or local to the browser (clips recorded on this device)
+  if (/^(https?|blob|data):/.test(imagePath)) {
     return imagePath;
   }
   if (imagePath.startsWith('/api/images/')) {
@@ -321,6 +884,12 @@ export interface AuthResponse {
     is_admin: boolean;
   };
   token: string;
+  refresh_token?: string;
+}
+
+export interface RefreshResponse {
+  token: string;
+  refresh_token?: string;
 }
 
 export interface UserProfile {
@@ -332,29 +901,33 @@ export interface UserProfile {
   created_at?: string;
 }
 
+/**
+ * Get all user accounts, to link people to (Admin only)
+ */
+export const getAdminUsers = async (token: string | null): Promise<UserProfile[]> => {
+  try {
+    const data = await apiRequest<{ users: UserProfile[] }>('/api/admin/users', {
+      token,
+      errorMessage: 'Failed to fetch users',
+    });
+    return data.users;
+  } catch (error: any) {
+    return handleError(error, 'Failed to fetch users');
+  }
+};
+
 /**
  * Sign up a new user
  */
 export const signUp = async (name: string, email: string, password: string): Promise<AuthResponse> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/auth/signup`, {
+    return await apiRequest<AuthResponse>('/api/auth/signup', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ name, email, password }),
+      json: { name, email, password },
+      errorMessage: 'Failed to sign up',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to sign up' }));
-      throw new Error(errorData.error || 'Failed to sign up');
-    }
-
-    const data: AuthResponse = await response.json();
-    return data;
   } catch (error: any) {
-    handleError(error, 'Failed to sign up');
-    throw error;
+    return handleError(error, 'Failed to sign up');
   }
 };
 
@@ -363,67 +936,39 @@ export const signUp = async (name: string, email: string, password: string): Pro
  */
 export const signIn = async (email: string, password: string): Promise<AuthResponse> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/auth/signin`, {
+    return await apiRequest<AuthResponse>('/api/auth/signin', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ email, password }),
+      json: { email, password },
+      errorMessage: 'Failed to sign in',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to sign in' }));
-      throw new Error(errorData.error || 'Failed to sign in');
-    }
-
-    const data: AuthResponse = await response.json();
-    return data;
   } catch (error: any) {
-    handleError(error, 'Failed to sign in');
-    throw error;
+    return handleError(error, 'Failed to sign in');
   }
 };
 
+/**
+ * Exchange a refresh token for a new access token (and possibly a rotated refresh token)
+ */
+export const refreshAuthToken = async (refreshToken: string): Promise<RefreshResponse> => {
+  return apiRequest<RefreshResponse>('/api/auth/refresh', {
+    method: 'POST',
+    json: { refresh_token: refreshToken },
+    timeout: 10000,
+    skipAuthRefresh: true,
+    errorMessage: 'Session expired',
+  });
+};
+
 /**
  * Get current user profile (requires authentication)
  */
 export const getProfile = async (token: string): Promise<{ user: UserProfile }> => {
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(`${API_BASE_URL}/api/auth/profile`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch profile' }));
-      throw new Error(errorData.error || `Failed to fetch profile: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      throw new Error('Request timeout: Server took too long to respond');
-    }
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
-      throw new Error('Connection failed: Unable to reach the server. Please check your connection and try again.');
-    }
-    // Re-throw if it's already an Error with a message
-    if (error.message) {
-      throw error;
-    }
-    handleError(error, 'Failed to fetch profile');
-    throw error;
-  }
+  // Timeout and connection failures surface as ApiError with a readable message
+  return apiRequest<{ user: UserProfile }>('/api/auth/profile', {
+    token,
+    timeout: 10000, // 10 second timeout
+    errorMessage: 'Failed to fetch profile',
+  });
 };
 
 /**
@@ -434,24 +979,14 @@ export const updateProfileImage = async (token: string, imageFile: File): Promis
     const formData = new FormData();
     formData.append('image', imageFile);
 
-    const response = await fetch(`${API_BASE_URL}/api/auth/profile/image`, {
+    return await apiRequest<{ user: UserProfile }>('/api/auth/profile/image', {
       method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
-      body: formData,
+      token,
+      formData,
+      errorMessage: 'Failed to update profile image',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to update profile image' }));
-      throw new Error(errorData.error || 'Failed to update profile image');
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error: any) {
-    handleError(error, 'Failed to update profile image');
-    throw error;
+    return handleError(error, 'Failed to update profile image');
   }
 };
 
@@ -462,7 +997,8 @@ export const getProfileImageUrl = (imagePath: string | null): string | null => {
   if (!imagePath) {
     return null; // No default avatar - will show initials instead
   }
-  if (imagePath.startsWith('http://') || imagePath.startsWith('https://')) {
+  // Already absolute, or local to the browser (clips recorded on this device)
+  if (/^(https?|blob|data):/.test(imagePath)) {
     return imagePath;
   }
   if (imagePath.startsWith('/api/profile-images/')) {
@@ -480,51 +1016,276 @@ export const getProfileImageUrl = (imagePath: string | null): string | null => {
  */
 export const saveToGallery = async (token: string, imageData: PhotoResult): Promise<void> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/gallery/save`, {
+    await apiSend('/api/gallery/save', {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(imageData),
+      token,
+      json: imageData,
+      errorMessage: 'Failed to save image',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to save image' }));
-      throw new Error(errorData.error || 'Failed to save image');
-    }
   } catch (error: any) {
     handleError(error, 'Failed to save image to gallery');
-    throw error;
   }
 };
 
 /**
- * Get user's gallery images (requires authentication)
+ * Get the user's albums in their chosen order (requires authentication)
  */
-export const getGalleryImages = async (token: string): Promise<PhotoResult[]> => {
+export const getAlbums = async (token: string): Promise<Album[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/gallery/images`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
+    const data = await apiRequest<{ albums: Album[] }>('/api/gallery/albums', {
+      token,
+      errorMessage: 'Failed to fetch albums',
+    });
+    return data.albums;
+  } catch (error: any) {
+    return handleError(error, 'Failed to fetch albums');
+  }
+};
+
+/**
+ * Create an album, optionally starting with some gallery items
+ */
+export const createAlbum = async (token: string, name: string, itemIds: string[] = []): Promise<Album> => {
+  try {
+    const data = await apiRequest<{ album: Album }>('/api/gallery/albums', {
+      method: 'POST',
+      token,
+      json: { name, item_ids: itemIds },
+      errorMessage: 'Failed to create album',
+    });
+    return data.album;
+  } catch (error: any) {
+    return handleError(error, 'Failed to create album');
+  }
+};
+
+/**
+ * Rename an album, pick its cover or reorder its items. item_ids must list the same items as before.
+ */
+export const updateAlbum = async (
+  token: string,
+  albumId: string,
+  updates: Partial<Pick<Album, 'name' | 'cover_item_id' | 'item_ids'>>
+): Promise<Album> => {
+  try {
+    const data = await apiRequest<{ album: Album }>(`/api/gallery/albums/${albumId}`, {
+      method: 'PUT',
+      token,
+      json: updates,
+      errorMessage: 'Failed to update album',
+    });
+    return data.album;
+  } catch (error: any) {
+    return handleError(error, 'Failed to update album');
+  }
+};
+
+/**
+ * Delete an album. Its items stay in the gallery.
+ */
+export const deleteAlbum = async (token: string, albumId: string): Promise<void> => {
+  try {
+    await apiSend(`/api/gallery/albums/${albumId}`, {
+      method: 'DELETE',
+      token,
+      errorMessage: 'Failed to delete album',
+    });
+  } catch (error: any) {
+    handleError(error, 'Failed to delete album');
+  }
+};
+
+/**
+ * Save the order albums are listed in
+ */
+export const reorderAlbums = async (token: string, albumIds: string[]): Promise<void> => {
+  try {
+    await apiSend('/api/gallery/albums/order', {
+      method: 'PUT',
+      token,
+      json: { album_ids: albumIds },
+      errorMessage: 'Failed to reorder albums',
+    });
+  } catch (error: any) {
+    handleError(error, 'Failed to reorder albums');
+  }
+};
+
+/**
+ * Add gallery items to the end of an album; items already in it are left where they are
+ */
+export const addToAlbum = async (token: string, albumId: string, itemIds: string[]): Promise<Album> => {
+  try {
+    const data = await apiRequest<{ album: Album }>(`/api/gallery/albums/${albumId}/items`, {
+      method: 'POST',
+      token,
+      json: { item_ids: itemIds },
+      errorMessage: 'Failed to add to album',
+    });
+    return data.album;
+  } catch (error: any) {
+    return handleError(error, 'Failed to add to album');
+  }
+};
+
+/**
+ * Take items out of an album without deleting them from the gallery
+ */
+export const removeFromAlbum = async (token: string, albumId: string, itemIds: string[]): Promise<Album> => {
+  try {
+    const data = await apiRequest<{ album: Album }>(`/api/gallery/albums/${albumId}/items/remove`, {
+      method: 'POST',
+      token,
+      json: { item_ids: itemIds },
+      errorMessage: 'Failed to remove from album',
+    });
+    return data.album;
+  } catch (error: any) {
+    return handleError(error, 'Failed to remove from album');
+  }
+};
+
+/**
+ * Create a public link to a gallery item or album. Expiry and password are optional.
+ */
+export const createShareLink = async (
+  token: string,
+  target: { item_id: string } | { album_id: string },
+  options: { expires_in_hours?: number | null; password?: string } = {}
+): Promise<ShareLink> => {
+  try {
+    const data = await apiRequest<{ link: ShareLink }>('/api/shares', {
+      method: 'POST',
+      token,
+      json: { ...target, expires_in_hours: options.expires_in_hours ?? null, password: options.password || undefined },
+      errorMessage: 'Failed to create share link',
+    });
+    return data.link;
+  } catch (error: any) {
+    return handleError(error, 'Failed to create share link');
+  }
+};
+
+/**
+ * The user's share links, newest first, optionally only those for one item or album
+ */
+export const getShareLinks = async (token: string, target: { item_id?: string; album_id?: string } = {}): Promise<ShareLink[]> => {
+  try {
+    const data = await apiRequest<{ links: ShareLink[] }>('/api/shares', {
+      token,
+      query: target,
+      errorMessage: 'Failed to fetch share links',
+    });
+    return data.links;
+  } catch (error: any) {
+    return handleError(error, 'Failed to fetch share links');
+  }
+};
+
+/**
+ * Stop a share link from working. It stays listed, marked revoked.
+ */
+export const revokeShareLink = async (token: string, linkId: string): Promise<ShareLink> => {
+  try {
+    const data = await apiRequest<{ link: ShareLink }>(`/api/shares/${linkId}`, {
+      method: 'DELETE',
+      token,
+      errorMessage: 'Failed to revoke share link',
+    });
+    return data.link;
+  } catch (error: any) {
+    return handleError(error, 'Failed to revoke share link');
+  }
+};
+
+/**
+ * Open a share link without signing in. Counts as a view.
+ * HTTP errors are thrown without a toast: 401 means a password is needed (or was wrong), 404/410 that the link is gone.
+ */
+export const getSharedContent = async (shareToken: string, password?: string, signal?: AbortSignal): Promise<SharedContent> => {
+  try {
+    const data = await apiRequest<{ share: SharedContent }>(`/api/public/shares/${encodeURIComponent(shareToken)}`, {
+      method: 'POST',
+      json: { password: password || undefined },
+      signal,
+      errorMessage: 'Failed to open shared link',
+    });
+    // Item URLs stay paths under the share link; they are loaded with getSharedMedia, never straight from storage
+    return data.share;
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error instanceof ApiError) throw error;
+    return handleError(error, 'Failed to open shared link');
+  }
+};
+
+/**
+ * Load one shared item's file through its share link (public, no authentication).
+ * The server checks the link on every request, so revoking or expiring it also cuts off the media.
+ */
+export const getSharedMedia = async (mediaPath: string, grant?: string, signal?: AbortSignal): Promise<Blob> => {
+  try {
+    // The media fragment is for the player; the request is for the whole file
+    const response = await apiSend(mediaPath.split('#')[0], {
+      query: { grant },
+      signal,
+      errorMessage: 'Failed to load shared media',
     });
+    return await response.blob();
+  } catch (error: any) {
+    if (error.name === 'AbortError' || error instanceof ApiError) throw error;
+    return handleError(error, 'Failed to load shared media');
+  }
+};
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch gallery' }));
-      throw new Error(errorData.error || 'Failed to fetch gallery');
+/**
+ * Save part of a matched video as its own gallery item (requires authentication).
+ * Sends the clip when it was recorded in the browser; otherwise the server cuts it from the source.
+ */
+export const saveClip = async (
+  token: string,
+  source: PhotoResult,
+  segment: Pick<VideoSegment, 'start' | 'end' | 'timestamps'>,
+  clip?: Blob,
+  signal?: AbortSignal
+): Promise<PhotoResult> => {
+  const details = { source_id: source.id, start: segment.start, end: segment.end, timestamps: segment.timestamps };
+  try {
+    let formData: FormData | undefined;
+    if (clip) {
+      formData = new FormData();
+      formData.append('clip', clip, `clip-${source.id}-${Math.round(segment.start)}.${clip.type.includes('mp4') ? 'mp4' : 'webm'}`);
+      formData.append('details', JSON.stringify(details));
     }
+    const data = await apiRequest<{ item: PhotoResult }>('/api/gallery/clips', {
+      method: 'POST',
+      token,
+      ...(formData ? { formData } : { json: details }),
+      signal,
+      timeout: 120000,
+      errorMessage: 'Failed to save clip',
+    });
+    return { ...data.item, imageUrl: getImageUrl(data.item.imageUrl) };
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    return handleError(error, 'Failed to save clip');
+  }
+};
 
-    const data = await response.json();
-    return data.images.map((img: any) => ({
+/**
+ * Get user's gallery images (requires authentication)
+ */
+export const getGalleryImages = async (token: string): Promise<PhotoResult[]> => {
+  try {
+    const data = await apiRequest<ImagesResponse>('/api/gallery/images', {
+      token,
+      errorMessage: 'Failed to fetch gallery',
+    });
+    return data.images.map((img) => ({
       ...img,
       imageUrl: getImageUrl(img.imageUrl),
     }));
   } catch (error: any) {
-    handleError(error, 'Failed to fetch gallery images');
-    return [];
+    return handleError(error, 'Failed to fetch gallery images');
   }
 };
 
@@ -533,21 +1294,13 @@ export const getGalleryImages = async (token: string): Promise<PhotoResult[]> =>
  */
 export const deleteFromGallery = async (token: string, imageId: string): Promise<void> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/gallery/image/${imageId}`, {
+    await apiSend(`/api/gallery/image/${imageId}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
+      token,
+      errorMessage: 'Failed to delete image',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to delete image' }));
-      throw new Error(errorData.error || 'Failed to delete image');
-    }
   } catch (error: any) {
     handleError(error, 'Failed to delete image from gallery');
-    throw error;
   }
 };
 
@@ -556,24 +1309,13 @@ export const deleteFromGallery = async (token: string, imageId: string): Promise
  */
 export const getSavedImageIds = async (token: string): Promise<string[]> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/gallery/saved-ids`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
+    const data = await apiRequest<{ saved_ids?: string[] }>('/api/gallery/saved-ids', {
+      token,
+      errorMessage: 'Failed to fetch saved IDs',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch saved IDs' }));
-      throw new Error(errorData.error || 'Failed to fetch saved IDs');
-    }
-
-    const data = await response.json();
     return data.saved_ids || [];
   } catch (error: any) {
-    handleError(error, 'Failed to fetch saved image IDs');
-    return [];
+    return handleError(error, 'Failed to fetch saved image IDs');
   }
 };
 
@@ -582,36 +1324,13 @@ export const getSavedImageIds = async (token: string): Promise<string[]> => {
  */
 export const getUserStats = async (token: string): Promise<{ scan_count: number; saved_count: number }> => {
   try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-    const response = await fetch(`${API_BASE_URL}/api/user/stats`, {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
+    return await apiRequest<{ scan_count: number; saved_count: number }>('/api/user/stats', {
+      token,
+      timeout: 10000, // 10 second timeout
+      errorMessage: 'Failed to fetch stats',
     });
-
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch stats' }));
-      throw new Error(errorData.error || `Failed to fetch stats: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data;
   } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.error('Stats request timeout');
-      return { scan_count: 0, saved_count: 0 };
-    }
-    if (error.name === 'TypeError' && error.message.includes('fetch')) {
-      console.error('Stats connection failed');
-      return { scan_count: 0, saved_count: 0 };
-    }
+    // Stats are not critical, fall back to zeros
     console.error('Failed to fetch user statistics:', error);
     return { scan_count: 0, saved_count: 0 };
   }
@@ -627,31 +1346,13 @@ export interface AdminStats {
   pending_reviews: number;
 }
 
-export const getAdminStats = async (): Promise<AdminStats> => {
+export const getAdminStats = async (token: string | null): Promise<AdminStats> => {
   try {
-    const response = await fetch(`${API_BASE_URL}/api/admin/stats`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+    return await apiRequest<AdminStats>('/api/admin/stats', {
+      token,
+      errorMessage: 'Failed to fetch admin stats',
     });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ error: 'Failed to fetch admin stats' }));
-      throw new Error(errorData.error || 'Failed to fetch admin stats');
-    }
-
-    const data: AdminStats = await response.json();
-    return data;
   } catch (error: any) {
-    handleError(error, 'Failed to fetch admin statistics');
-    // Return default values on error
-    return {
-      total_images: 0,
-      total_users: 0,
-      successful_scans: 0,
-      pending_reviews: 0
-    };
+    return handleError(error, 'Failed to fetch admin statistics');
   }
 };
-
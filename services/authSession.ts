@@ -0,0 +1,132 @@
+// authSession.ts
+// Stored credentials, JWT expiry parsing and single-flight token refresh
+
+import { isApiError, setUnauthorizedHandler } from './apiClient';
+import { refreshAuthToken } from './apiService';
+
+const TOKEN_KEY = 'authToken';
+const REFRESH_TOKEN_KEY = 'refreshToken';
+
+export type SessionEvent =
+  | { type: 'refreshed'; token: string }
+  | { type: 'expired' };
+
+const sessionListeners: Array<(event: SessionEvent) => void> = [];
+
+/**
+ * Subscribe to token refreshes and session expiry. Returns an unsubscribe function.
+ */
+export const onSessionEvent = (listener: (event: SessionEvent) => void) => {
+  sessionListeners.push(listener);
+  return () => {
+    const index = sessionListeners.indexOf(listener);
+    if (index > -1) {
+      sessionListeners.splice(index, 1);
+    }
+  };
+};
+
+const emit = (event: SessionEvent) => {
+  sessionListeners.forEach((listener) => listener(event));
+};
+
+export const getStoredToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+export const saveSession = (token: string, refreshToken?: string | null) => {
+  localStorage.setItem(TOKEN_KEY, token);
+  if (refreshToken) {
+    localStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+  }
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+};
+
+/**
+ * Decode the payload of a JWT without verifying it.
+ * Returns null for opaque (non-JWT) tokens.
+ */
+export const decodeTokenPayload = (token: string): Record<string, any> | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const base64 = parts[1].replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return JSON.parse(atob(padded));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Expiry time of a JWT in milliseconds, or null if the token carries no `exp` claim
+ */
+export const getTokenExpiry = (token: string): number | null => {
+  const exp = decodeTokenPayload(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+export const isTokenExpired = (token: string, leewayMs: number = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - leewayMs <= Date.now();
+};
+
+const expireSession = () => {
+  clearSession();
+  emit({ type: 'expired' });
+};
+
+let refreshPromise: Promise<string | null> | null = null;
+
+/**
+ * Get a new access token using the stored refresh token.
+ * Concurrent callers share one in-flight refresh. Resolves null when the session cannot be renewed.
+ */
+export const refreshSession = (): Promise<string | null> => {
+  if (refreshPromise) {
+    return refreshPromise;
+  }
+
+  refreshPromise = (async () => {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      expireSession();
+      return null;
+    }
+
+    try {
+      const response = await refreshAuthToken(refreshToken);
+      saveSession(response.token, response.refresh_token || refreshToken);
+      emit({ type: 'refreshed', token: response.token });
+      return response.token;
+    } catch (error) {
+      console.error('Token refresh failed:', error);
+      // Offline or timed out: keep the session and let the caller's request fail normally
+      if (isApiError(error) && error.kind !== 'http') {
+        return null;
+      }
+      expireSession();
+      return null;
+    }
+  })().finally(() => {
+    refreshPromise = null;
+  });
+
+  return refreshPromise;
+};
+
+/**
+ * Retry 401s once with a refreshed token. Installed once at startup.
+ */
+export const installSessionRefresh = () => {
+  setUnauthorizedHandler(async (failedToken) => {
+    // Another request may already have refreshed the token
+    const current = getStoredToken();
+    if (current && current !== failedToken && !isTokenExpired(current)) {
+      return current;
+    }
+    return refreshSession();
+  });
+};
@@ -0,0 +1,295 @@
+// exif.ts
+// Minimal metadata readers: EXIF/XMP in photos and the MP4/QuickTime header in videos (capture time, GPS position, orientation)
+
+export interface PhotoMetadata {
+  /** Capture time as local ISO 8601 without an offset (EXIF records no time zone; UTC video times are converted) */
+  datetime?: string;
+  latitude?: number;
+  longitude?: number;
+  /** EXIF orientation, 1 (upright) to 8 */
+  orientation?: number;
+}
+
+// EXIF lives near the start of the file; no need to read the whole photo
+const HEADER_BYTES = 256 * 1024;
+// Upper bound on the MP4 'moov' box read for metadata; it holds sample tables that grow with length
+const MAX_MOOV_BYTES = 8 * 1024 * 1024;
+// MP4 times count seconds from 1904-01-01 UTC
+const MP4_EPOCH_OFFSET = 2082844800;
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Bytes per value for each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  // Position of the entry's value field, relative to the TIFF header
+  field: number;
+}
+
+/**
+ * Convert an EXIF "YYYY:MM:DD HH:MM:SS" timestamp to ISO 8601
+ */
+export const exifDateToIso = (value: string): string | undefined => {
+  const match = value.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const [, year, month, day, hour, minute, second] = match;
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+};
+
+const parseTiff = (view: DataView, start: number): PhotoMetadata => {
+  const little = view.getUint16(start) === 0x4949; // "II"
+  const u16 = (offset: number) => view.getUint16(start + offset, little);
+  const u32 = (offset: number) => view.getUint32(start + offset, little);
+
+  if (u16(2) !== 42) return {};
+
+  const readIfd = (ifdOffset: number): Map<number, IfdEntry> => {
+    const entries = new Map<number, IfdEntry>();
+    const count = u16(ifdOffset);
+    for (let i = 0; i < count; i++) {
+      const entry = ifdOffset + 2 + i * 12;
+      entries.set(u16(entry), { type: u16(entry + 2), count: u32(entry + 4), field: entry + 8 });
+    }
+    return entries;
+  };
+
+  // Values of four bytes or less sit in the entry itself, larger ones elsewhere
+  const valueOffset = (entry: IfdEntry) =>
+    (TYPE_SIZES[entry.type] || 1) * entry.count <= 4 ? entry.field : u32(entry.field);
+
+  const readAscii = (entry?: IfdEntry): string | undefined => {
+    if (!entry || entry.type !== 2) return undefined;
+    const offset = valueOffset(entry);
+    let text = '';
+    for (let i = 0; i < entry.count; i++) {
+      const code = view.getUint8(start + offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text;
+  };
+
+  const readRationals = (entry?: IfdEntry): number[] | undefined => {
+    if (!entry || entry.type !== 5) return undefined;
+    const offset = valueOffset(entry);
+    return Array.from({ length: entry.count }, (_, i) => {
+      const denominator = u32(offset + i * 8 + 4);
+      return denominator ? u32(offset + i * 8) / denominator : 0;
+    });
+  };
+
+  const ifd0 = readIfd(u32(4));
+  const metadata: PhotoMetadata = {};
+
+  const orientation = ifd0.get(TAG_ORIENTATION);
+  if (orientation && orientation.type === 3) {
+    metadata.orientation = u16(orientation.field);
+  }
+
+  const exifPointer = ifd0.get(TAG_EXIF_IFD);
+  const exifIfd = exifPointer ? readIfd(u32(exifPointer.field)) : new Map<number, IfdEntry>();
+  const datetime = readAscii(exifIfd.get(TAG_DATETIME_ORIGINAL)) || readAscii(ifd0.get(TAG_DATETIME));
+  if (datetime) {
+    metadata.datetime = exifDateToIso(datetime);
+  }
+
+  const gpsPointer = ifd0.get(TAG_GPS_IFD);
+  if (gpsPointer) {
+    const gps = readIfd(u32(gpsPointer.field));
+    const toDegrees = (parts?: number[]) => (parts && parts.length === 3 ? parts[0] + parts[1] / 60 + parts[2] / 3600 : undefined);
+    const latitude = toDegrees(readRationals(gps.get(TAG_GPS_LATITUDE)));
+    const longitude = toDegrees(readRationals(gps.get(TAG_GPS_LONGITUDE)));
+    // 0,0 is what many cameras write when they had no fix
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+      metadata.latitude = readAscii(gps.get(TAG_GPS_LATITUDE_REF)) === 'S' ? -latitude : latitude;
+      metadata.longitude = readAscii(gps.get(TAG_GPS_LONGITUDE_REF)) === 'W' ? -longitude : longitude;
+    }
+  }
+
+  return metadata;
+};
+
+/**
+ * Read capture time, GPS position and orientation from a JPEG's EXIF block.
+ * Returns an empty object for other formats or files without EXIF.
+ */
+export const readExif = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return {};
+
+    let offset = 2;
+    while (offset + 10 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) break; // Start of image data
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+        return parseTiff(view, offset + 10);
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch (error) {
+    // Truncated or malformed EXIF: treat as missing
+    console.error('Failed to read EXIF:', error);
+  }
+  return {};
+};
+
+/**
+ * Convert an XMP GPS coordinate ("DDD,MM.mmmmN" or "DDD,MM,SSN") to signed decimal degrees
+ */
+const xmpCoordinate = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i);
+  if (!match) return undefined;
+  const degrees = Number(match[1]) + Number(match[2]) / 60 + Number(match[3] || 0) / 3600;
+  return /[SW]/i.test(match[4]) ? -degrees : degrees;
+};
+
+/**
+ * Read a property from an XMP packet, written either as an attribute or as an element
+ */
+const xmpProperty = (packet: string, name: string): string | undefined => {
+  const match = packet.match(new RegExp(`${name}\\s*(?:=\\s*"([^"]*)"|>([^<]*)<)`));
+  return match ? (match[1] ?? match[2]).trim() || undefined : undefined;
+};
+
+/**
+ * Read capture time and GPS position from an XMP packet. Editors and phones that
+ * re-save photos often keep these in XMP only, and XMP is also embedded in PNG and HEIC.
+ */
+export const readXmp = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    // XMP is plain text; latin1 keeps byte offsets intact and never throws on binary data
+    const text = new TextDecoder('latin1').decode(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    const start = text.indexOf('<x:xmpmeta');
+    if (start === -1) return {};
+    const end = text.indexOf('</x:xmpmeta>', start);
+    const packet = text.slice(start, end === -1 ? undefined : end);
+
+    const metadata: PhotoMetadata = {};
+    const datetime = xmpProperty(packet, 'exif:DateTimeOriginal')
+      || xmpProperty(packet, 'photoshop:DateCreated')
+      || xmpProperty(packet, 'xmp:CreateDate');
+    // XMP dates are ISO 8601, possibly with a zone offset or without seconds
+    const dateMatch = datetime?.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})(:\d{2})?/);
+    if (dateMatch) {
+      metadata.datetime = `${dateMatch[1]}T${dateMatch[2]}${dateMatch[3] || ':00'}`;
+    }
+
+    const latitude = xmpCoordinate(xmpProperty(packet, 'exif:GPSLatitude') || '');
+    const longitude = xmpCoordinate(xmpProperty(packet, 'exif:GPSLongitude') || '');
+    if (latitude !== undefined && longitude !== undefined && (latitude !== 0 || longitude !== 0)) {
+      metadata.latitude = latitude;
+      metadata.longitude = longitude;
+    }
+    return metadata;
+  } catch (error) {
+    console.error('Failed to read XMP:', error);
+    return {};
+  }
+};
+
+/**
+ * Read capture time and GPS position from a photo, preferring EXIF and filling gaps from XMP
+ */
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  const exif = await readExif(file);
+  if (exif.datetime && exif.latitude !== undefined) return exif;
+  const xmp = await readXmp(file);
+  return {
+    ...exif,
+    datetime: exif.datetime ?? xmp.datetime,
+    latitude: exif.latitude ?? xmp.latitude,
+    longitude: exif.longitude ?? xmp.longitude,
+  };
+};
+
+/**
+ * Locate the top-level 'moov' box by walking box headers, without reading the media data
+ */
+const findMoov = async (file: Blob): Promise<DataView | null> => {
+  let offset = 0;
+  while (offset + 8 <= file.size) {
+    const header = new DataView(await file.slice(offset, offset + 16).arrayBuffer());
+    let size = header.getUint32(0);
+    const type = header.getUint32(4);
+    let headerSize = 8;
+    if (size === 1) {
+      // 64-bit size follows the type
+      size = header.getUint32(8) * 2 ** 32 + header.getUint32(12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset; // Box runs to the end of the file
+    }
+    if (size < headerSize) return null;
+
+    if (type === 0x6D6F6F76) { // "moov"
+      const end = offset + Math.min(size, MAX_MOOV_BYTES);
+      return new DataView(await file.slice(offset + headerSize, end).arrayBuffer());
+    }
+    offset += size;
+  }
+  return null;
+};
+
+/**
+ * Read recording time and GPS position from an MP4/QuickTime video: the 'mvhd' creation
+ * time, and the ISO 6709 location phones write under '©xyz' or Apple's location key.
+ * Returns an empty object for other containers (MKV, AVI, WebM) or files without them.
+ */
+export const readVideoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  try {
+    const moov = await findMoov(file);
+    if (!moov) return {};
+    const text = new TextDecoder('latin1').decode(moov);
+    const metadata: PhotoMetadata = {};
+
+    // Apple's creation date keeps the local time the clip was shot (with its offset); mvhd only has UTC.
+    // Its value sits in the 'ilst' box away from the key, so match the value's own format.
+    const appleMatch = text.includes('com.apple.quicktime.creationdate')
+      ? text.match(/(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})[+-]\d{2}:?\d{2}/)
+      : null;
+    if (appleMatch) {
+      metadata.datetime = appleMatch[1];
+    } else {
+      const mvhd = text.indexOf('mvhd');
+      if (mvhd !== -1 && mvhd + 16 <= moov.byteLength) {
+        // Version 1 headers use 64-bit times
+        const seconds = moov.getUint8(mvhd + 4) === 1
+          ? moov.getUint32(mvhd + 8) * 2 ** 32 + moov.getUint32(mvhd + 12)
+          : moov.getUint32(mvhd + 8);
+        // Many encoders leave the creation time at zero
+        if (seconds > MP4_EPOCH_OFFSET) {
+          // UTC, shown in this browser's time zone like the offset-less times from photos
+          const utc = new Date((seconds - MP4_EPOCH_OFFSET) * 1000);
+          metadata.datetime = new Date(utc.getTime() - utc.getTimezoneOffset() * 60000).toISOString().slice(0, 19);
+        }
+      }
+    }
+
+    // ISO 6709 position: "+DD.DDDD+DDD.DDDD" with optional altitude, terminated by '/'
+    const location = text.match(/([+-]\d{2}(?:\.\d+)?)([+-]\d{3}(?:\.\d+)?)(?:[+-]\d+(?:\.\d+)?)?(?:CRS[^/]*)?\//);
+    if (location) {
+      const latitude = Number(location[1]);
+      const longitude = Number(location[2]);
+      if (latitude !== 0 || longitude !== 0) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+      }
+    }
+    return metadata;
+  } catch (error) {
+    console.error('Failed to read video metadata:', error);
+    return {};
+  }
+};
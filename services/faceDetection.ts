@@ -0,0 +1,55 @@
+// faceDetection.ts
+// Finds faces in query photos: the browser's FaceDetector when available, otherwise the backend
+
+import { FaceBox } from '../types';
+import { detectFaces as detectFacesRemote } from './apiService';
+
+// The parts of the Shape Detection API used here
+interface FaceDetector {
+  detect(image: ImageBitmapSource): Promise<Array<{ boundingBox: DOMRectReadOnly }>>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetector;
+
+/**
+ * Shape Detection API face detector (Chromium only, not in the TS DOM lib)
+ */
+const detectInBrowser = async (file: File): Promise<FaceBox[] | null> => {
+  const Detector = (window as Window & { FaceDetector?: FaceDetectorConstructor }).FaceDetector;
+  if (!Detector) return null;
+
+  try {
+    const bitmap = await createImageBitmap(file);
+    const detector = new Detector({ fastMode: true, maxDetectedFaces: 20 });
+    const detected = await detector.detect(bitmap);
+    const boxes = detected.map(({ boundingBox }) => ({
+      x: boundingBox.x / bitmap.width,
+      y: boundingBox.y / bitmap.height,
+      width: boundingBox.width / bitmap.width,
+      height: boundingBox.height / bitmap.height,
+    }));
+    bitmap.close();
+    return boxes;
+  } catch (error) {
+    console.warn('Browser face detection failed, falling back to server:', error);
+    return null;
+  }
+};
+
+/**
+ * Locate faces in a photo, largest first.
+ * Resolves with an empty list when detection is unavailable, so callers can search the whole photo instead.
+ */
+export const findFaces = async (file: File, token?: string | null, signal?: AbortSignal): Promise<FaceBox[]> => {
+  let faces = await detectInBrowser(file);
+  if (!faces) {
+    try {
+      faces = await detectFacesRemote(file, token, signal);
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      console.error('Face detection failed:', error);
+      faces = [];
+    }
+  }
+  return faces.sort((a, b) => b.width * b.height - a.width * a.height);
+};
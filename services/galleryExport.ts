@@ -0,0 +1,168 @@
+// galleryExport.ts
+// Bulk download: fetches gallery items or search results in the browser and packs them into one ZIP with a manifest
+
+import { PhotoResult } from '../types';
+import { createZip, ZipEntry } from './zip';
+import { toCsv } from '../utils';
+
+export interface ExportProgress {
+  /** Items fetched so far, and how many there are */
+  done: number;
+  total: number;
+  /** Bytes downloaded so far, across all items */
+  bytes: number;
+  /** Last step builds the archive itself */
+  stage: 'downloading' | 'packing';
+}
+
+export interface ExportResult {
+  archive: Blob;
+  /** Items that could not be fetched; listed in the manifest with their error */
+  failed: PhotoResult[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+};
+
+const MANIFEST_COLUMNS = ['file', 'id', 'media_type', 'datetime', 'latitude', 'longitude', 'similarity', 'confidence', 'clip_start', 'clip_end', 'timestamps', 'source_url', 'error'];
+
+/**
+ * File name from the item's URL, without the folder, query or media fragment. Empty for object URLs.
+ */
+const originalName = (item: PhotoResult): string => {
+  const url = item.videoUrl || item.imageUrl;
+  if (url.startsWith('blob:') || url.startsWith('data:')) return '';
+  try {
+    return decodeURIComponent(new URL(url, window.location.href).pathname.split('/').pop() || '');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Original file name where there is one, with an extension, marked as a clip when cut from a longer video
+ */
+const fileNameFor = (item: PhotoResult, contentType: string): string => {
+  const name = originalName(item) || `${item.type || item.media_type || 'image'}-${item.id}`;
+  const dot = name.lastIndexOf('.');
+  let base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot + 1) : EXTENSIONS[contentType.split(';')[0]] || (item.media_type === 'video' ? 'mp4' : 'jpg');
+  if (item.clip) {
+    base += `_clip_${Math.round(item.clip.start)}-${Math.round(item.clip.end)}s`;
+  }
+  return `${base}.${extension}`;
+};
+
+/**
+ * Keep names unique inside the archive: "photo.jpg", "photo (2).jpg", ...
+ */
+const uniqueName = (name: string, used: Set<string>): string => {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+  let candidate = name;
+  for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+    candidate = `${base} (${n})${extension}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * Download a file, reporting bytes as they arrive
+ */
+const fetchBytes = async (url: string, onBytes: (bytes: number) => void, signal?: AbortSignal): Promise<{ data: Uint8Array; type: string }> => {
+  // Media fragments only matter to players; the file is the whole source
+  const response = await fetch(url.split('#')[0], { signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  const type = response.headers.get('content-type') || '';
+  if (!response.body) {
+    const data = new Uint8Array(await response.arrayBuffer());
+    onBytes(data.length);
+    return { data, type };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.length;
+    onBytes(value.length);
+  }
+  const data = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, position);
+    position += chunk.length;
+  }
+  return { data, type };
+};
+
+/**
+ * Fetch every item and pack them into a ZIP with manifest.json and manifest.csv.
+ * Items that fail to download (e.g. a host without CORS headers) are skipped rather than failing the archive.
+ */
+export const buildGalleryZip = async (
+  items: PhotoResult[],
+  onProgress?: (progress: ExportProgress) => void,
+  signal?: AbortSignal
+): Promise<ExportResult> => {
+  const entries: ZipEntry[] = [];
+  const rows: Array<Record<string, string | number | undefined>> = [];
+  const failed: PhotoResult[] = [];
+  const used = new Set<string>();
+  let bytes = 0;
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    onProgress?.({ done: i, total: items.length, bytes, stage: 'downloading' });
+    const row: Record<string, string | number | undefined> = {
+      id: item.id,
+      media_type: item.media_type || item.type || 'image',
+      datetime: item.datetime,
+      latitude: item.latitude,
+      longitude: item.longitude,
+      similarity: item.similarity,
+      confidence: item.confidence,
+      clip_start: item.clip?.start,
+      clip_end: item.clip?.end,
+      timestamps: item.media_type === 'video' ? (item.timestamps || [item.timestamp || 0]).join(' ') : undefined,
+      source_url: item.clip?.source_url || (item.imageUrl.startsWith('blob:') ? undefined : item.imageUrl),
+    };
+    try {
+      const { data, type } = await fetchBytes(item.videoUrl || item.imageUrl, (count) => {
+        bytes += count;
+        onProgress?.({ done: i, total: items.length, bytes, stage: 'downloading' });
+      }, signal);
+      const name = uniqueName(fileNameFor(item, type), used);
+      const taken = item.datetime ? new Date(item.datetime) : undefined;
+      entries.push({ name, data, modified: taken && !isNaN(taken.getTime()) ? taken : undefined });
+      rows.push({ file: name, ...row });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      failed.push(item);
+      rows.push({ ...row, error: error.message || 'Download failed' });
+    }
+  }
+
+  onProgress?.({ done: items.length, total: items.length, bytes, stage: 'packing' });
+  const encoder = new TextEncoder();
+  entries.push(
+    { name: 'manifest.json', data: encoder.encode(JSON.stringify({ exported_at: new Date().toISOString(), items: rows }, null, 2)) },
+    { name: 'manifest.csv', data: encoder.encode(toCsv(MANIFEST_COLUMNS, rows.map(row => MANIFEST_COLUMNS.map(column => row[column])))) },
+  );
+  return { archive: createZip(entries), failed };
+};
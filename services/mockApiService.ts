@@ -1,12 +1,1741 @@
-import { PhotoResult } from '../types';
-import { MOCK_RESULTS_DATA } from '../constants';
+// mockApiService.ts
+// Stateful in-memory FaceFinder backend, served through the API client transport
 
-export const searchSimilarFaces = async (imgBlob: Blob): Promise<PhotoResult[]> => {
-  // Simulate network latency and processing time
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Return a copy of mock data with slight variations if needed
-      resolve([...MOCK_RESULTS_DATA]);
-    }, 3500); // 3.5s processing time for effect
+import { PhotoResult, Person, DetectedFace, Album, ShareLink, SharedContent } from '../types';
+import { MOCK_RESULTS_DATA, MOCK_GALLERY_DATA, MOCK_ADMIN_ALL_IMAGES } from '../constants';
+import { Transport, TransportRequest, setTransport } from './apiClient';
+
+const STORAGE_KEY = 'mockBackendState';
+const MOCK_FLAG_KEY = 'useMockApi';
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
+interface MockUser {
+  id: number;
+  name: string;
+  email: string;
+  password: string;
+  profile_image: string | null;
+  is_admin: boolean;
+  created_at: string;
+  scan_count: number;
+}
+
+interface MockState {
+  users: MockUser[];
+  tokens: Record<string, number>;
+  refreshTokens: Record<string, number>;
+  images: PhotoResult[];
+  galleries: Record<number, PhotoResult[]>;
+  successfulScans: number;
+  nextUserId: number;
+  nextImageId: number;
+  // Image id -> ids an admin said are a different person, kept out of its suggested clusters
+  clusterRejections: Record<string, string[]>;
+  people: MockPerson[];
+  nextPersonId: number;
+  albums: Record<number, Album[]>;
+  nextAlbumId: number;
+  shares: MockShare[];
+}
+
+type MockPerson = Pick<Person, 'id' | 'name' | 'aliases' | 'cover_image_id' | 'user_id' | 'created_at'>;
+
+interface MockShare extends Pick<ShareLink, 'id' | 'kind' | 'target_id' | 'expires_at' | 'view_count' | 'created_at'> {
+  user_id: number;
+  // Plain text here; a real backend keeps only a hash
+  password: string | null;
+  revoked_at: string | null;
+}
+
+const idHash = (id: string) => {
+  let hash = 7;
+  for (const char of id) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 9973;
+  }
+  return hash;
+};
+
+/**
+ * Stand-in for server-side detection: one to three faces side by side, stable per image
+ */
+const mockFaces = (imageId: string): DetectedFace[] => {
+  const count = 1 + (idHash(imageId) % 3);
+  const width = 0.6 / count;
+  return Array.from({ length: count }, (_, i) => ({
+    id: `${imageId}-f${i}`,
+    box: { x: 0.2 + i * width + width * 0.1, y: 0.15 + (i % 2) * 0.1, width: width * 0.8, height: Math.min(width * 0.8 * 1.3, 0.5) },
+    embedding_id: `emb-${imageId}-${i}`,
+    confidence: 0.9 + ((idHash(imageId) + i) % 10) / 100,
+  }));
+};
+
+/**
+ * Drop album entries for items no longer in the user's gallery, and covers pointing at them
+ */
+const pruneAlbums = (target: MockState, userId: number) => {
+  const saved = new Set((target.galleries[userId] || []).map(item => item.id));
+  (target.albums[userId] || []).forEach(album => {
+    album.item_ids = album.item_ids.filter(id => saved.has(id));
+    if (album.cover_item_id && !saved.has(album.cover_item_id)) delete album.cover_item_id;
+  });
+};
+
+const seedState = (): MockState => {
+  const now = Date.now();
+  const seedImages: PhotoResult[] = MOCK_ADMIN_ALL_IMAGES.map((img, index) => {
+    const tagged = MOCK_RESULTS_DATA.some(r => r.id === img.id);
+    const faces = mockFaces(img.id);
+    if (tagged) {
+      faces[0] = { ...faces[0], person_id: 'p1', person_name: 'Demo Person' };
+    }
+    return {
+      id: img.id,
+      imageUrl: img.imageUrl,
+      format: 'JPEG',
+      width: 400,
+      height: 600,
+      file_size: 48000 + index * 3100,
+      datetime: new Date(now - index * 86400000).toISOString(),
+      uploadedAt: new Date(now - index * 3600000).toISOString(),
+      tagged_by: tagged ? 'Demo Person' : undefined,
+      person_id: tagged ? 'p1' : undefined,
+      faces,
+      media_type: 'image',
+    };
+  });
+
+  seedImages.push({
+    id: '301',
+    imageUrl: 'https://interactive-examples.mdn.mozilla.net/media/cc0-videos/flower.mp4',
+    format: 'MP4',
+    datetime: new Date(now - 2 * 86400000).toISOString(),
+    uploadedAt: new Date(now - 2 * 86400000).toISOString(),
+    media_type: 'video',
+    timestamp: 1.5,
+  });
+
+  return {
+    users: [
+      { id: 1, name: 'Demo Admin', email: 'admin@facefinder.dev', password: 'admin123', profile_image: null, is_admin: true, created_at: new Date(now).toISOString(), scan_count: 0 },
+      { id: 2, name: 'Demo User', email: 'user@facefinder.dev', password: 'user123', profile_image: MOCK_GALLERY_DATA[0].imageUrl, is_admin: false, created_at: new Date(now).toISOString(), scan_count: 0 },
+    ],
+    tokens: {},
+    refreshTokens: {},
+    images: seedImages,
+    galleries: {},
+    successfulScans: 0,
+    nextUserId: 3,
+    nextImageId: 1000,
+    clusterRejections: {},
+    people: [{ id: 'p1', name: 'Demo Person', aliases: [], created_at: new Date(now).toISOString() }],
+    nextPersonId: 2,
+    albums: {},
+    nextAlbumId: 1,
+    shares: [],
+  };
+};
+
+/**
+ * State saved before people existed: turn each distinct tagged_by name into a person
+ */
+const migrateTagsToPeople = (saved: MockState) => {
+  saved.people = [];
+  saved.nextPersonId = 1;
+  saved.images.forEach(img => {
+    if (!img.tagged_by) return;
+    let person = saved.people.find(p => p.name === img.tagged_by);
+    if (!person) {
+      person = { id: `p${saved.nextPersonId++}`, name: img.tagged_by, aliases: [], created_at: new Date().toISOString() };
+      saved.people.push(person);
+    }
+    img.person_id = person.id;
+  });
+};
+
+const loadState = (): MockState => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const state: MockState = JSON.parse(saved);
+      state.refreshTokens = state.refreshTokens || {};
+      state.clusterRejections = state.clusterRejections || {};
+      state.albums = state.albums || {};
+      state.nextAlbumId = state.nextAlbumId || 1;
+      state.shares = state.shares || [];
+      if (!state.people) {
+        migrateTagsToPeople(state);
+      }
+      // Saved before faces were tracked per image
+      state.images.forEach(img => {
+        if (!img.faces && img.media_type !== 'video') img.faces = mockFaces(img.id);
+      });
+      // Object URLs for uploaded media do not survive a reload
+      state.images = state.images.filter(img => !img.imageUrl.startsWith('blob:'));
+      state.users.forEach(user => {
+        if (user.profile_image?.startsWith('blob:')) user.profile_image = null;
+      });
+      Object.entries(state.galleries).forEach(([userId, gallery]) => {
+        gallery.splice(0, gallery.length, ...gallery.filter(item => !item.imageUrl.startsWith('blob:')));
+        pruneAlbums(state, Number(userId));
+      });
+      return state;
+    }
+  } catch (error) {
+    console.error('Failed to restore mock backend state:', error);
+  }
+  return seedState();
+};
+
+let state: MockState = loadState();
+
+const persist = () => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.error('Failed to persist mock backend state:', error);
+  }
+};
+
+/**
+ * Reset the fake backend to its seed data
+ */
+export const resetMockBackend = () => {
+  state = seedState();
+  persist();
+};
+
+// --- Response helpers ---
+
+const json = (status: number, data: unknown): Response =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const fail = (status: number, error: string): Response => json(status, { error });
+
+const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
+
+const publicUser = (user: MockUser) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  profile_image: user.profile_image,
+  is_admin: user.is_admin,
+  created_at: user.created_at,
+});
+
+const base64Url = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomId = () => Math.random().toString(36).slice(2);
+
+// Unsigned JWT-shaped access tokens so the client can read `exp`
+const issueTokens = (user: MockUser) => {
+  const now = Math.floor(Date.now() / 1000);
+  const token = `${base64Url({ alg: 'none', typ: 'JWT' })}.${base64Url({ sub: user.id, iat: now, exp: now + ACCESS_TOKEN_TTL_SECONDS, jti: randomId() })}.mock`;
+  const refreshToken = `refresh.${user.id}.${randomId()}`;
+  state.tokens[token] = user.id;
+  state.refreshTokens[refreshToken] = user.id;
+  return { token, refresh_token: refreshToken };
+};
+
+const tokenUser = (token: string): MockUser | null => {
+  const userId = state.tokens[token];
+  if (userId === undefined) return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now()) {
+      delete state.tokens[token];
+      return null;
+    }
+  } catch {
+    return null;
+  }
+  return state.users.find(u => u.id === userId) || null;
+};
+
+const imageMatchesFile = (image: PhotoResult, seed: number): number => {
+  // Deterministic pseudo-similarity so the same query returns the same matches
+  let hash = seed;
+  for (const char of image.id) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 9973;
+  }
+  return 0.55 + (hash % 45) / 100;
+};
+
+const SEARCH_BATCH_SIZE = 8;
+
+/**
+ * Run a face search against the mock collection and count the scan, best matches first
+ */
+const findMatches = (file: Blob, user: MockUser | null): PhotoResult[] => {
+  const results = state.images
+    .map(image => {
+      const similarity = imageMatchesFile(image, file.size);
+      // Videos have no stored face list; the matched frame gets a box of its own
+      const faces = image.faces || mockFaces(image.id);
+      const matchedFace = faces[(file.size + idHash(image.id)) % faces.length];
+      return {
+        ...image,
+        similarity,
+        confidence: Math.round(similarity * 100),
+        matched_face_id: image.faces ? matchedFace.id : undefined,
+        matched_face: matchedFace.box,
+      };
+    })
+    .filter(image => image.similarity >= 0.7)
+    .sort((a, b) => b.similarity - a.similarity);
+
+  if (user) user.scan_count++;
+  if (results.length > 0) state.successfulScans++;
+  return results;
+};
+
+// Pretend the untagged collection shows this many different people
+const MOCK_IDENTITIES = 5;
+const DEFAULT_CLUSTER_THRESHOLD = 0.75;
+
+/**
+ * Deterministic pseudo face similarity: high for images assigned the same made-up identity
+ */
+const faceSimilarity = (a: PhotoResult, b: PhotoResult): number => {
+  const sameIdentity = idHash(a.id) % MOCK_IDENTITIES === idHash(b.id) % MOCK_IDENTITIES;
+  const noise = ((idHash(a.id) + idHash(b.id)) % 15) / 100;
+  return (sameIdentity ? 0.78 : 0.4) + noise;
+};
+
+const rejected = (a: PhotoResult, b: PhotoResult) =>
+  !!state.clusterRejections[a.id]?.includes(b.id) || !!state.clusterRejections[b.id]?.includes(a.id);
+
+const averageSimilarity = (images: PhotoResult[]): number => {
+  let total = 0;
+  let pairs = 0;
+  for (let i = 0; i < images.length; i++) {
+    for (let j = i + 1; j < images.length; j++) {
+      total += faceSimilarity(images[i], images[j]);
+      pairs++;
+    }
+  }
+  return pairs ? Math.round((total / pairs) * 100) / 100 : 1;
+};
+
+const toCluster = (images: PhotoResult[]) => ({
+  id: `cluster-${images[0].id}`,
+  images,
+  similarity: averageSimilarity(images),
+});
+
+/**
+ * Greedy complete-linkage clustering: an image joins the closest cluster it matches every member of
+ */
+const clusterFaces = (images: PhotoResult[], threshold: number): PhotoResult[][] => {
+  const clusters: PhotoResult[][] = [];
+  images.forEach(image => {
+    let best: PhotoResult[] | null = null;
+    let bestScore = 0;
+    clusters.forEach(cluster => {
+      if (cluster.some(member => rejected(image, member))) return;
+      const scores = cluster.map(member => faceSimilarity(image, member));
+      if (Math.min(...scores) < threshold) return;
+      const score = scores.reduce((sum, value) => sum + value, 0) / scores.length;
+      if (score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    });
+    if (best) {
+      (best as PhotoResult[]).push(image);
+    } else {
+      clusters.push([image]);
+    }
+  });
+  return clusters;
+};
+
+type FileMetadata = Pick<PhotoResult, 'datetime' | 'latitude' | 'longitude'>;
+
+/**
+ * Keep only well-formed capture time and position from client-supplied file metadata
+ */
+const parseFileMetadata = (value: unknown): FileMetadata => {
+  let raw: any = value;
+  if (typeof value === 'string') {
+    try {
+      raw = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  const metadata: FileMetadata = {};
+  if (typeof raw?.datetime === 'string' && !isNaN(Date.parse(raw.datetime))) {
+    metadata.datetime = raw.datetime;
+  }
+  if (typeof raw?.latitude === 'number' && typeof raw?.longitude === 'number'
+    && Math.abs(raw.latitude) <= 90 && Math.abs(raw.longitude) <= 180) {
+    metadata.latitude = raw.latitude;
+    metadata.longitude = raw.longitude;
+  }
+  return metadata;
+};
+
+const withFileMetadata = (metadata: FileMetadata): Partial<PhotoResult> =>
+  metadata.datetime || metadata.latitude !== undefined ? { ...metadata, metadata_source: 'file' } : {};
+
+/**
+ * Add an uploaded image to the collection, rejecting files that are not images
+ */
+const ingestImage = (file: File, metadata: FileMetadata = {}): { status: 'success' | 'error'; error?: string } => {
+  if (!file.type.startsWith('image/') || file.size === 0) {
+    return { status: 'error', error: 'Unsupported or empty file' };
+  }
+  const id = String(state.nextImageId++);
+  state.images.unshift({
+    id,
+    imageUrl: URL.createObjectURL(file),
+    format: file.type.split('/')[1]?.toUpperCase(),
+    file_size: file.size,
+    uploadedAt: new Date().toISOString(),
+    media_type: 'image',
+    faces: mockFaces(id),
+    ...withFileMetadata(metadata),
+  });
+  return { status: 'success' };
+};
+
+const ingestVideo = (file: File, metadata: FileMetadata = {}) => {
+  state.images.unshift({
+    id: String(state.nextImageId++),
+    imageUrl: URL.createObjectURL(file),
+    format: file.type.split('/')[1]?.toUpperCase(),
+    file_size: file.size,
+    uploadedAt: new Date().toISOString(),
+    media_type: 'video',
+    timestamp: 0,
+    ...withFileMetadata(metadata),
+  });
+};
+
+/**
+ * Fake video processing with plausible counts derived from the file size
+ */
+const videoIngestStats = (file: File) => {
+  const framesTotal = Math.min(Math.max(Math.round(file.size / 250000), 20), 120);
+  const facesFound = Math.round(framesTotal * (0.2 + (file.size % 7) / 20));
+  return { framesTotal, facesFound };
+};
+
+/**
+ * Process a video, streaming sampling, detection and storage progress before the final stats
+ */
+const streamVideoIngest = (file: File, metadata: FileMetadata, signal?: AbortSignal, onDone?: () => void): Response => {
+  const { framesTotal, facesFound } = videoIngestStats(file);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      try {
+        for (let frames = 0; frames < framesTotal;) {
+          frames = Math.min(frames + 10, framesTotal);
+          send({ type: 'stage', stage: 'sampling', frames_total: framesTotal, frames_processed: frames });
+          await delay(150, signal);
+        }
+        for (let faces = 0, frames = 0; frames < framesTotal;) {
+          frames = Math.min(frames + 10, framesTotal);
+          faces = Math.round((frames / framesTotal) * facesFound);
+          send({ type: 'stage', stage: 'detecting', frames_total: framesTotal, frames_processed: frames, faces_found: faces });
+          await delay(150, signal);
+        }
+        send({ type: 'stage', stage: 'storing', frames_total: framesTotal, frames_processed: framesTotal, faces_found: facesFound, embeddings_stored: 0 });
+        await delay(300, signal);
+
+        ingestVideo(file, metadata);
+        onDone?.();
+        persist();
+        send({ type: 'complete', stats: { frames_processed: framesTotal, faces_found: facesFound, embeddings_stored: facesFound } });
+        controller.close();
+      } catch (error) {
+        // Client went away mid-stream
+        controller.error(error);
+      }
+    },
+  });
+  return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Person whose name or one of whose aliases matches, ignoring case
+ */
+const findPersonByName = (name: string): MockPerson | undefined => {
+  const wanted = normalizeName(name);
+  return state.people.find(person => normalizeName(person.name) === wanted || person.aliases.some(alias => normalizeName(alias) === wanted));
+};
+
+/**
+ * Whether the image is tagged with the person, as a whole or on any of its faces
+ */
+const showsPerson = (image: PhotoResult, personId: string) =>
+  image.person_id === personId || !!image.faces?.some(face => face.person_id === personId);
+
+const personView = (person: MockPerson): Person => {
+  const images = state.images.filter(img => showsPerson(img, person.id));
+  const cover = images.find(img => img.id === person.cover_image_id) || images.find(img => img.media_type !== 'video');
+  return {
+    ...person,
+    cover_image_id: cover?.id,
+    cover_image_url: cover?.imageUrl,
+    image_count: images.length,
+  };
+};
+
+/**
+ * Point an image at a person, keeping the denormalized display name in step. Null untags.
+ */
+const assignPerson = (image: PhotoResult, person: MockPerson | null) => {
+  image.person_id = person?.id;
+  image.tagged_by = person?.name;
+};
+
+/**
+ * The image-level tag follows its faces: first tagged face, or none
+ */
+const retagFromFaces = (image: PhotoResult) => {
+  const personId = image.faces?.find(face => face.person_id)?.person_id;
+  assignPerson(image, state.people.find(person => person.id === personId) || null);
+};
+
+/**
+ * Tag one face. An untagged image takes the face's person as its own tag, so it leaves the untagged folder.
+ */
+const tagFace = (image: PhotoResult, face: DetectedFace, person: MockPerson | null) => {
+  const previous = face.person_id;
+  face.person_id = person?.id;
+  face.person_name = person?.name;
+  if (!image.person_id) {
+    assignPerson(image, person);
+  } else if (image.person_id === previous && !image.faces?.some(f => f.person_id === previous)) {
+    retagFromFaces(image);
+  }
+};
+
+/**
+ * A name or alias already used by someone else, which would make tagging ambiguous
+ */
+const nameConflict = (names: string[], exceptId?: string): string | undefined =>
+  names.find(name => {
+    const owner = findPersonByName(name);
+    return owner && owner.id !== exceptId;
+  });
+
+/**
+ * Apply an admin edit; date or location the admin changes are no longer what the file said
+ */
+const applyImageUpdate = (image: PhotoResult, updates: Partial<PhotoResult>) => {
+  const { datetime, latitude, longitude, person_id, tagged_by } = updates;
+  const metadataChanged = (datetime !== undefined && (datetime || undefined) !== image.datetime)
+    || (latitude !== undefined && latitude !== image.latitude)
+    || (longitude !== undefined && longitude !== image.longitude);
+  if (datetime !== undefined) image.datetime = datetime || undefined;
+  if (latitude !== undefined) image.latitude = latitude;
+  if (longitude !== undefined) image.longitude = longitude;
+  if (metadataChanged) image.metadata_source = 'manual';
+  if (person_id !== undefined) {
+    assignPerson(image, state.people.find(person => person.id === person_id) || null);
+  } else if (tagged_by !== undefined) {
+    // Older clients still send a name: reuse the person it belongs to, or create one
+    let person = tagged_by ? findPersonByName(tagged_by) : undefined;
+    if (tagged_by && !person) {
+      person = { id: `p${state.nextPersonId++}`, name: tagged_by.trim(), aliases: [], created_at: new Date().toISOString() };
+      state.people.push(person);
+    }
+    assignPerson(image, person || null);
+  }
+};
+
+// Chunked uploads in progress. Kept in memory only, like a server that loses them on restart.
+interface MockUploadSession {
+  id: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  kind: 'image' | 'video';
+  metadata: FileMetadata;
+  chunks: Blob[];
+  receivedBytes: number;
+  result?: { status: 'success' | 'error'; error?: string; stats?: { frames_processed: number; faces_found: number; embeddings_stored: number } };
+}
+
+const UPLOAD_CHUNK_SIZE = 256 * 1024;
+const uploadSessions = new Map<string, MockUploadSession>();
+
+const sessionInfo = (session: MockUploadSession) => ({
+  upload_id: session.id,
+  chunk_size: UPLOAD_CHUNK_SIZE,
+  received_bytes: session.receivedBytes,
+});
+
+// --- Routing ---
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: any;
+  user: MockUser | null;
+  signal?: AbortSignal;
+}
+
+interface Route {
+  method: TransportRequest['method'];
+  pattern: RegExp;
+  auth?: boolean;
+  admin?: boolean;
+  handler: (ctx: RouteContext) => Response | Promise<Response>;
+}
+
+const routes: Route[] = [
+  // Authentication
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/signup$/,
+    handler: ({ body }) => {
+      const { name, email, password } = body || {};
+      if (!name || !email || !password) {
+        return fail(400, 'Name, email and password are required');
+      }
+      if (state.users.some(u => u.email.toLowerCase() === String(email).toLowerCase())) {
+        return fail(409, 'An account with this email already exists');
+      }
+      const user: MockUser = {
+        id: state.nextUserId++,
+        name,
+        email,
+        password,
+        profile_image: null,
+        is_admin: false,
+        created_at: new Date().toISOString(),
+        scan_count: 0,
+      };
+      state.users.push(user);
+      return json(201, { message: 'Account created successfully', user: publicUser(user), ...issueTokens(user) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/signin$/,
+    handler: ({ body }) => {
+      const { email, password } = body || {};
+      const user = state.users.find(u => u.email.toLowerCase() === String(email).toLowerCase());
+      if (!user || user.password !== password) {
+        return fail(401, 'Invalid email or password');
+      }
+      return json(200, { message: 'Signed in successfully', user: publicUser(user), ...issueTokens(user) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/auth\/refresh$/,
+    handler: ({ body }) => {
+      const refreshToken = body?.refresh_token;
+      const userId = refreshToken ? state.refreshTokens[refreshToken] : undefined;
+      const user = state.users.find(u => u.id === userId);
+      if (!user) {
+        return fail(401, 'Session expired. Please sign in again.');
+      }
+      // Rotate: each refresh token is single-use
+      delete state.refreshTokens[refreshToken];
+      return json(200, issueTokens(user));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/auth\/profile$/,
+    auth: true,
+    handler: ({ user }) => json(200, { user: publicUser(user!) }),
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/auth\/profile\/image$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const file = body instanceof FormData ? body.get('image') : null;
+      if (!(file instanceof Blob)) {
+        return fail(400, 'No image provided');
+      }
+      user!.profile_image = URL.createObjectURL(file);
+      return json(200, { message: 'Profile image updated', user: publicUser(user!) });
+    },
+  },
+
+  // Search
+  {
+    method: 'POST',
+    pattern: /^\/api\/search-image$/,
+    handler: async ({ body, user, signal }) => {
+      const file = body instanceof FormData ? body.get('image') : null;
+      if (!(file instanceof Blob)) {
+        return fail(400, 'No image provided');
+      }
+      await delay(1500, signal);
+
+      const results = findMatches(file, user);
+      return json(200, { results });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/search-image\/stream$/,
+    handler: ({ body, user, signal }) => {
+      const file = body instanceof FormData ? body.get('image') : null;
+      if (!(file instanceof Blob)) {
+        return fail(400, 'No image provided');
+      }
+
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          try {
+            send({ type: 'stage', stage: 'detecting', message: 'Detecting face' });
+            await delay(400, signal);
+            send({ type: 'stage', stage: 'embedding', message: 'Generating face embedding' });
+            await delay(500, signal);
+            send({ type: 'stage', stage: 'searching', message: 'Searching the collection' });
+
+            const results = findMatches(file, user);
+            persist();
+            for (let i = 0; i < results.length; i += SEARCH_BATCH_SIZE) {
+              await delay(300, signal);
+              send({ type: 'matches', results: results.slice(i, i + SEARCH_BATCH_SIZE), total: results.length });
+            }
+            send({ type: 'complete', total: results.length });
+            controller.close();
+          } catch (error) {
+            // Client went away mid-stream
+            controller.error(error);
+          }
+        },
+      });
+
+      return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    },
+  },
+
+  {
+    method: 'POST',
+    pattern: /^\/api\/detect-faces$/,
+    handler: async ({ body, signal }) => {
+      const file = body instanceof FormData ? body.get('image') : null;
+      if (!(file instanceof Blob)) {
+        return fail(400, 'No image provided');
+      }
+      await delay(400, signal);
+
+      // No real detector here: lay out one to three faces side by side, stable per file
+      const count = 1 + (file.size % 3);
+      const width = 0.6 / count;
+      const faces = Array.from({ length: count }, (_, i) => ({
+        x: 0.2 + i * width + width * 0.1,
+        y: 0.2,
+        width: width * 0.8,
+        height: Math.min(width * 0.8 * 1.3, 0.5),
+      }));
+      return json(200, { faces });
+    },
+  },
+
+  // Admin
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/upload$/,
+    admin: true,
+    handler: ({ body }) => {
+      const files = body instanceof FormData ? body.getAll('images').filter((f): f is File => f instanceof File) : [];
+      if (files.length === 0) {
+        return fail(400, 'No images provided');
+      }
+      // Optional, one entry per image in the same order
+      const metadata = (body as FormData).getAll('metadata').map(parseFileMetadata);
+
+      const encoder = new TextEncoder();
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (data: unknown) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+          let processed = 0;
+          let failed = 0;
+          const failedFiles: string[] = [];
+
+          for (let i = 0; i < files.length; i++) {
+            const file = files[i];
+            await delay(250);
+            const { status, error } = ingestImage(file, metadata[i]);
+            if (status === 'error') {
+              failed++;
+              failedFiles.push(file.name);
+            } else {
+              processed++;
+            }
+            send({
+              type: 'progress',
+              current: i + 1,
+              total: files.length,
+              processed,
+              failed,
+              percentage: Math.round(((i + 1) / files.length) * 100),
+              current_file: file.name,
+              status,
+              error,
+            });
+          }
+
+          persist();
+          send({ type: 'complete', processed, failed, failed_files: failedFiles });
+          controller.close();
+        },
+      });
+
+      return new Response(stream, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/upload-video$/,
+    admin: true,
+    handler: async ({ body, query, signal }) => {
+      const file = body instanceof FormData ? body.get('video') : null;
+      if (!(file instanceof File)) {
+        return fail(400, 'No video provided');
+      }
+      const metadata = parseFileMetadata((body as FormData).get('metadata'));
+      if (query.get('stream') === 'true') {
+        return streamVideoIngest(file, metadata, signal);
+      }
+      await delay(1000);
+      const { framesTotal, facesFound } = videoIngestStats(file);
+      ingestVideo(file, metadata);
+      return json(200, { message: 'Video processed', stats: { frames_processed: framesTotal, faces_found: facesFound, embeddings_stored: facesFound } });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/uploads$/,
+    admin: true,
+    handler: ({ body }) => {
+      const { file_name, file_size, mime_type, kind, metadata } = body || {};
+      if (!file_name || typeof file_size !== 'number') {
+        return fail(400, 'File name and size are required');
+      }
+      const session: MockUploadSession = {
+        id: randomId(),
+        fileName: file_name,
+        fileSize: file_size,
+        mimeType: mime_type || '',
+        kind: kind === 'video' ? 'video' : 'image',
+        metadata: parseFileMetadata(metadata),
+        chunks: [],
+        receivedBytes: 0,
+      };
+      uploadSessions.set(session.id, session);
+      return json(201, sessionInfo(session));
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/uploads\/([^/]+)$/,
+    admin: true,
+    handler: ({ params }) => {
+      const session = uploadSessions.get(params[0]);
+      return session ? json(200, sessionInfo(session)) : fail(404, 'Upload not found');
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/uploads\/([^/]+)\/chunks$/,
+    admin: true,
+    handler: async ({ params, query, body, signal }) => {
+      const session = uploadSessions.get(params[0]);
+      if (!session) {
+        return fail(404, 'Upload not found');
+      }
+      const chunk = body instanceof FormData ? body.get('chunk') : null;
+      if (!(chunk instanceof Blob)) {
+        return fail(400, 'No chunk provided');
+      }
+      if (Number(query.get('offset')) !== session.receivedBytes) {
+        return json(409, { error: 'Chunk offset does not match', ...sessionInfo(session) });
+      }
+      await delay(120, signal);
+      session.chunks.push(chunk);
+      session.receivedBytes += chunk.size;
+      return json(200, sessionInfo(session));
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/uploads\/([^/]+)\/complete$/,
+    admin: true,
+    handler: async ({ params, query, signal }) => {
+      const session = uploadSessions.get(params[0]);
+      if (!session) {
+        return fail(404, 'Upload not found');
+      }
+      // Completing twice returns the first outcome instead of adding the file again
+      if (!session.result) {
+        if (session.receivedBytes < session.fileSize) {
+          return json(409, { error: 'Upload is incomplete', ...sessionInfo(session) });
+        }
+        const file = new File(session.chunks, session.fileName, { type: session.mimeType });
+        if (session.kind === 'video') {
+          const { framesTotal, facesFound } = videoIngestStats(file);
+          const result = { status: 'success' as const, stats: { frames_processed: framesTotal, faces_found: facesFound, embeddings_stored: facesFound } };
+          if (query.get('stream') === 'true') {
+            return streamVideoIngest(file, session.metadata, signal, () => {
+              session.result = result;
+              session.chunks = [];
+            });
+          }
+          await delay(1000);
+          ingestVideo(file, session.metadata);
+          session.result = result;
+        } else {
+          await delay(250);
+          session.result = ingestImage(file, session.metadata);
+        }
+        session.chunks = [];
+      }
+      return json(200, session.result);
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/uploads\/([^/]+)$/,
+    admin: true,
+    handler: ({ params }) => {
+      uploadSessions.delete(params[0]);
+      return json(200, { message: 'Upload canceled' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/images$/,
+    admin: true,
+    handler: ({ query }) => {
+      const personId = query.get('person_id');
+      const taggedBy = query.get('tagged_by');
+      const untaggedOnly = query.get('untagged_only') === 'true';
+      const images = state.images.filter(img => {
+        if (untaggedOnly) return !img.person_id;
+        if (personId) return showsPerson(img, personId);
+        if (taggedBy) return img.tagged_by === taggedBy;
+        return true;
+      });
+      return json(200, { images });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/face-clusters$/,
+    admin: true,
+    handler: async ({ query }) => {
+      const threshold = Number(query.get('threshold')) || DEFAULT_CLUSTER_THRESHOLD;
+      await delay(600);
+      const untagged = state.images.filter(img => !img.person_id && img.media_type !== 'video');
+      const groups = clusterFaces(untagged, threshold);
+      const clusters = groups.filter(group => group.length > 1).map(toCluster).sort((a, b) => b.images.length - a.images.length);
+      return json(200, { clusters, unclustered: groups.filter(group => group.length === 1).length });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/face-clusters\/split$/,
+    admin: true,
+    handler: async ({ body }) => {
+      const ids: unknown = body?.image_ids;
+      const images = Array.isArray(ids) ? state.images.filter(img => ids.includes(img.id)) : [];
+      if (images.length < 2) {
+        return fail(400, 'A cluster needs at least two images to split');
+      }
+      await delay(300);
+      // Seed each half with the least similar pair, then send every other image to the closer seed
+      let seeds: [PhotoResult, PhotoResult] = [images[0], images[1]];
+      images.forEach((a, i) => images.slice(i + 1).forEach(b => {
+        if (faceSimilarity(a, b) < faceSimilarity(seeds[0], seeds[1])) seeds = [a, b];
+      }));
+      const halves: [PhotoResult[], PhotoResult[]] = [[], []];
+      images.forEach(image => {
+        const closerToFirst = image !== seeds[1]
+          && (image === seeds[0] || faceSimilarity(image, seeds[0]) >= faceSimilarity(image, seeds[1]));
+        halves[closerToFirst ? 0 : 1].push(image);
+      });
+      return json(200, { clusters: halves.map(toCluster) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/face-clusters\/reject$/,
+    admin: true,
+    handler: ({ body }) => {
+      const { image_id, cluster_image_ids } = body || {};
+      if (typeof image_id !== 'string' || !Array.isArray(cluster_image_ids)) {
+        return fail(400, 'Image id and cluster image ids are required');
+      }
+      const others = cluster_image_ids.filter((id: unknown): id is string => typeof id === 'string' && id !== image_id);
+      state.clusterRejections[image_id] = Array.from(new Set([...(state.clusterRejections[image_id] || []), ...others]));
+      return json(200, { message: 'Image removed from cluster' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/people$/,
+    admin: true,
+    handler: () => json(200, {
+      people: state.people.map(personView).sort((a, b) => a.name.localeCompare(b.name)),
+    }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/people$/,
+    admin: true,
+    handler: ({ body }) => {
+      const name = typeof body?.name === 'string' ? body.name.trim() : '';
+      const aliases: string[] = Array.isArray(body?.aliases) ? body.aliases.map((a: string) => String(a).trim()).filter(Boolean) : [];
+      if (!name) {
+        return fail(400, 'Name is required');
+      }
+      const conflict = nameConflict([name, ...aliases]);
+      if (conflict) {
+        return fail(409, `"${conflict}" is already used by another person`);
+      }
+      const person: MockPerson = {
+        id: `p${state.nextPersonId++}`,
+        name,
+        aliases,
+        cover_image_id: body?.cover_image_id || undefined,
+        user_id: typeof body?.user_id === 'number' ? body.user_id : undefined,
+        created_at: new Date().toISOString(),
+      };
+      state.people.push(person);
+      return json(201, { person: personView(person) });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/people\/([^/]+)$/,
+    admin: true,
+    handler: ({ params, body }) => {
+      const person = state.people.find(p => p.id === params[0]);
+      if (!person) {
+        return fail(404, 'Person not found');
+      }
+      const name = typeof body?.name === 'string' ? body.name.trim() : person.name;
+      const aliases: string[] = Array.isArray(body?.aliases) ? body.aliases.map((a: string) => String(a).trim()).filter(Boolean) : person.aliases;
+      if (!name) {
+        return fail(400, 'Name is required');
+      }
+      const conflict = nameConflict([name, ...aliases], person.id);
+      if (conflict) {
+        return fail(409, `"${conflict}" is already used by another person`);
+      }
+      if (body?.user_id !== undefined && body.user_id !== null && !state.users.some(u => u.id === body.user_id)) {
+        return fail(400, 'User not found');
+      }
+      person.name = name;
+      person.aliases = aliases;
+      if (body?.cover_image_id !== undefined) person.cover_image_id = body.cover_image_id || undefined;
+      if (body?.user_id !== undefined) person.user_id = body.user_id ?? undefined;
+      // Renaming happens once here; images only carry the id
+      state.images.forEach(img => {
+        if (img.person_id === person.id) img.tagged_by = person.name;
+        img.faces?.forEach(face => {
+          if (face.person_id === person.id) face.person_name = person.name;
+        });
+      });
+      return json(200, { person: personView(person) });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/people\/([^/]+)$/,
+    admin: true,
+    handler: ({ params }) => {
+      const before = state.people.length;
+      state.people = state.people.filter(p => p.id !== params[0]);
+      if (state.people.length === before) {
+        return fail(404, 'Person not found');
+      }
+      state.images.forEach(img => {
+        img.faces?.forEach(face => {
+          if (face.person_id === params[0]) tagFace(img, face, null);
+        });
+        if (img.person_id === params[0]) retagFromFaces(img);
+      });
+      return json(200, { message: 'Person deleted' });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/people\/([^/]+)\/merge$/,
+    admin: true,
+    handler: ({ params, body }) => {
+      const target = state.people.find(p => p.id === params[0]);
+      if (!target) {
+        return fail(404, 'Person not found');
+      }
+      const sourceIds: unknown = body?.source_ids;
+      const sources = Array.isArray(sourceIds) ? state.people.filter(p => p.id !== target.id && sourceIds.includes(p.id)) : [];
+      if (sources.length === 0) {
+        return fail(400, 'No people to merge');
+      }
+      // Merged names stay findable as aliases, so tagging by an old spelling still lands here
+      const aliases = new Set(target.aliases);
+      sources.forEach(source => [source.name, ...source.aliases].forEach(alias => aliases.add(alias)));
+      aliases.delete(target.name);
+      target.aliases = Array.from(aliases);
+      target.user_id = target.user_id ?? sources.find(source => source.user_id !== undefined)?.user_id;
+      state.people = state.people.filter(p => !sources.includes(p));
+      state.images.forEach(img => {
+        if (sources.some(source => source.id === img.person_id)) assignPerson(img, target);
+        img.faces?.forEach(face => {
+          if (sources.some(source => source.id === face.person_id)) {
+            face.person_id = target.id;
+            face.person_name = target.name;
+          }
+        });
+      });
+      return json(200, { person: personView(target) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/users$/,
+    admin: true,
+    handler: () => json(200, { users: state.users.map(publicUser) }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/tags$/,
+    admin: true,
+    handler: () => {
+      const tags = Array.from(new Set(state.images.map(img => img.tagged_by).filter((t): t is string => !!t))).sort();
+      return json(200, { tags });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/image\/([^/]+)$/,
+    admin: true,
+    handler: ({ params, body }) => {
+      const image = state.images.find(img => img.id === params[0]);
+      if (!image) {
+        return fail(404, 'Image not found');
+      }
+      applyImageUpdate(image, body || {});
+      return json(200, { message: 'Image updated', image });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/admin\/image\/([^/]+)\/faces\/([^/]+)$/,
+    admin: true,
+    handler: ({ params, body }) => {
+      const image = state.images.find(img => img.id === params[0]);
+      const face = image?.faces?.find(f => f.id === params[1]);
+      if (!image || !face) {
+        return fail(404, 'Face not found');
+      }
+      const personId = body?.person_id;
+      const person = personId ? state.people.find(p => p.id === personId) : null;
+      if (personId && !person) {
+        return fail(400, 'Person not found');
+      }
+      tagFace(image, face, person || null);
+      return json(200, { image });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/images\/batch-update$/,
+    admin: true,
+    handler: async ({ body }) => {
+      const { ids, updates } = body || {};
+      if (!Array.isArray(ids) || ids.length === 0 || !updates) {
+        return fail(400, 'Image ids and updates are required');
+      }
+      await delay(300);
+      const result: { ids: string[]; failed_ids: string[] } = { ids: [], failed_ids: [] };
+      ids.forEach((id: string) => {
+        const image = state.images.find(img => img.id === id);
+        if (image) {
+          applyImageUpdate(image, updates);
+          result.ids.push(id);
+        } else {
+          result.failed_ids.push(id);
+        }
+      });
+      return json(200, result);
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/admin\/images\/batch-delete$/,
+    admin: true,
+    handler: async ({ body }) => {
+      const ids: unknown = body?.ids;
+      if (!Array.isArray(ids) || ids.length === 0) {
+        return fail(400, 'Image ids are required');
+      }
+      await delay(300);
+      const existing = new Set(state.images.map(img => img.id));
+      state.images = state.images.filter(img => !ids.includes(img.id));
+      return json(200, {
+        ids: ids.filter(id => existing.has(id)),
+        failed_ids: ids.filter(id => !existing.has(id)),
+      });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/admin\/image\/([^/]+)$/,
+    admin: true,
+    handler: ({ params }) => {
+      const before = state.images.length;
+      state.images = state.images.filter(img => img.id !== params[0]);
+      if (state.images.length === before) {
+        return fail(404, 'Image not found');
+      }
+      return json(200, { message: 'Image deleted' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/admin\/stats$/,
+    admin: true,
+    handler: () => json(200, {
+      total_images: state.images.length,
+      total_users: state.users.length,
+      successful_scans: state.successfulScans,
+      pending_reviews: state.images.filter(img => !img.person_id).length,
+    }),
+  },
+
+  // Gallery
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/save$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const gallery = state.galleries[user!.id] || [];
+      if (!body?.id) {
+        return fail(400, 'Image data is required');
+      }
+      if (!gallery.some(item => item.id === body.id)) {
+        gallery.push({ ...body, isSaved: true });
+      }
+      state.galleries[user!.id] = gallery;
+      return json(201, { message: 'Saved to gallery' });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/clips$/,
+    auth: true,
+    handler: async ({ user, body, signal }) => {
+      const recorded = body instanceof FormData ? body.get('clip') : null;
+      const details = body instanceof FormData ? parseBody(String(body.get('details') || '')) : body;
+      const { source_id, start, end, timestamps } = details || {};
+      const gallery = state.galleries[user!.id] || [];
+      const source = gallery.find(item => item.id === source_id) || state.images.find(img => img.id === source_id);
+      if (!source || source.media_type !== 'video') {
+        return fail(404, 'Source video not found');
+      }
+      if (typeof start !== 'number' || typeof end !== 'number' || end <= start) {
+        return fail(400, 'A valid start and end are required');
+      }
+      const inClip: number[] = Array.isArray(timestamps) ? timestamps.filter((ts: unknown) => typeof ts === 'number' && ts >= start && ts <= end) : [];
+      let imageUrl: string;
+      let times: number[];
+      if (recorded instanceof Blob) {
+        imageUrl = URL.createObjectURL(recorded);
+        times = inClip.map(ts => Math.round((ts - start) * 100) / 100);
+      } else {
+        // No encoder here: serve the source limited to the segment with a media fragment, which plays in source time
+        await delay(800, signal);
+        imageUrl = `${source.imageUrl.split('#')[0]}#t=${start},${end}`;
+        times = inClip;
+      }
+      const item: PhotoResult = {
+        id: String(state.nextImageId++),
+        imageUrl,
+        media_type: 'video',
+        timestamp: times[0] ?? 0,
+        timestamps: times,
+        similarity: source.similarity,
+        confidence: source.confidence,
+        clip: { source_id: source.id, source_url: source.imageUrl.split('#')[0], start, end },
+        isSaved: true,
+      };
+      state.galleries[user!.id] = [...gallery, item];
+      return json(201, { item });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/gallery\/images$/,
+    auth: true,
+    handler: ({ user }) => json(200, { images: state.galleries[user!.id] || [] }),
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/gallery\/image\/([^/]+)$/,
+    auth: true,
+    handler: ({ user, params }) => {
+      state.galleries[user!.id] = (state.galleries[user!.id] || []).filter(item => item.id !== params[0]);
+      pruneAlbums(state, user!.id);
+      return json(200, { message: 'Removed from gallery' });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/gallery\/albums$/,
+    auth: true,
+    handler: ({ user }) => json(200, { albums: state.albums[user!.id] || [] }),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/albums$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const name = String(body?.name || '').trim();
+      if (!name) {
+        return fail(400, 'Album name is required');
+      }
+      const albums = state.albums[user!.id] || [];
+      if (albums.some(album => album.name.toLowerCase() === name.toLowerCase())) {
+        return fail(409, `An album named "${name}" already exists`);
+      }
+      const album: Album = {
+        id: `a${state.nextAlbumId++}`,
+        name,
+        item_ids: galleryItemIds(user!.id, body?.item_ids),
+        created_at: new Date().toISOString(),
+      };
+      state.albums[user!.id] = [...albums, album];
+      return json(201, { album });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/gallery\/albums\/order$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const albums = state.albums[user!.id] || [];
+      const order: string[] = Array.isArray(body?.album_ids) ? body.album_ids : [];
+      if (order.length !== albums.length || !albums.every(album => order.includes(album.id))) {
+        return fail(400, 'album_ids must list every album once');
+      }
+      state.albums[user!.id] = order.map(id => albums.find(album => album.id === id)!);
+      return json(200, { message: 'Albums reordered' });
+    },
+  },
+  {
+    method: 'PUT',
+    pattern: /^\/api\/gallery\/albums\/([^/]+)$/,
+    auth: true,
+    handler: ({ user, params, body }) => {
+      const albums = state.albums[user!.id] || [];
+      const album = albums.find(a => a.id === params[0]);
+      if (!album) {
+        return fail(404, 'Album not found');
+      }
+      if (body?.name !== undefined) {
+        const name = String(body.name).trim();
+        if (!name) {
+          return fail(400, 'Album name is required');
+        }
+        if (albums.some(a => a.id !== album.id && a.name.toLowerCase() === name.toLowerCase())) {
+          return fail(409, `An album named "${name}" already exists`);
+        }
+        album.name = name;
+      }
+      if (body?.item_ids !== undefined) {
+        const order: string[] = Array.isArray(body.item_ids) ? body.item_ids : [];
+        if (order.length !== album.item_ids.length || !album.item_ids.every(id => order.includes(id))) {
+          return fail(400, 'item_ids must list every item in the album once');
+        }
+        album.item_ids = order;
+      }
+      if (body?.cover_item_id !== undefined) {
+        if (body.cover_item_id && !album.item_ids.includes(body.cover_item_id)) {
+          return fail(400, 'The cover must be an item in the album');
+        }
+        album.cover_item_id = body.cover_item_id || undefined;
+      }
+      return json(200, { album });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/gallery\/albums\/([^/]+)$/,
+    auth: true,
+    handler: ({ user, params }) => {
+      const albums = state.albums[user!.id] || [];
+      if (!albums.some(album => album.id === params[0])) {
+        return fail(404, 'Album not found');
+      }
+      state.albums[user!.id] = albums.filter(album => album.id !== params[0]);
+      return json(200, { message: 'Album deleted' });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/albums\/([^/]+)\/items$/,
+    auth: true,
+    handler: ({ user, params, body }) => {
+      const album = (state.albums[user!.id] || []).find(a => a.id === params[0]);
+      if (!album) {
+        return fail(404, 'Album not found');
+      }
+      const itemIds = galleryItemIds(user!.id, body?.item_ids);
+      if (itemIds.length === 0) {
+        return fail(400, 'Only items saved to your gallery can be added to an album');
+      }
+      album.item_ids = [...album.item_ids, ...itemIds.filter(id => !album.item_ids.includes(id))];
+      return json(200, { album });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/gallery\/albums\/([^/]+)\/items\/remove$/,
+    auth: true,
+    handler: ({ user, params, body }) => {
+      const album = (state.albums[user!.id] || []).find(a => a.id === params[0]);
+      if (!album) {
+        return fail(404, 'Album not found');
+      }
+      const removed: string[] = Array.isArray(body?.item_ids) ? body.item_ids : [];
+      album.item_ids = album.item_ids.filter(id => !removed.includes(id));
+      if (album.cover_item_id && removed.includes(album.cover_item_id)) delete album.cover_item_id;
+      return json(200, { album });
+    },
+  },
+  // Share links
+  {
+    method: 'POST',
+    pattern: /^\/api\/shares$/,
+    auth: true,
+    handler: ({ user, body }) => {
+      const kind: ShareLink['kind'] = body?.album_id ? 'album' : 'item';
+      const targetId = String(body?.album_id || body?.item_id || '');
+      const exists = kind === 'album'
+        ? (state.albums[user!.id] || []).some(album => album.id === targetId)
+        : (state.galleries[user!.id] || []).some(item => item.id === targetId);
+      if (!exists) {
+        return fail(404, kind === 'album' ? 'Album not found' : 'Item not found in your gallery');
+      }
+      const hours = body?.expires_in_hours;
+      if (hours != null && (typeof hours !== 'number' || hours <= 0)) {
+        return fail(400, 'expires_in_hours must be a positive number');
+      }
+      const share: MockShare = {
+        id: randomId(),
+        user_id: user!.id,
+        kind,
+        target_id: targetId,
+        expires_at: hours != null ? new Date(Date.now() + hours * 3600 * 1000).toISOString() : null,
+        password: body?.password ? String(body.password) : null,
+        view_count: 0,
+        revoked_at: null,
+        created_at: new Date().toISOString(),
+      };
+      state.shares.push(share);
+      return json(201, { link: shareView(share) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/shares$/,
+    auth: true,
+    handler: ({ user, query }) => {
+      const itemId = query.get('item_id');
+      const albumId = query.get('album_id');
+      const links = state.shares
+        .filter(share => share.user_id === user!.id)
+        .filter(share => !itemId || (share.kind === 'item' && share.target_id === itemId))
+        .filter(share => !albumId || (share.kind === 'album' && share.target_id === albumId))
+        .reverse()
+        .map(shareView);
+      return json(200, { links });
+    },
+  },
+  {
+    method: 'DELETE',
+    pattern: /^\/api\/shares\/([^/]+)$/,
+    auth: true,
+    handler: ({ user, params }) => {
+      const share = state.shares.find(s => s.id === params[0] && s.user_id === user!.id);
+      if (!share) {
+        return fail(404, 'Share link not found');
+      }
+      share.revoked_at = share.revoked_at || new Date().toISOString();
+      return json(200, { link: shareView(share) });
+    },
+  },
+  {
+    method: 'POST',
+    pattern: /^\/api\/public\/shares\/([^/]+)$/,
+    handler: ({ params, body }) => {
+      const share = openShare(params[0]);
+      if (share instanceof Response) {
+        return share;
+      }
+      if (share.password && body?.password !== share.password) {
+        return json(401, { error: body?.password ? 'Incorrect password' : 'This link is password protected', password_required: true });
+      }
+      const items = sharedItems(share);
+      if (!items) {
+        return fail(410, 'The shared item is no longer available');
+      }
+      share.view_count++;
+      return json(200, { share: sharedContent(share, items) });
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/public\/shares\/([^/]+)\/media\/([^/]+)$/,
+    handler: async ({ params, query, signal }) => {
+      const share = openShare(params[0]);
+      if (share instanceof Response) {
+        return share;
+      }
+      if (share.password && query.get('grant') !== mediaGrant(share)) {
+        return fail(401, 'This link is password protected');
+      }
+      const item = sharedItems(share)?.find(i => i.id === decodeURIComponent(params[1]));
+      if (!item) {
+        return fail(404, 'Not part of this share');
+      }
+      // Stands in for the server reading the file from storage
+      try {
+        const upstream = await fetch(item.imageUrl.split('#')[0], { signal });
+        if (!upstream.ok) throw new Error(`HTTP ${upstream.status}`);
+        return new Response(await upstream.blob(), {
+          status: 200,
+          headers: { 'Content-Type': upstream.headers.get('content-type') || 'application/octet-stream' },
+        });
+      } catch (error: any) {
+        if (error.name === 'AbortError') throw error;
+        return fail(502, 'Media is not available right now');
+      }
+    },
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/gallery\/saved-ids$/,
+    auth: true,
+    handler: ({ user }) => json(200, { saved_ids: (state.galleries[user!.id] || []).map(item => item.id) }),
+  },
+  {
+    method: 'GET',
+    pattern: /^\/api\/user\/stats$/,
+    auth: true,
+    handler: ({ user }) => json(200, {
+      scan_count: user!.scan_count,
+      saved_count: (state.galleries[user!.id] || []).length,
+    }),
+  },
+];
+
+// Stands in for the server's signing key
+const SHARE_SECRET = 'facefinder-mock-share-secret';
+
+/**
+ * Keyed signature for a share id (two FNV-1a passes; a real backend uses an HMAC)
+ */
+const signShare = (id: string): string => {
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (const char of `${SHARE_SECRET}:${id}`) {
+    a = Math.imul(a ^ char.charCodeAt(0), 0x01000193);
+    b = Math.imul(b ^ char.charCodeAt(0), 0x5bd1e995);
+  }
+  return (a >>> 0).toString(16).padStart(8, '0') + (b >>> 0).toString(16).padStart(8, '0');
+};
+
+const shareView = (share: MockShare): ShareLink => ({
+  id: share.id,
+  token: `${share.id}.${signShare(share.id)}`,
+  kind: share.kind,
+  target_id: share.target_id,
+  expires_at: share.expires_at,
+  has_password: !!share.password,
+  view_count: share.view_count,
+  revoked: !!share.revoked_at,
+  created_at: share.created_at,
+});
+
+/**
+ * Gallery items a share link covers, in display order, or null when its item or album has since been deleted
+ */
+const sharedItems = (share: MockShare): PhotoResult[] | null => {
+  const gallery = state.galleries[share.user_id] || [];
+  if (share.kind === 'album') {
+    const album = (state.albums[share.user_id] || []).find(a => a.id === share.target_id);
+    return album ? album.item_ids.flatMap(id => gallery.filter(item => item.id === id)) : null;
+  }
+  const item = gallery.find(i => i.id === share.target_id);
+  return item ? [item] : null;
+};
+
+/**
+ * Look up a share from the token in a public URL, or the error response for an invalid, revoked or expired link
+ */
+const openShare = (shareToken: string): MockShare | Response => {
+  const [id, signature] = decodeURIComponent(shareToken).split('.');
+  const share = signature === signShare(id) ? state.shares.find(s => s.id === id) : undefined;
+  if (!share) {
+    return fail(404, 'This link is not valid');
+  }
+  if (share.revoked_at) {
+    return fail(410, 'This link has been turned off by its owner');
+  }
+  if (share.expires_at && Date.parse(share.expires_at) <= Date.now()) {
+    return fail(410, 'This link has expired');
+  }
+  return share;
+};
+
+// Proof that the password was given, so media requests don't need to carry it
+const mediaGrant = (share: MockShare) => signShare(`${share.id}:media`);
+
+/**
+ * What a share link shows. Only what a viewer needs: no face data, tags, similarity or location,
+ * and media URLs that go through the share link instead of the storage path.
+ */
+const sharedContent = (share: MockShare, items: PhotoResult[]): SharedContent => {
+  const owner = state.users.find(u => u.id === share.user_id);
+  const album = share.kind === 'album' ? (state.albums[share.user_id] || []).find(a => a.id === share.target_id) : undefined;
+  const publicItem = (item: PhotoResult): PhotoResult => {
+    // Clips without their own file keep the media fragment that limits playback to the clip
+    const fragment = item.imageUrl.includes('#') ? `#${item.imageUrl.split('#')[1]}` : '';
+    return {
+      id: item.id,
+      imageUrl: `/api/public/shares/${shareView(share).token}/media/${encodeURIComponent(item.id)}${fragment}`,
+      media_type: item.media_type,
+      timestamp: item.timestamp,
+      timestamps: item.timestamps,
+      datetime: item.datetime,
+    };
+  };
+  return {
+    kind: share.kind,
+    title: album ? album.name : items[0]?.media_type === 'video' ? 'Shared video' : 'Shared photo',
+    owner_name: owner?.name || 'FaceFinder user',
+    items: items.map(publicItem),
+    expires_at: share.expires_at,
+    media_grant: share.password ? mediaGrant(share) : undefined,
+  };
+};
+
+/**
+ * The ids from a request body that are in the user's gallery, without duplicates
+ */
+const galleryItemIds = (userId: number, ids: unknown): string[] => {
+  if (!Array.isArray(ids)) return [];
+  const saved = new Set((state.galleries[userId] || []).map(item => item.id));
+  return [...new Set(ids.map(String))].filter(id => saved.has(id));
+};
+
+const parseBody = (body: BodyInit | undefined): any => {
+  if (body instanceof FormData) return body;
+  if (typeof body === 'string') {
+    try {
+      return JSON.parse(body);
+    } catch {
+      return body;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Transport that answers every apiService endpoint from in-memory state
+ */
+export const mockTransport: Transport = async (request) => {
+  const url = new URL(request.url, window.location.origin);
+  const route = routes.find(r => r.method === request.method && r.pattern.test(url.pathname));
+
+  // Small latency so loading states remain visible
+  await delay(150, request.signal);
+
+  // Pretend the body goes over the wire in a few steps
+  if (request.onUploadProgress && request.body instanceof FormData) {
+    const total = Array.from(request.body.values()).reduce((sum, value) => sum + (value instanceof Blob ? value.size : String(value).length), 0);
+    for (let step = 1; step <= 4; step++) {
+      await delay(Math.min(100 + total / 100000, 400), request.signal);
+      request.onUploadProgress((total * step) / 4, total);
+    }
+  }
+
+  if (!route) {
+    return fail(404, `No mock handler for ${request.method} ${url.pathname}`);
+  }
+
+  const authHeader = request.headers['Authorization'] || '';
+  const token = authHeader.startsWith('Bearer ') ? authHeader.slice(7) : null;
+  const user = token ? tokenUser(token) : null;
+
+  if (token && !user) {
+    return fail(401, 'Token expired or invalid');
+  }
+  if ((route.auth || route.admin) && !user) {
+    return fail(401, 'Authentication required');
+  }
+  if (route.admin && !user!.is_admin) {
+    return fail(403, 'Admin access required');
+  }
+
+  const response = await route.handler({
+    params: url.pathname.match(route.pattern)!.slice(1),
+    query: url.searchParams,
+    body: parseBody(request.body),
+    user,
+    signal: request.signal,
   });
+
+  if (request.method !== 'GET') {
+    persist();
+  }
+  return response;
+};
+
+/**
+ * Whether the app should start against the in-memory backend. Only consulted on the dev server and in
+ * USE_MOCK_API=true builds (on by default there); `?mock=1` / `?mock=0` in the URL switches it (remembered).
+ */
+export const shouldUseMockBackend = (): boolean => {
+  const param = new URLSearchParams(window.location.search).get('mock');
+  if (param !== null) {
+    localStorage.setItem(MOCK_FLAG_KEY, param === '0' ? 'false' : 'true');
+  }
+  const saved = localStorage.getItem(MOCK_FLAG_KEY);
+  if (saved !== null) {
+    return saved === 'true';
+  }
+  return process.env.USE_MOCK_API === 'true';
+};
+
+/**
+ * Route all API calls to the in-memory backend
+ */
+export const installMockBackend = () => {
+  setTransport(mockTransport);
+  console.log('Using in-memory mock backend');
 };
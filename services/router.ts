@@ -0,0 +1,184 @@
+// router.ts
+// Minimal History API router: maps URLs to screens so every screen can be deep linked
+
+import { useEffect, useState } from 'react';
+
+export type Route =
+  | { name: 'home' }
+  | { name: 'results'; searchId: string }
+  | { name: 'history' }
+  | { name: 'gallery'; itemId?: string; albumId?: string }
+  | { name: 'profile' }
+  | { name: 'signin' }
+  | { name: 'signup' }
+  | { name: 'dashboard' }
+  | { name: 'all-images'; imageId?: string }
+  | { name: 'upload-jobs' }
+  | { name: 'people' }
+  | { name: 'shared'; shareToken: string };
+
+export type RouteName = Route['name'];
+
+/**
+ * Routes that can be viewed without signing in
+ */
+export const isPublicRoute = (route: Route): boolean =>
+  isAuthRoute(route) || route.name === 'shared';
+
+/**
+ * Sign in and sign up, which signed-in users are sent away from
+ */
+export const isAuthRoute = (route: Route): boolean =>
+  route.name === 'signin' || route.name === 'signup';
+
+export const isAdminRoute = (route: Route): boolean =>
+  route.name === 'dashboard' || route.name === 'all-images' || route.name === 'upload-jobs' || route.name === 'people';
+
+// Malformed escapes (e.g. a truncated "%E0%A4%A") are kept as typed rather than failing the whole route
+const decodeSegment = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+/**
+ * Parse a pathname into a route. Unknown paths fall back to home.
+ */
+export const parseRoute = (pathname: string): Route => {
+  const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+  const [first, second, third, fourth] = segments;
+
+  switch (first) {
+    case undefined:
+      return { name: 'home' };
+    case 'results':
+      return second ? { name: 'results', searchId: second } : { name: 'home' };
+    case 'history':
+      return { name: 'history' };
+    case 'gallery':
+      if (second === 'albums' && third) {
+        return { name: 'gallery', albumId: third, itemId: fourth };
+      }
+      return { name: 'gallery', itemId: second };
+    case 'profile':
+      return { name: 'profile' };
+    case 'signin':
+      return { name: 'signin' };
+    case 'signup':
+      return { name: 'signup' };
+    case 'shared':
+      return second ? { name: 'shared', shareToken: second } : { name: 'home' };
+    case 'admin':
+      if (second === 'images') {
+        return { name: 'all-images', imageId: third };
+      }
+      if (second === 'uploads') {
+        return { name: 'upload-jobs' };
+      }
+      if (second === 'people') {
+        return { name: 'people' };
+      }
+      return { name: 'dashboard' };
+    default:
+      return { name: 'home' };
+  }
+};
+
+export const buildPath = (route: Route): string => {
+  switch (route.name) {
+    case 'home':
+      return '/';
+    case 'results':
+      return `/results/${encodeURIComponent(route.searchId)}`;
+    case 'history':
+      return '/history';
+    case 'gallery': {
+      const base = route.albumId ? `/gallery/albums/${encodeURIComponent(route.albumId)}` : '/gallery';
+      return route.itemId ? `${base}/${encodeURIComponent(route.itemId)}` : base;
+    }
+    case 'profile':
+      return '/profile';
+    case 'signin':
+      return '/signin';
+    case 'signup':
+      return '/signup';
+    case 'dashboard':
+      return '/admin';
+    case 'all-images':
+      return route.imageId ? `/admin/images/${encodeURIComponent(route.imageId)}` : '/admin/images';
+    case 'upload-jobs':
+      return '/admin/uploads';
+    case 'people':
+      return '/admin/people';
+    case 'shared':
+      return `/shared/${encodeURIComponent(route.shareToken)}`;
+  }
+};
+
+export const getCurrentPath = (): string => window.location.pathname;
+
+export const getCurrentRoute = (): Route => parseRoute(getCurrentPath());
+
+const routeListeners: Array<(route: Route) => void> = [];
+
+const notify = () => {
+  const route = getCurrentRoute();
+  routeListeners.forEach((listener) => listener(route));
+};
+
+window.addEventListener('popstate', notify);
+
+// Position of the current entry within this app's history, so goBack knows whether it can pop
+const currentIndex = (): number => window.history.state?.index ?? 0;
+
+/**
+ * Navigate to a route or path. Replacing keeps the current history entry (redirects, in-place changes).
+ */
+export const navigate = (to: Route | string, options: { replace?: boolean } = {}) => {
+  const path = typeof to === 'string' ? to : buildPath(to);
+  if (path === getCurrentPath()) return;
+
+  if (options.replace) {
+    window.history.replaceState({ index: currentIndex() }, '', path);
+  } else {
+    window.history.pushState({ index: currentIndex() + 1 }, '', path);
+  }
+  notify();
+};
+
+/**
+ * Go back one entry if it belongs to this app, otherwise replace the current entry with the fallback
+ */
+export const goBack = (fallback: Route) => {
+  if (currentIndex() > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
+
+/**
+ * Subscribe to route changes. Returns an unsubscribe function.
+ */
+export const onRouteChange = (listener: (route: Route) => void) => {
+  routeListeners.push(listener);
+  return () => {
+    const index = routeListeners.indexOf(listener);
+    if (index > -1) {
+      routeListeners.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Current route, re-rendering on navigation and browser back/forward
+ */
+export const useRoute = (): Route => {
+  const [route, setRoute] = useState<Route>(getCurrentRoute);
+
+  useEffect(() => onRouteChange(setRoute), []);
+
+  return route;
+};
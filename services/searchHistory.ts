@@ -0,0 +1,94 @@
+// searchHistory.ts
+// Past face searches, kept per user in localStorage so result sets can be reopened or re-run
+
+import { PhotoResult, SearchGroup } from '../types';
+import { downscaleImage } from '../utils';
+
+export interface SearchHistoryEntry {
+  id: string;
+  createdAt: string;
+  /** Downscaled copy of the query photo, good enough to show and to search with again */
+  queryImage: string;
+  /** Downscaled reference photos for a multi-reference search (the first is also queryImage) */
+  referenceImages?: string[];
+  resultCount: number;
+  topMatches: PhotoResult[];
+  /** Raw matches as returned by the search endpoint, one group per searched face */
+  groups: SearchGroup[];
+}
+
+const MAX_ENTRIES = 20;
+const QUERY_IMAGE_SIZE = 800;
+const REFERENCE_IMAGE_SIZE = 640;
+const TOP_MATCH_COUNT = 4;
+
+const storageKey = (userId: number | string) => `searchHistory.${userId}`;
+
+export const getSearchHistory = (userId: number | string): SearchHistoryEntry[] => {
+  try {
+    const raw = localStorage.getItem(storageKey(userId));
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Failed to read search history:', error);
+    return [];
+  }
+};
+
+export const getSearchEntry = (userId: number | string, id: string): SearchHistoryEntry | null =>
+  getSearchHistory(userId).find(entry => entry.id === id) || null;
+
+/**
+ * Write the history, dropping the oldest entries until it fits in storage
+ */
+const writeHistory = (userId: number | string, entries: SearchHistoryEntry[]) => {
+  let kept = entries.slice(0, MAX_ENTRIES);
+  while (kept.length > 0) {
+    try {
+      localStorage.setItem(storageKey(userId), JSON.stringify(kept));
+      return;
+    } catch (error) {
+      kept = kept.slice(0, -1);
+    }
+  }
+  localStorage.removeItem(storageKey(userId));
+};
+
+/**
+ * Record a finished search
+ * @param grouped - Matches as shown on the results screen (videos merged) across all groups, used for the summary
+ */
+export const recordSearch = async (
+  userId: number | string,
+  id: string,
+  queryFile: Blob,
+  groups: SearchGroup[],
+  grouped: PhotoResult[],
+  references: Blob[] = []
+): Promise<SearchHistoryEntry> => {
+  const best = [...grouped]
+    .sort((a, b) => (b.similarity || 0) - (a.similarity || 0))
+    .filter((match, index, all) => all.findIndex(other => other.id === match.id) === index);
+
+  const entry: SearchHistoryEntry = {
+    id,
+    createdAt: new Date().toISOString(),
+    queryImage: await downscaleImage(queryFile, QUERY_IMAGE_SIZE),
+    resultCount: grouped.length,
+    topMatches: best.slice(0, TOP_MATCH_COUNT),
+    groups,
+  };
+  if (references.length > 1) {
+    entry.referenceImages = await Promise.all(references.map(reference => downscaleImage(reference, REFERENCE_IMAGE_SIZE)));
+  }
+  const others = getSearchHistory(userId).filter(existing => existing.id !== id);
+  writeHistory(userId, [entry, ...others]);
+  return entry;
+};
+
+export const deleteSearchEntry = (userId: number | string, id: string) => {
+  writeHistory(userId, getSearchHistory(userId).filter(entry => entry.id !== id));
+};
+
+export const clearSearchHistory = (userId: number | string) => {
+  localStorage.removeItem(storageKey(userId));
+};
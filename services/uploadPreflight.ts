@@ -0,0 +1,301 @@
+// uploadPreflight.ts
+// Checks and normalizes files in the browser before an admin upload: EXIF/XMP and video metadata, orientation, size, format and duplicates
+
+import { UploadKind } from './apiService';
+import { PhotoMetadata, readPhotoMetadata, readVideoMetadata } from './exif';
+
+export interface PreflightSettings {
+  /** Longest side in pixels; larger photos are downscaled. Null keeps full resolution. */
+  maxDimension: number | null;
+}
+
+export type PreflightStatus = 'ready' | 'duplicate' | 'invalid';
+
+export interface PreflightEntry {
+  id: string;
+  original: File;
+  /** What will be sent: the original, or a rotated/downscaled/converted copy. Null when unreadable. */
+  file: File | null;
+  kind: UploadKind;
+  status: PreflightStatus;
+  /** Read from the original; sent with the upload since re-encoded copies lose it */
+  metadata: PhotoMetadata;
+  /** Human-readable list of what normalization changed */
+  changes: string[];
+  error?: string;
+  /** Name of the earlier file this one repeats */
+  duplicateOf?: string;
+  exactDuplicate?: boolean;
+  sha256?: string;
+  phash?: string;
+  thumbnail?: string;
+}
+
+/**
+ * Fingerprint of a file uploaded before, to catch re-uploads
+ */
+export interface UploadFingerprint {
+  name: string;
+  sha256?: string;
+  phash?: string;
+}
+
+export const MAX_DIMENSION_OPTIONS: Array<number | null> = [2048, 3072, 4096, null];
+
+const SETTINGS_KEY = 'uploadPreflightSettings';
+const DEFAULT_SETTINGS: PreflightSettings = { maxDimension: 4096 };
+
+// Formats the backend accepts as-is; anything else the browser can decode is converted to JPEG
+const SERVER_IMAGE_TYPES = ['image/jpeg', 'image/png'];
+const VIDEO_TYPES = ['video/mp4', 'video/avi', 'video/x-msvideo', 'video/mov', 'video/quicktime', 'video/mkv', 'video/x-matroska', 'video/webm'];
+// Only Safari decodes these, so elsewhere they can't be converted to JPEG
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+// Browsers often report HEIC/HEIF (and some video containers) with an empty type; go by the extension then
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  heif: 'image/heif',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  avi: 'video/x-msvideo',
+  mkv: 'video/x-matroska',
+  webm: 'video/webm',
+};
+const OUTPUT_QUALITY = 0.9;
+const THUMBNAIL_SIZE = 96;
+// Max differing bits between two 64-bit perceptual hashes for photos to count as the same shot
+const NEAR_DUPLICATE_DISTANCE = 6;
+
+export const getPreflightSettings = (): PreflightSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const savePreflightSettings = (settings: PreflightSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+/**
+ * MIME type of a file, from its extension when the browser reports none
+ */
+const typeOf = (file: File): string =>
+  file.type || EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() || ''] || '';
+
+/**
+ * Whether a picked file is a photo or a video; null for anything else
+ */
+export const mediaKindOf = (file: File): UploadKind | null => {
+  const type = typeOf(file);
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('image/')) return 'image';
+  return null;
+};
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = url;
+  });
+
+const drawScaled = (img: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d')?.drawImage(img, 0, 0, width, height);
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))), type, OUTPUT_QUALITY);
+  });
+
+const sha256Hex = async (file: Blob): Promise<string | undefined> => {
+  // SubtleCrypto is only available on secure origins
+  if (!crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Difference hash: shrink to 9x8 greyscale and record whether each pixel is brighter than its right neighbour
+ */
+const differenceHash = (img: HTMLImageElement): string => {
+  const { data } = drawScaled(img, 9, 8).getContext('2d')!.getImageData(0, 0, 9, 8);
+  const luma = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  let hex = '';
+  for (let y = 0; y < 8; y++) {
+    let byte = 0;
+    for (let x = 0; x < 8; x++) {
+      byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const renameExtension = (name: string, extension: string) => {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${extension}`;
+};
+
+const formatLabel = (file: File) =>
+  (typeOf(file).split('/')[1] || file.name.split('.').pop() || 'unknown').toUpperCase();
+
+const checkVideo = async (entry: PreflightEntry): Promise<PreflightEntry> => {
+  if (entry.original.size === 0) {
+    return { ...entry, status: 'invalid', file: null, error: 'File is empty' };
+  }
+  if (!VIDEO_TYPES.includes(typeOf(entry.original))) {
+    return { ...entry, status: 'invalid', file: null, error: `${formatLabel(entry.original)} videos are not supported` };
+  }
+  return { ...entry, metadata: await readVideoMetadata(entry.original) };
+};
+
+const checkImage = async (entry: PreflightEntry, settings: PreflightSettings): Promise<PreflightEntry> => {
+  const { original } = entry;
+  if (original.size === 0) {
+    return { ...entry, status: 'invalid', file: null, error: 'File is empty' };
+  }
+
+  const metadata = await readPhotoMetadata(original);
+  let img: HTMLImageElement;
+  try {
+    // Browsers apply the EXIF orientation when decoding, so drawn pixels come out upright
+    img = await loadImage(original);
+  } catch {
+    return {
+      ...entry,
+      metadata,
+      status: 'invalid',
+      file: null,
+      error: HEIC_TYPES.includes(typeOf(original))
+        ? `${formatLabel(original)} can't be converted in this browser: export it as JPEG, or upload it from Safari`
+        : `File is corrupt, or ${formatLabel(original)} can't be read in this browser`,
+    };
+  }
+
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+  const changes: string[] = [];
+
+  const convert = !SERVER_IMAGE_TYPES.includes(typeOf(original));
+  const rotate = (metadata.orientation ?? 1) > 1;
+  const scale = settings.maxDimension ? Math.min(1, settings.maxDimension / Math.max(width, height)) : 1;
+
+  let file = original;
+  if (convert || rotate || scale < 1) {
+    const type = convert ? 'image/jpeg' : typeOf(original);
+    const canvas = drawScaled(img, Math.round(width * scale), Math.round(height * scale));
+    const blob = await canvasToBlob(canvas, type);
+    const name = convert ? renameExtension(original.name, 'jpg') : original.name;
+    file = new File([blob], name, { type, lastModified: original.lastModified });
+
+    if (rotate) changes.push('Rotated upright');
+    if (scale < 1) changes.push(`Downscaled from ${width}×${height} to ${canvas.width}×${canvas.height}`);
+    if (convert) changes.push(`Converted ${formatLabel(original)} to JPEG`);
+  }
+
+  const thumbScale = THUMBNAIL_SIZE / Math.max(width, height);
+  const thumbnail = drawScaled(img, Math.max(1, Math.round(width * thumbScale)), Math.max(1, Math.round(height * thumbScale)))
+    .toDataURL('image/jpeg', 0.7);
+
+  return {
+    ...entry,
+    file,
+    metadata,
+    changes,
+    thumbnail,
+    sha256: await sha256Hex(original),
+    phash: differenceHash(img),
+  };
+};
+
+/**
+ * Mark files that repeat an earlier file in the batch, or something uploaded before
+ */
+const markDuplicates = (entries: PreflightEntry[], previous: UploadFingerprint[]): PreflightEntry[] => {
+  const seen: UploadFingerprint[] = [...previous];
+  return entries.map((entry) => {
+    if (entry.status !== 'ready') return entry;
+
+    // Videos are not hashed; the same name and size is as close as it gets
+    const fingerprint: UploadFingerprint = {
+      name: entry.original.name,
+      sha256: entry.sha256 ?? (entry.kind === 'video' ? `${entry.original.name}:${entry.original.size}` : undefined),
+      phash: entry.phash,
+    };
+    const exact = seen.find(other => fingerprint.sha256 && other.sha256 === fingerprint.sha256);
+    const near = exact ? undefined : seen.find(other =>
+      fingerprint.phash && other.phash && hammingDistance(other.phash, fingerprint.phash) <= NEAR_DUPLICATE_DISTANCE);
+    seen.push(fingerprint);
+
+    const match = exact || near;
+    return match ? { ...entry, status: 'duplicate', duplicateOf: match.name, exactDuplicate: !!exact } : entry;
+  });
+};
+
+/**
+ * Check and normalize files one at a time (full-size decodes are memory hungry), then flag duplicates
+ */
+export const preflightFiles = async (
+  files: File[],
+  settings: PreflightSettings,
+  previous: UploadFingerprint[] = [],
+  onProgress?: (done: number, total: number) => void
+): Promise<PreflightEntry[]> => {
+  const entries: PreflightEntry[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const original = files[i];
+    const kind: UploadKind = mediaKindOf(original) === 'video' ? 'video' : 'image';
+    const entry: PreflightEntry = {
+      id: `${i}-${original.name}`,
+      original,
+      file: original,
+      kind,
+      status: 'ready',
+      metadata: {},
+      changes: [],
+    };
+    try {
+      entries.push(kind === 'video' ? await checkVideo(entry) : await checkImage(entry, settings));
+    } catch (error: any) {
+      entries.push({ ...entry, status: 'invalid', file: null, error: error.message || 'Could not check file' });
+    }
+    onProgress?.(i + 1, files.length);
+  }
+  return markDuplicates(entries, previous);
+};
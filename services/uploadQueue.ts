@@ -0,0 +1,545 @@
+// uploadQueue.ts
+// Resumable admin uploads: files are sent in chunks, a few at a time, from a queue kept in IndexedDB so it survives reloads.
+// Finished files stay in the store as the upload jobs history.
+
+import { useEffect, useState } from 'react';
+import {
+  UploadKind,
+  UploadFileResult,
+  MediaMetadata,
+  UploadSession,
+  VideoIngestProgress,
+  VideoIngestStats,
+  createUploadSession,
+  getUploadSession,
+  uploadChunk,
+  completeUpload,
+  cancelUploadSession,
+  uploadImages,
+  uploadVideo,
+  isPermissionDenied,
+} from './apiService';
+import { isApiError } from './apiClient';
+import { getStoredToken } from './authSession';
+import { mediaKindOf } from './uploadPreflight';
+
+export type UploadItemStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed';
+
+export interface UploadQueueItem {
+  id: string;
+  /** Files picked together share a batch */
+  batchId: string;
+  name: string;
+  size: number;
+  type: string;
+  kind: UploadKind;
+  status: UploadItemStatus;
+  uploadedBytes: number;
+  addedAt: string;
+  /** Server-side upload session, kept so an interrupted file resumes where it stopped */
+  uploadId?: string;
+  /** Outcome reported by the server once the file was processed */
+  result?: UploadFileResult['status'];
+  error?: string;
+  /** Latest server processing stage of a video */
+  progress?: VideoIngestProgress;
+  /** What the server extracted from a video */
+  stats?: VideoIngestStats;
+  finishedAt?: string;
+  /** Hidden from the upload modal; still listed in the jobs history */
+  archived?: boolean;
+  /** Content hashes from the pre-upload check, to spot the same photo being uploaded again */
+  sha256?: string;
+  phash?: string;
+  /** Capture time and place read from the file before upload, sent along with it */
+  metadata?: MediaMetadata;
+}
+
+export interface UploadRequest {
+  file: File;
+  sha256?: string;
+  phash?: string;
+  metadata?: MediaMetadata;
+}
+
+export interface UploadQueueState {
+  items: UploadQueueItem[];
+  paused: boolean;
+}
+
+interface StoredUpload {
+  item: UploadQueueItem;
+  // Dropped once a file is in, only kept for files that may need sending again
+  file: File | null;
+}
+
+const MAX_CONCURRENT_UPLOADS = 3;
+const MAX_CHUNK_ATTEMPTS = 3;
+const DB_NAME = 'facefinderUploads';
+const STORE_NAME = 'queue';
+const PAUSED_KEY = 'uploadQueuePaused';
+// Progress ticks arrive many times a second; the stored copy only needs one now and then
+const PROGRESS_SAVE_INTERVAL_MS = 2000;
+const PROGRESS_FIELDS: Array<keyof UploadQueueItem> = ['uploadedBytes', 'progress'];
+
+// --- Storage ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runStore = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const lastSaved = new Map<string, number>();
+
+const saveItem = (item: UploadQueueItem) => {
+  lastSaved.set(item.id, Date.now());
+  const record: StoredUpload = { item, file: files.get(item.id) ?? null };
+  runStore('readwrite', store => store.put(record, item.id))
+    .catch(error => console.error('Failed to persist upload queue:', error));
+};
+
+const removeStored = (id: string) => {
+  lastSaved.delete(id);
+  runStore('readwrite', store => store.delete(id))
+    .catch(error => console.error('Failed to persist upload queue:', error));
+};
+
+// --- Queue state ---
+
+let items: UploadQueueItem[] = [];
+const files = new Map<string, File>();
+const controllers = new Map<string, AbortController>();
+let paused = localStorage.getItem(PAUSED_KEY) === 'true';
+let restorePromise: Promise<void> | null = null;
+
+const queueListeners: Array<(state: UploadQueueState) => void> = [];
+const deniedListeners: Array<() => void> = [];
+
+export const getUploadQueue = (): UploadQueueState => ({ items, paused });
+
+/**
+ * Subscribe to queue changes. Returns an unsubscribe function.
+ */
+export const onUploadQueueChange = (listener: (state: UploadQueueState) => void) => {
+  queueListeners.push(listener);
+  return () => {
+    const index = queueListeners.indexOf(listener);
+    if (index > -1) {
+      queueListeners.splice(index, 1);
+    }
+  };
+};
+
+/**
+ * Subscribe to uploads the server refused for lack of admin rights. Returns an unsubscribe function.
+ */
+export const onUploadPermissionDenied = (listener: () => void) => {
+  deniedListeners.push(listener);
+  return () => {
+    const index = deniedListeners.indexOf(listener);
+    if (index > -1) {
+      deniedListeners.splice(index, 1);
+    }
+  };
+};
+
+const notify = () => {
+  const state = getUploadQueue();
+  queueListeners.forEach((listener) => listener(state));
+};
+
+const findItem = (id: string) => items.find(item => item.id === id);
+
+const updateItem = (id: string, changes: Partial<UploadQueueItem>) => {
+  let updated: UploadQueueItem | undefined;
+  items = items.map(item => {
+    if (item.id !== id) return item;
+    updated = { ...item, ...changes };
+    return updated;
+  });
+  if (updated) {
+    // Status and results are saved straight away, progress alone at most every few seconds
+    const progressOnly = Object.keys(changes).every(key => PROGRESS_FIELDS.includes(key as keyof UploadQueueItem));
+    if (!progressOnly || Date.now() - (lastSaved.get(id) ?? 0) >= PROGRESS_SAVE_INTERVAL_MS) {
+      saveItem(updated);
+    }
+    notify();
+  }
+};
+
+const setPaused = (value: boolean) => {
+  paused = value;
+  localStorage.setItem(PAUSED_KEY, String(value));
+  notify();
+};
+
+// --- Uploading ---
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Dropped connections, timeouts and server hiccups are worth another try; anything else is not
+const isRetryable = (error: unknown) =>
+  isApiError(error) && (error.kind !== 'http' || error.status >= 500);
+
+/**
+ * Send the remaining chunks of a file, retrying transient failures with backoff
+ */
+const sendChunks = async (id: string, file: File, session: UploadSession, signal: AbortSignal) => {
+  let offset = session.received_bytes;
+  let attempt = 0;
+
+  while (offset < file.size) {
+    const chunk = file.slice(offset, offset + session.chunk_size);
+    try {
+      const chunkOffset = offset;
+      const next = await uploadChunk(getStoredToken(), session.upload_id, offset, chunk, signal, (sent) => {
+        updateItem(id, { uploadedBytes: chunkOffset + sent });
+      });
+      offset = next.received_bytes;
+      attempt = 0;
+      updateItem(id, { uploadedBytes: offset });
+    } catch (error: any) {
+      if (error.name === 'AbortError') throw error;
+      // Out of step with the server (e.g. a chunk landed but its response was lost): continue from its count
+      if (isApiError(error) && error.status === 409 && typeof error.data?.received_bytes === 'number') {
+        offset = error.data.received_bytes;
+        continue;
+      }
+      attempt++;
+      if (!isRetryable(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+      await sleep(1000 * attempt);
+    }
+  }
+};
+
+/**
+ * Servers without chunked upload endpoints get the whole file in one request
+ */
+const uploadWhole = async (item: UploadQueueItem, file: File, signal: AbortSignal): Promise<UploadFileResult> => {
+  updateItem(item.id, { status: 'uploading' });
+  if (item.kind === 'video') {
+    const stats = await uploadVideo(getStoredToken(), file, (progress) => {
+      if (progress.stage === 'uploading') {
+        updateItem(item.id, { uploadedBytes: progress.uploaded_bytes ?? 0 });
+      } else {
+        updateItem(item.id, { status: 'processing', uploadedBytes: file.size, progress });
+      }
+    }, signal, item.metadata);
+    return { status: 'success', stats };
+  }
+  let result: UploadFileResult = { status: 'success' };
+  await uploadImages(getStoredToken(), [file], (progress) => {
+    if (progress.status) {
+      result = { status: progress.status, error: progress.error };
+    }
+  }, signal, [item.metadata]);
+  return result;
+};
+
+const processItem = async (id: string) => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  const { signal } = controller;
+
+  try {
+    const item = findItem(id);
+    if (!item) return;
+    const file = files.get(id);
+    if (!file) {
+      // E.g. restored after the browser dropped the stored copy; it must leave the queue or pump() picks it again
+      updateItem(id, { status: 'failed', error: 'File is no longer available; add it again', finishedAt: new Date().toISOString() });
+      return;
+    }
+
+    let session: UploadSession | null = null;
+    if (item.uploadId) {
+      // Resuming: the server may have dropped the session since
+      session = await getUploadSession(getStoredToken(), item.uploadId, signal).catch((error) => {
+        if (isApiError(error) && error.status === 404) return null;
+        throw error;
+      });
+    }
+
+    let result: UploadFileResult;
+    if (!session) {
+      try {
+        session = await createUploadSession(getStoredToken(), file, item.kind, signal, item.metadata);
+      } catch (error) {
+        if (!(isApiError(error) && error.status === 404)) throw error;
+      }
+    }
+
+    if (session) {
+      updateItem(id, { status: 'uploading', uploadId: session.upload_id, uploadedBytes: session.received_bytes });
+      await sendChunks(id, file, session, signal);
+      updateItem(id, { status: 'processing' });
+      result = await completeUpload(getStoredToken(), session.upload_id, signal, (progress) => {
+        updateItem(id, { progress });
+      });
+    } else {
+      result = await uploadWhole(item, file, signal);
+    }
+
+    // Nothing left to re-send for a file that went in cleanly
+    if (result.status === 'success') {
+      files.delete(id);
+    }
+    updateItem(id, {
+      status: result.status === 'error' ? 'failed' : 'done',
+      finishedAt: new Date().toISOString(),
+      uploadedBytes: file.size,
+      uploadId: undefined,
+      result: result.status,
+      error: result.error,
+      stats: result.stats,
+      progress: undefined,
+    });
+  } catch (error: any) {
+    // Paused or canceled: whoever aborted has already updated the item
+    if (error.name === 'AbortError') return;
+    updateItem(id, { status: 'failed', error: error.message || 'Upload failed', progress: undefined, finishedAt: new Date().toISOString() });
+    if (isPermissionDenied(error)) {
+      // The rest of the queue would be refused too
+      setPaused(true);
+      deniedListeners.forEach(listener => listener());
+    }
+  } finally {
+    if (controllers.get(id) === controller) {
+      controllers.delete(id);
+    }
+    pump();
+  }
+};
+
+/**
+ * Start queued files until the concurrency limit is reached
+ */
+const pump = () => {
+  if (paused) return;
+  const waiting = items.filter(item => item.status === 'queued' && !controllers.has(item.id));
+  const slots = MAX_CONCURRENT_UPLOADS - controllers.size;
+  waiting.slice(0, Math.max(slots, 0)).forEach(item => {
+    processItem(item.id);
+  });
+};
+
+const stopItem = (id: string) => {
+  controllers.get(id)?.abort();
+  controllers.delete(id);
+};
+
+// --- Public actions ---
+
+/**
+ * Load the queue left by a previous visit. Files that were mid-upload go back to the queue
+ * and continue from what the server already has, unless the queue was paused.
+ */
+export const restoreUploadQueue = (): Promise<void> => {
+  if (!restorePromise) {
+    restorePromise = runStore<StoredUpload[]>('readonly', store => store.getAll())
+      .then((stored) => {
+        const known = new Set(items.map(item => item.id));
+        const restored = stored
+          .filter(record => !known.has(record.item.id))
+          .map(({ item, file }) => {
+            if (file) files.set(item.id, file);
+            return item.status === 'uploading' || item.status === 'processing' ? { ...item, status: 'queued' as const, progress: undefined } : item;
+          });
+        items = [...restored, ...items].sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+        notify();
+        pump();
+      })
+      .catch(error => console.error('Failed to restore upload queue:', error));
+  }
+  return restorePromise;
+};
+
+/**
+ * Add files to the queue and start uploading
+ */
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const enqueueUploads = (requests: Array<File | UploadRequest>): UploadQueueItem[] => {
+  const addedAt = new Date().toISOString();
+  const batchId = newId();
+  const added = requests.map((request): UploadQueueItem => {
+    const { file, sha256, phash, metadata } = request instanceof File ? { file: request } as UploadRequest : request;
+    const id = newId();
+    files.set(id, file);
+    return {
+      id,
+      batchId,
+      name: file.name,
+      size: file.size,
+      type: file.type,
+      kind: mediaKindOf(file) === 'video' ? 'video' : 'image',
+      status: 'queued',
+      uploadedBytes: 0,
+      addedAt,
+      sha256,
+      phash,
+      metadata,
+    };
+  });
+  items = [...items, ...added];
+  added.forEach(saveItem);
+  if (paused) {
+    setPaused(false);
+  } else {
+    notify();
+  }
+  pump();
+  return added;
+};
+
+/**
+ * Stop sending. In-flight files keep their server session and resume from it.
+ */
+export const pauseUploads = () => {
+  Array.from(controllers.keys()).forEach((id) => {
+    stopItem(id);
+    updateItem(id, { status: 'queued', progress: undefined });
+  });
+  setPaused(true);
+};
+
+export const resumeUploads = () => {
+  setPaused(false);
+  pump();
+};
+
+const dropItem = (item: UploadQueueItem) => {
+  stopItem(item.id);
+  if (item.uploadId) {
+    cancelUploadSession(getStoredToken(), item.uploadId).catch(() => { });
+  }
+  items = items.filter(other => other.id !== item.id);
+  files.delete(item.id);
+  removeStored(item.id);
+};
+
+/**
+ * Drop a file from the queue, discarding anything the server received of it
+ */
+export const cancelUpload = (id: string) => {
+  const item = findItem(id);
+  if (!item) return;
+  dropItem(item);
+  notify();
+  pump();
+};
+
+/**
+ * Cancel every file that has not finished
+ */
+export const cancelAllUploads = () => {
+  items
+    .filter(item => item.status !== 'done' && item.status !== 'failed')
+    .forEach(dropItem);
+  notify();
+};
+
+/**
+ * Server outcome of a finished file. Files that never reached the server count as errors.
+ */
+export const uploadOutcome = (item: UploadQueueItem): UploadFileResult['status'] | undefined => {
+  if (item.status === 'failed') return item.result ?? 'error';
+  if (item.status === 'done') return item.result ?? 'success';
+  return undefined;
+};
+
+/**
+ * Whether a finished file can be sent again: it failed or had no face, and its data is still stored
+ */
+export const canReupload = (item: UploadQueueItem): boolean => {
+  const outcome = uploadOutcome(item);
+  return (outcome === 'error' || outcome === 'no_face') && files.has(item.id);
+};
+
+const requeue = (item: UploadQueueItem) => {
+  // A file the server received and processed is sent again from scratch
+  const restart = item.result !== undefined;
+  updateItem(item.id, {
+    status: 'queued',
+    error: undefined,
+    result: undefined,
+    uploadId: restart ? undefined : item.uploadId,
+    uploadedBytes: restart ? 0 : item.uploadedBytes,
+    progress: undefined,
+    stats: undefined,
+    finishedAt: undefined,
+    archived: false,
+  });
+};
+
+/**
+ * Send failed or no-face files again, in place in their original batch
+ */
+export const reuploadFiles = (ids: string[]) => {
+  items.filter(item => ids.includes(item.id) && canReupload(item)).forEach(requeue);
+  if (paused) {
+    setPaused(false);
+  }
+  pump();
+};
+
+export const retryUpload = (id: string) => reuploadFiles([id]);
+
+export const retryFailedUploads = () => {
+  reuploadFiles(items.filter(item => item.status === 'failed' && !item.archived).map(item => item.id));
+};
+
+/**
+ * Hide finished files from the upload modal. They stay in the jobs history.
+ */
+export const dismissFinishedUploads = () => {
+  items
+    .filter(item => !item.archived && (item.status === 'done' || item.status === 'failed'))
+    .forEach(item => updateItem(item.id, { archived: true }));
+};
+
+/**
+ * Remove a batch from the history. Files still uploading are left alone.
+ */
+export const deleteUploadBatch = (batchId: string) => {
+  const finished = items.filter(item => item.batchId === batchId && (item.status === 'done' || item.status === 'failed'));
+  finished.forEach((item) => {
+    files.delete(item.id);
+    removeStored(item.id);
+  });
+  items = items.filter(item => !finished.includes(item));
+  notify();
+};
+
+/**
+ * Current upload queue, re-rendering on every change. Restores a saved queue on first use.
+ */
+export const useUploadQueue = (): UploadQueueState => {
+  const [queue, setQueue] = useState<UploadQueueState>(getUploadQueue);
+
+  useEffect(() => {
+    const unsubscribe = onUploadQueueChange(setQueue);
+    restoreUploadQueue();
+    return unsubscribe;
+  }, []);
+
+  return queue;
+};
@@ -0,0 +1,117 @@
+// videoClips.ts
+// Cuts matched video segments into clips: recorded in the browser with MediaRecorder when possible, otherwise by the backend
+
+import { PhotoResult, VideoSegment } from '../types';
+import { saveClip } from './apiService';
+
+// Preferred container first; Safari only records MP4
+const CLIP_TYPES = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+
+const abortError = () => new DOMException('Clip export cancelled', 'AbortError');
+
+/**
+ * Resolve on the first `event`, reject if the element errors or the signal aborts first
+ */
+const waitFor = (video: HTMLVideoElement, event: string, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Video could not be loaded for recording')); };
+    const onAbort = () => { cleanup(); reject(abortError()); };
+    video.addEventListener(event, onEvent);
+    video.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+/**
+ * Play the segment on a hidden element and record it. Takes as long as the segment itself.
+ * Resolves with null when the browser can't record it (no MediaRecorder, or a source without CORS headers).
+ */
+const recordInBrowser = async (
+  src: string,
+  segment: Pick<VideoSegment, 'start' | 'end'>,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob | null> => {
+  const mimeType = typeof MediaRecorder === 'undefined' ? undefined : CLIP_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  // captureStream is missing from the DOM typings and from some browsers
+  const video: HTMLVideoElement & { captureStream?: () => MediaStream } = document.createElement('video');
+  const captureStream = video.captureStream?.bind(video);
+  if (!mimeType || !captureStream) return null;
+
+  // Without CORS the recorded frames would be tainted, so this fails to load instead
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = src;
+
+  let recorder: MediaRecorder | null = null;
+  try {
+    await waitFor(video, 'loadedmetadata', signal);
+    video.currentTime = segment.start;
+    await waitFor(video, 'seeked', signal);
+
+    const chunks: Blob[] = [];
+    recorder = new MediaRecorder(captureStream(), { mimeType });
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    const stopped = new Promise(resolve => { recorder!.onstop = resolve; });
+
+    recorder.start(250);
+    await video.play();
+    await new Promise<void>((resolve, reject) => {
+      const cleanup = () => {
+        video.removeEventListener('timeupdate', onTime);
+        video.removeEventListener('ended', onTime);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onTime = () => {
+        onProgress?.(Math.min((video.currentTime - segment.start) / (segment.end - segment.start), 1));
+        if (video.currentTime >= segment.end || video.ended) {
+          cleanup();
+          resolve();
+        }
+      };
+      const onAbort = () => { cleanup(); reject(abortError()); };
+      video.addEventListener('timeupdate', onTime);
+      video.addEventListener('ended', onTime);
+      signal?.addEventListener('abort', onAbort);
+    });
+
+    video.pause();
+    recorder.stop();
+    await stopped;
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } catch (error: any) {
+    if (error.name === 'AbortError') throw error;
+    console.warn('Browser clip recording failed, falling back to server:', error);
+    return null;
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+/**
+ * Save one segment of a matched video as a new gallery item and return it.
+ * Progress covers the in-browser recording; a server-side cut reports nothing until it is done.
+ */
+export const exportClip = async (
+  token: string,
+  source: PhotoResult,
+  segment: VideoSegment,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<PhotoResult> => {
+  const src = source.videoUrl || source.imageUrl;
+  const clip = await recordInBrowser(src, segment, onProgress, signal);
+  return saveClip(token, source, segment, clip ?? undefined, signal);
+};
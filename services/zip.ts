@@ -0,0 +1,113 @@
+// zip.ts
+// Minimal ZIP writer: stored (uncompressed) entries with CRC-32, enough for archives of photos and videos that are already compressed
+
+export interface ZipEntry {
+  /** Path inside the archive; forward slashes for folders */
+  name: string;
+  data: Uint8Array;
+  modified?: Date;
+}
+
+// ZIP offsets and sizes are 32-bit without the ZIP64 extension
+const MAX_ZIP_BYTES = 0xffffffff;
+// General purpose flag: file names are UTF-8
+const FLAG_UTF8 = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * MS-DOS date and time as stored in ZIP headers (local time, 2-second resolution, 1980 onwards)
+ */
+const dosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+};
+
+/**
+ * Build a ZIP archive. Entries are stored as-is, so this is fast but does not shrink anything.
+ * Throws when the archive would pass 4 GB.
+ */
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const { time, date } = dosDateTime(entry.modified || new Date());
+    const size = entry.data.length;
+
+    if (offset + 30 + name.length + size > MAX_ZIP_BYTES) {
+      throw new Error('Archive is larger than 4 GB; download fewer items at once');
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed: 2.0
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, 0, true); // Method: stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true); // Compressed size
+    local.setUint32(22, size, true); // Uncompressed size
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true); // Extra field length
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true); // Central directory header signature
+    header.setUint16(4, 20, true); // Version made by
+    header.setUint16(6, 20, true); // Version needed
+    header.setUint16(8, FLAG_UTF8, true);
+    header.setUint16(10, 0, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, size, true);
+    header.setUint32(24, size, true);
+    header.setUint16(28, name.length, true);
+    // Extra field, comment, disk number, internal and external attributes stay zero
+    header.setUint32(42, offset, true); // Offset of the local header
+
+    parts.push(local.buffer, name, entry.data);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  if (offset + centralSize + 22 > MAX_ZIP_BYTES || entries.length > 0xffff) {
+    throw new Error('Archive is larger than 4 GB; download fewer items at once');
+  }
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, entries.length, true); // Entries on this disk
+  end.setUint16(10, entries.length, true); // Entries in total
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true); // Central directory offset
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
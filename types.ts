@@ -10,14 +10,117 @@ export interface PhotoResult {
   datetime?: string;
   latitude?: number;
   longitude?: number;
+  metadata_source?: 'file' | 'manual'; // Where datetime/location came from: read from the uploaded file, or typed in by an admin
   uploadedAt?: string;
-  tagged_by?: string;
+  tagged_by?: string; // Display name of the tagged person
+  person_id?: string; // Tagged person; see Person
+  faces?: DetectedFace[]; // Every face found in the image, each tagged separately; absent for videos
+  matched_face_id?: string; // Search results: the face in this image that matched the query
+  matched_face?: FaceBox; // Search results: where the matching face is, in this image or the matched video frame
+  clip?: VideoClip; // Gallery item cut from a longer matched video
   isSaved?: boolean;
   media_type?: string;
   type?: MediaType;
   videoUrl?: string;
   timestamp?: number;
   timestamps?: number[]; // Added for aggregated video matches
+  reference_index?: number; // Multi-reference search: reference photo with the strongest match
+  reference_similarities?: number[]; // Multi-reference search: similarity per reference photo (0 if not matched)
 }
 
-export type MediaType = 'image' | 'video';
\ No newline at end of file
+export type MediaType = 'image' | 'video';
+
+// A tagged person. Images reference people by id, so a rename or merge happens in one place.
+export interface Person {
+  id: string;
+  name: string;
+  aliases: string[]; // Other spellings and nicknames; tagging by any of them finds this person
+  cover_image_id?: string;
+  cover_image_url?: string;
+  user_id?: number; // Linked user account, when the person has signed up
+  image_count?: number;
+  created_at?: string;
+}
+
+// Face location as fractions (0-1) of the image width and height
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// User-made collection of gallery items. An item can be in any number of albums.
+export interface Album {
+  id: string;
+  name: string;
+  item_ids: string[]; // Gallery item ids, in display order
+  cover_item_id?: string; // Defaults to the first item
+  created_at?: string;
+}
+
+// Public link to a gallery item or album. Tokens are signed by the server, so links can't be guessed or altered.
+export interface ShareLink {
+  id: string;
+  token: string;
+  kind: 'item' | 'album';
+  target_id: string;
+  expires_at: string | null; // Null never expires
+  has_password: boolean;
+  view_count: number;
+  revoked: boolean;
+  created_at: string;
+}
+
+// What a share link shows to someone who isn't signed in
+export interface SharedContent {
+  kind: 'item' | 'album';
+  title: string;
+  owner_name: string;
+  items: PhotoResult[]; // imageUrl is a media path under the share link, never the storage URL
+  expires_at: string | null;
+  media_grant?: string; // Password-protected links: sent with media requests instead of the password
+}
+
+// A face found in an indexed image, tagged on its own so group photos can name everyone in them
+export interface DetectedFace {
+  id: string;
+  box: FaceBox;
+  embedding_id?: string; // Stored embedding this face is searched by
+  confidence?: number; // Detector confidence, 0-1
+  person_id?: string;
+  person_name?: string; // Display name of person_id
+}
+
+// Stretch of a video where the searched face appears, merged from nearby matched frames
+export interface VideoSegment {
+  start: number; // Seconds
+  end: number;
+  timestamps: number[]; // Matched frames inside the segment
+}
+
+// Where a saved clip was cut from. The clip item's timestamps are positions in its own playback.
+export interface VideoClip {
+  source_id: string;
+  source_url: string;
+  start: number; // Seconds into the source video
+  end: number;
+}
+
+// One of several reference photos of the same person; file is absent when reopened from history
+export interface QueryReference {
+  image: string;
+  file: File | null;
+}
+
+// Matches for one searched face; face is absent when the whole photo was searched
+export interface SearchGroup {
+  face?: FaceBox;
+  matches: PhotoResult[];
+}
+
+export type AppState = 'splash' | 'walkthrough' | 'app';
+
+export type Tab = 'home' | 'history' | 'gallery' | 'profile' | 'dashboard' | 'all-images' | 'upload-jobs' | 'people';
+
+export type UserRole = 'user' | 'admin';
@@ -1,3 +1,5 @@
+import { FaceBox, Person, VideoSegment } from './types';
+
 /**
  * Get user initials from full name
  * @param name - Full name of the user
@@ -19,3 +21,209 @@ export const getUserInitials = (name: string | null | undefined): string => {
   }
 };
 
+
+/**
+ * Downscale an image so its longest side fits within maxSize
+ * @param source - Image file/blob or URL
+ * @param maxSize - Longest side in pixels
+ * @param quality - JPEG quality (0-1)
+ * @returns JPEG data URL
+ */
+export const downscaleImage = (source: Blob | string, maxSize: number, quality: number = 0.85): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.naturalWidth * scale);
+      canvas.height = Math.round(img.naturalHeight * scale);
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL('image/jpeg', quality));
+    };
+    img.onerror = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Turn a data URL back into a File
+ * @param dataUrl - Data URL such as one returned by downscaleImage
+ * @param fileName - Name for the resulting file
+ */
+export const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], fileName, { type: blob.type || 'image/jpeg' });
+};
+
+/**
+ * Crop a face out of an image, with some surrounding context so the detector can find it again
+ * @param source - Image file/blob or URL
+ * @param box - Face location as fractions of the image size
+ * @param fileName - Name for the resulting file
+ * @param padding - Extra margin on each side, as a fraction of the face size
+ */
+export const cropImage = (source: Blob | string, box: FaceBox, fileName: string, padding: number = 0.4): Promise<File> => {
+  return new Promise((resolve, reject) => {
+    const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+    const cleanup = () => {
+      if (typeof source !== 'string') URL.revokeObjectURL(url);
+    };
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      const left = Math.max(0, box.x - box.width * padding);
+      const top = Math.max(0, box.y - box.height * padding);
+      const right = Math.min(1, box.x + box.width * (1 + padding));
+      const bottom = Math.min(1, box.y + box.height * (1 + padding));
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round((right - left) * img.naturalWidth));
+      canvas.height = Math.max(1, Math.round((bottom - top) * img.naturalHeight));
+      canvas.getContext('2d')?.drawImage(
+        img,
+        left * img.naturalWidth, top * img.naturalHeight, canvas.width, canvas.height,
+        0, 0, canvas.width, canvas.height
+      );
+      cleanup();
+      canvas.toBlob((blob) => {
+        if (blob) {
+          resolve(new File([blob], fileName, { type: 'image/jpeg' }));
+        } else {
+          reject(new Error('Failed to crop image'));
+        }
+      }, 'image/jpeg', 0.92);
+    };
+    img.onerror = () => {
+      cleanup();
+      reject(new Error('Failed to load image'));
+    };
+    img.src = url;
+  });
+};
+
+/**
+ * Great-circle distance between two coordinates
+ * @returns Distance in kilometres
+ */
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+/**
+ * Parse a backend datetime ("2024-05-01 10:00:00" or ISO) into epoch milliseconds
+ * @returns Milliseconds, or null when missing or unparseable
+ */
+export const parseDateTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const time = new Date(value.includes('T') ? value : value.replace(' ', 'T')).getTime();
+  return isNaN(time) ? null : time;
+};
+
+/**
+ * Build CSV text, quoting values that contain commas, quotes or line breaks
+ * @param header - Column names
+ * @param rows - One array of values per row
+ */
+export const toCsv = (header: string[], rows: Array<Array<string | number | null | undefined>>): string => {
+  const escape = (value: string | number | null | undefined) => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [header, ...rows].map(row => row.map(escape).join(',')).join('\r\n');
+};
+
+/**
+ * Save a blob or text as a file through the browser's download prompt
+ * @param content - File contents
+ * @param fileName - Suggested file name
+ * @param type - MIME type when content is text
+ */
+export const downloadFile = (content: Blob | string, fileName: string, type: string = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * CSS zoom that enlarges a face to about `fill` of its frame, anchored on the face so it stays in view
+ * @param box - Face location as fractions of the frame
+ * @param fill - Share of the frame the face should cover
+ * @returns transform and transformOrigin; the scale stays between 1 and 3
+ */
+export const faceZoom = (box: FaceBox, fill: number = 0.4): { transform: string; transformOrigin: string } => {
+  const scale = Math.min(3, Math.max(1, fill / Math.max(box.width, box.height, 0.01)));
+  return {
+    transform: `scale(${scale})`,
+    transformOrigin: `${(box.x + box.width / 2) * 100}% ${(box.y + box.height / 2) * 100}%`,
+  };
+};
+
+/**
+ * Merge matched video frames into continuous segments
+ * @param timestamps - Matched frame times in seconds, in any order
+ * @param gap - Frames at most this far apart join the same segment
+ * @param padding - Seconds added before and after each segment so the appearance is not cut short
+ * @returns Segments in playback order
+ */
+export const mergeTimestamps = (timestamps: number[], gap: number = 2, padding: number = 0.5): VideoSegment[] => {
+  const segments: VideoSegment[] = [];
+  [...timestamps].sort((a, b) => a - b).forEach((ts) => {
+    const last = segments[segments.length - 1];
+    if (last && ts - last.timestamps[last.timestamps.length - 1] <= gap) {
+      last.timestamps.push(ts);
+      last.end = ts + padding;
+    } else {
+      segments.push({ start: Math.max(0, ts - padding), end: ts + padding, timestamps: [ts] });
+    }
+  });
+  return segments;
+};
+
+/**
+ * Format a byte count for display
+ * @param bytes - Size in bytes
+ * @returns "512 B", "1.5 KB" or "2.3 MB"; "Unknown" when the size is missing
+ */
+export const formatFileSize = (bytes?: number): string => {
+  if (bytes === undefined) return 'Unknown';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Format seconds as m:ss
+ */
+export const formatDuration = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Find the person a typed name refers to, by display name or alias
+ * @param people - Known people
+ * @param name - Name as typed; case and surrounding spaces are ignored
+ * @returns The matching person, or undefined if nobody goes by that name
+ */
+export const findPersonByName = (people: Person[], name: string): Person | undefined => {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return undefined;
+  return people.find(person =>
+    person.name.toLowerCase() === wanted || person.aliases.some(alias => alias.toLowerCase() === wanted));
+};
@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || ''),
+        'process.env.USE_MOCK_API': JSON.stringify(env.USE_MOCK_API || ''),
+        // Dev server, or builds made with USE_MOCK_API=true; other builds leave the mock backend out of the bundle
+        'process.env.MOCK_BACKEND': JSON.stringify(mode === 'development' || env.USE_MOCK_API === 'true' ? 'true' : '')
       },
       resolve: {
         alias: {